@@ -1,6 +1,7 @@
 import type { Coordinate } from './Coordinate';
 import { CoordinateUtils } from './Coordinate';
 import type { Piece, Land, Citadel } from '../engine/GameState';
+import { PieceRegistry } from '../engine/PieceRegistry';
 
 /**
  * Foundation layer types - what provides the base for piece placement
@@ -14,7 +15,7 @@ export interface TileInfo {
   coordinate: Coordinate;
   /** Foundation layer: land tile or turtle (mutually exclusive) */
   land: Land | null;
-  turtle: Piece | null; // Piece of type 'turtle' acting as foundation
+  turtle: Piece | null; // Foundation-layer piece (a turtle) acting as foundation
   /** Piece layer: regular pieces placed on top of foundation */
   piece: Piece | null;
   /** Citadel layer: citadels placed on foundation */
@@ -47,8 +48,15 @@ export class Board {
   private turtleMap = new Map<string, Piece>(); // Turtles acting as foundation layer
   private pieceMap = new Map<string, Piece>(); // Regular pieces on piece layer
   private citadelMap = new Map<string, Citadel>();
-
-  constructor(lands: Land[] = [], pieces: Piece[] = [], citadels: Citadel[] = []) {
+  private pieceRegistry: PieceRegistry;
+
+  constructor(
+    lands: Land[] = [],
+    pieces: Piece[] = [],
+    citadels: Citadel[] = [],
+    pieceRegistry: PieceRegistry = PieceRegistry.default
+  ) {
+    this.pieceRegistry = pieceRegistry;
     this.updateBoard(lands, pieces, citadels);
   }
 
@@ -68,11 +76,11 @@ export class Board {
       this.landMap.set(key, land);
     });
 
-    // Separate turtles (foundation layer) from regular pieces (piece layer)
+    // Separate foundation pieces (turtles) from regular pieces (piece layer)
     pieces.forEach(piece => {
       if (piece.position) {
         const key = CoordinateUtils.toKey(piece.position);
-        if (piece.type === 'turtle') {
+        if (this.pieceRegistry.isFoundation(piece.type)) {
           this.turtleMap.set(key, piece);
         } else {
           this.pieceMap.set(key, piece);
@@ -6,6 +6,11 @@ export interface Coordinate {
   y: number;
 }
 
+/**
+ * Named sets of unit directions pieces move in
+ */
+export type DirectionSet = 'orthogonal' | 'diagonal' | 'any';
+
 /**
  * Utility functions for coordinate operations
  */
@@ -39,6 +44,21 @@ export const CoordinateUtils = {
     return a.x === b.x && a.y === b.y;
   },
 
+  /**
+   * Remove duplicate coordinates, keeping the first occurrence
+   */
+  unique(coordinates: Coordinate[]): Coordinate[] {
+    const seen = new Set<string>();
+    return coordinates.filter(coord => {
+      const key = CoordinateUtils.toKey(coord);
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  },
+
   /**
    * Get orthogonally adjacent coordinates (up, down, left, right)
    */
@@ -73,6 +93,28 @@ export const CoordinateUtils = {
     ];
   },
 
+  /**
+   * Get the unit direction vectors of a direction set
+   */
+  getDirections(directions: DirectionSet): Coordinate[] {
+    const origin = { x: 0, y: 0 };
+    switch (directions) {
+      case 'orthogonal':
+        return CoordinateUtils.getOrthogonalAdjacent(origin);
+      case 'diagonal':
+        return CoordinateUtils.getDiagonalAdjacent(origin);
+      case 'any':
+        return CoordinateUtils.getAllAdjacent(origin);
+    }
+  },
+
+  /**
+   * Move a coordinate a number of steps along a direction vector
+   */
+  offset(coord: Coordinate, direction: Coordinate, steps: number = 1): Coordinate {
+    return { x: coord.x + direction.x * steps, y: coord.y + direction.y * steps };
+  },
+
   /**
    * Calculate Manhattan distance between two coordinates
    */
@@ -0,0 +1,291 @@
+import { CoordinateUtils, type Coordinate, type DirectionSet } from './Coordinate';
+import type { Board } from './Board';
+import type { Piece } from '../engine/GameState';
+import { PieceRegistry } from '../engine/PieceRegistry';
+
+/**
+ * What a pattern can be used for: moving to empty squares, capturing, or both
+ */
+export type MovementMode = 'move' | 'capture' | 'both';
+
+/**
+ * What stops a slide: other pieces (and citadels), or water
+ */
+export type MovementBlocker = 'pieces' | 'water';
+
+/**
+ * Walk up to `distance` squares in a straight line, stopping at pieces and water
+ */
+export interface StepPattern {
+  kind: 'step';
+  directions: DirectionSet;
+  distance: number;
+  mode: MovementMode;
+}
+
+/**
+ * Walk any number of squares in a straight line until something in `blockedBy` is hit
+ */
+export interface SlidePattern {
+  kind: 'slide';
+  directions: DirectionSet;
+  blockedBy: MovementBlocker[];
+  mode: MovementMode;
+}
+
+/**
+ * Land exactly `distance` squares away, ignoring pieces in between
+ */
+export interface JumpPattern {
+  kind: 'jump';
+  directions: DirectionSet;
+  distance: number;
+  overWater: boolean;
+  mode: MovementMode;
+}
+
+/**
+ * Declarative description of how a piece moves and captures
+ */
+export type MovementPattern = StepPattern | SlidePattern | JumpPattern;
+
+/**
+ * A square a piece can capture on, and what it would capture there
+ */
+export interface CaptureTarget {
+  position: Coordinate;
+  /** ID of the piece or citadel on that square */
+  targetId: string;
+}
+
+/**
+ * Movement vocabulary for piece authors.
+ * Pieces declare their patterns once and the engine derives move targets,
+ * capture targets and validation from them.
+ */
+export const MovementUtils = {
+  /**
+   * Move 1 to `distance` squares in a straight line through open squares
+   */
+  step(directions: DirectionSet, distance: number = 1): StepPattern {
+    return { kind: 'step', directions, distance, mode: 'both' };
+  },
+
+  /**
+   * Move any number of squares in a straight line until blocked
+   */
+  slide(directions: DirectionSet, blockedBy: MovementBlocker[] = ['pieces']): SlidePattern {
+    return { kind: 'slide', directions, blockedBy, mode: 'both' };
+  },
+
+  /**
+   * Jump exactly `distance` squares, optionally over water
+   */
+  jump(distance: number, overWater: boolean = false, directions: DirectionSet = 'orthogonal'): JumpPattern {
+    return { kind: 'jump', directions, distance, overWater, mode: 'both' };
+  },
+
+  /**
+   * Restrict a pattern to moving onto empty squares
+   */
+  moveOnly<T extends MovementPattern>(pattern: T): T {
+    return { ...pattern, mode: 'move' };
+  },
+
+  /**
+   * Restrict a pattern to capturing
+   */
+  captureOnly<T extends MovementPattern>(pattern: T): T {
+    return { ...pattern, mode: 'capture' };
+  },
+
+  /**
+   * Check if a pattern could ever take a piece from one square to another,
+   * looking only at geometry (not at what is on the board)
+   */
+  isWithinReach(pattern: MovementPattern, from: Coordinate, to: Coordinate): boolean {
+    return CoordinateUtils.getDirections(pattern.directions).some(direction => {
+      const dx = to.x - from.x;
+      const dy = to.y - from.y;
+      const steps = direction.x !== 0 ? dx / direction.x : dy / direction.y;
+
+      if (!Number.isInteger(steps) || steps < 1 || !CoordinateUtils.equals(CoordinateUtils.offset(from, direction, steps), to)) {
+        return false;
+      }
+
+      switch (pattern.kind) {
+        case 'step':
+          return steps <= pattern.distance;
+        case 'slide':
+          return true;
+        case 'jump':
+          return steps === pattern.distance;
+      }
+    });
+  },
+
+  /**
+   * Get the empty squares a piece can move to
+   */
+  getMoveTargets(
+    patterns: MovementPattern[],
+    piece: Piece,
+    board: Board,
+    pieces: PieceRegistry = PieceRegistry.default
+  ): Coordinate[] {
+    return CoordinateUtils.unique(
+      patterns
+        .filter(pattern => pattern.mode !== 'capture')
+        .flatMap(pattern => MovementUtils.getLandingSquares(pattern, piece, board))
+        .filter(square => MovementUtils.canStandOn(piece, square, board, pieces))
+    );
+  },
+
+  /**
+   * Get the squares a piece can capture on
+   */
+  getCaptureTargets(
+    patterns: MovementPattern[],
+    piece: Piece,
+    board: Board
+  ): CaptureTarget[] {
+    const targets = new Map<string, CaptureTarget>();
+
+    for (const pattern of patterns.filter(p => p.mode !== 'move')) {
+      for (const square of MovementUtils.getLandingSquares(pattern, piece, board)) {
+        const target = MovementUtils.getEnemyAt(piece, square, board);
+        if (target) {
+          targets.set(CoordinateUtils.toKey(square), { position: square, targetId: target.id });
+        }
+      }
+    }
+
+    return Array.from(targets.values());
+  },
+
+  /**
+   * Check a move against a piece's patterns
+   */
+  validateMove(
+    patterns: MovementPattern[],
+    piece: Piece,
+    to: Coordinate,
+    board: Board,
+    pieces: PieceRegistry = PieceRegistry.default
+  ): true | string {
+    const canMove = MovementUtils.getMoveTargets(patterns, piece, board, pieces)
+      .some(square => CoordinateUtils.equals(square, to));
+
+    return canMove || `${pieces.getDisplayName(piece.type)} cannot move to (${to.x}, ${to.y})`;
+  },
+
+  /**
+   * Check a capture against a piece's patterns
+   */
+  validateCapture(
+    patterns: MovementPattern[],
+    piece: Piece,
+    targetId: string,
+    board: Board,
+    pieces: PieceRegistry = PieceRegistry.default
+  ): true | string {
+    const canCapture = MovementUtils.getCaptureTargets(patterns, piece, board)
+      .some(target => target.targetId === targetId);
+
+    return canCapture || `${pieces.getDisplayName(piece.type)} cannot reach that target`;
+  },
+
+  /**
+   * Get every square a pattern ends on, before checking what is there.
+   * Walks stop on the first blocking square, which is included so it can be captured.
+   */
+  getLandingSquares(pattern: MovementPattern, piece: Piece, board: Board): Coordinate[] {
+    if (!piece.position) {
+      return [];
+    }
+
+    const from = piece.position;
+    const directions = CoordinateUtils.getDirections(pattern.directions);
+
+    if (pattern.kind === 'jump') {
+      return directions
+        .filter(direction => pattern.overWater || MovementUtils.isPathOverFoundation(from, direction, pattern.distance, board))
+        .map(direction => CoordinateUtils.offset(from, direction, pattern.distance));
+    }
+
+    const blockedBy: MovementBlocker[] = pattern.kind === 'step' ? ['pieces', 'water'] : pattern.blockedBy;
+    const maxDistance = pattern.kind === 'step' ? pattern.distance : MovementUtils.getSlideLimit(from, board);
+
+    return directions.flatMap(direction => {
+      const squares: Coordinate[] = [];
+      for (let steps = 1; steps <= maxDistance; steps++) {
+        const square = CoordinateUtils.offset(from, direction, steps);
+        squares.push(square);
+
+        const blockedByPiece = blockedBy.includes('pieces') && MovementUtils.hasPieceOrCitadel(square, board);
+        const blockedByWater = blockedBy.includes('water') && board.isWater(square);
+        if (blockedByPiece || blockedByWater) {
+          break;
+        }
+      }
+      return squares;
+    });
+  },
+
+  /**
+   * Check if the squares a jump passes over all have a foundation
+   */
+  isPathOverFoundation(from: Coordinate, direction: Coordinate, distance: number, board: Board): boolean {
+    for (let steps = 1; steps < distance; steps++) {
+      if (board.isWater(CoordinateUtils.offset(from, direction, steps))) {
+        return false;
+      }
+    }
+    return true;
+  },
+
+  /**
+   * Furthest a slide can usefully go: past the edge of the occupied board there is
+   * nothing to land on
+   */
+  getSlideLimit(from: Coordinate, board: Board): number {
+    const bounds = board.getBoundingBox();
+    if (!bounds) {
+      return 0;
+    }
+
+    return Math.max(
+      from.x - bounds.topLeft.x,
+      bounds.bottomRight.x - from.x,
+      from.y - bounds.topLeft.y,
+      bounds.bottomRight.y - from.y
+    );
+  },
+
+  /**
+   * Check if a piece could end a move on an empty square
+   */
+  canStandOn(piece: Piece, square: Coordinate, board: Board, pieces: PieceRegistry = PieceRegistry.default): boolean {
+    if (MovementUtils.hasPieceOrCitadel(square, board)) {
+      return false;
+    }
+
+    return pieces.canBePlacedOn(piece.type, board.getTileInfo(square).foundationLayer);
+  },
+
+  /**
+   * Check if a square has a piece on the piece layer or a citadel
+   */
+  hasPieceOrCitadel(square: Coordinate, board: Board): boolean {
+    return board.isOccupied(square) || board.getCitadel(square) !== null;
+  },
+
+  /**
+   * Get the opposing piece, turtle or citadel on a square, if any.
+   * A turtle is only exposed once nothing rides on its back.
+   */
+  getEnemyAt(piece: Piece, square: Coordinate, board: Board): { id: string; ownerId: string } | null {
+    const target = board.getPiece(square) ?? board.getTurtle(square) ?? board.getCitadel(square);
+    return target && target.ownerId !== piece.ownerId ? target : null;
+  }
+};
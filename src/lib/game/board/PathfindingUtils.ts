@@ -348,6 +348,24 @@ export const PathfindingUtils = {
     return PathfindingUtils.arePlayerFoundationsConnected(playerId, board);
   },
 
+  /**
+   * Check if all citadels are connected to each other through orthogonally
+   * adjacent foundations (land or turtles), regardless of who owns them
+   */
+  areCitadelsConnected(citadelCoords: Coordinate[], board: Board): boolean {
+    if (citadelCoords.length <= 1) {
+      return true;
+    }
+
+    const reachable = PathfindingUtils.findReachableArea(citadelCoords[0], board, {
+      maxDistance: Number.POSITIVE_INFINITY,
+      isValidMove: (from, to, board) => board.hasFoundation(to)
+    });
+    const reachableKeys = new Set(reachable.map(coord => CoordinateUtils.toKey(coord)));
+
+    return citadelCoords.every(coord => reachableKeys.has(CoordinateUtils.toKey(coord)));
+  },
+
   /**
    * Get the shortest distance between two coordinates through valid moves
    */
@@ -2,6 +2,7 @@ import type { Coordinate } from './Coordinate';
 import { CoordinateUtils } from './Coordinate';
 import type { Board } from './Board';
 import type { Piece } from '../engine/GameState';
+import { PieceRegistry } from '../engine/PieceRegistry';
 
 /**
  * Turtle-specific state interface for the piece.state property
@@ -120,6 +121,11 @@ export const TurtleUtils = {
   getValidPiecePlacementCoordinates(citadelCoord: Coordinate, board: Board): Coordinate[] {
     const adjacentCoords = CoordinateUtils.getOrthogonalAdjacent(citadelCoord);
     return adjacentCoords.filter(coord => {
+      // Placing never captures, so citadels are off limits
+      if (board.getCitadel(coord)) {
+        return false;
+      }
+
       // Can place on land that's not occupied
       if (board.hasLand(coord) && !board.isOccupied(coord)) {
         return true;
@@ -130,6 +136,29 @@ export const TurtleUtils = {
     });
   },
 
+  /**
+   * Get the coordinates next to a citadel where a piece of the given type can be placed:
+   * free water for foundation pieces like the Turtle, otherwise free land, an empty
+   * turtle's back or free water, depending on where the piece type may stand
+   */
+  getValidPlacementCoordinates(
+    pieceType: string,
+    citadelCoord: Coordinate,
+    board: Board,
+    pieces: PieceRegistry = PieceRegistry.default
+  ): Coordinate[] {
+    if (pieces.isFoundation(pieceType)) {
+      return TurtleUtils.getValidTurtlePlacementCoordinates(citadelCoord, board)
+        .filter(coord => pieces.canBePlacedOn(pieceType, 'water'));
+    }
+
+    const openWater = CoordinateUtils.getOrthogonalAdjacent(citadelCoord)
+      .filter(coord => board.isWater(coord) && !board.isOccupied(coord));
+
+    return [...TurtleUtils.getValidPiecePlacementCoordinates(citadelCoord, board), ...openWater]
+      .filter(coord => pieces.canBePlacedOn(pieceType, board.getTileInfo(coord).foundationLayer));
+  },
+
   /**
    * Check if a turtle's position provides connectivity between citadels
    * Per game rules: "The Turtle functions as a land tile for the purpose of connecting the 2 Citadels"
@@ -175,16 +204,56 @@ export const TurtleUtils = {
     }
 
     // Attack piece on its own back (if carrying one)
-    const carriedPieceId = TurtleUtils.getCarriedPieceId(turtle);
-    if (carriedPieceId) {
-      // In a full implementation, would need to find the piece by ID
-      // For now, we know that carried pieces don't have positions in our system
-      // They would be tracked differently
+    const carriedPiece = TurtleUtils.getCarriedPiece(turtle, board);
+    if (carriedPiece) {
+      targets.push(carriedPiece);
     }
 
     return targets;
   },
 
+  /**
+   * Get the piece riding on a turtle's back.
+   * Carried pieces share the turtle's position on the piece layer.
+   */
+  getCarriedPiece(turtle: Piece, board: Board): Piece | null {
+    return turtle.position ? board.getPiece(turtle.position) : null;
+  },
+
+  /**
+   * Get the water coordinates next to a citadel where a turtle can be placed
+   */
+  getValidTurtlePlacementCoordinates(citadelCoord: Coordinate, board: Board): Coordinate[] {
+    return CoordinateUtils.getOrthogonalAdjacent(citadelCoord).filter(coord => board.canPlaceTurtle(coord));
+  },
+
+  /**
+   * Bring every turtle's carriedPieceId in line with the piece standing on it,
+   * so piece.state and the Board agree after pieces moved, boarded or were captured
+   */
+  syncCarriedPieces(pieces: Piece[], pieceRegistry: PieceRegistry = PieceRegistry.default): Piece[] {
+    const passengers = new Map<string, string>();
+    for (const piece of pieces) {
+      if (piece.position && !pieceRegistry.isFoundation(piece.type)) {
+        passengers.set(CoordinateUtils.toKey(piece.position), piece.id);
+      }
+    }
+
+    return pieces.map(piece => {
+      if (!pieceRegistry.isFoundation(piece.type)) {
+        return piece;
+      }
+
+      const carriedPieceId = piece.position ? passengers.get(CoordinateUtils.toKey(piece.position)) : undefined;
+      const { carriedPieceId: current, ...rest } = (piece.state ?? {}) as TurtleState;
+      if (current === carriedPieceId) {
+        return piece;
+      }
+
+      return { ...piece, state: carriedPieceId ? { ...rest, carriedPieceId } : rest };
+    });
+  },
+
   /**
    * Check if a coordinate is a valid move target for a turtle
    * Turtles can move to any water coordinate (since they act as foundation)
@@ -1,11 +1,34 @@
 import type { BaseGameAction, GameAction } from './BaseActions';
+import type { GameEvent } from './GameEvents';
+import { SimulationContextUtils, type SimulationContext } from './SimulationContext';
+import { SchemaUtils, BASE_ACTION_SCHEMA, type Schema, type SchemaIssue } from './ActionSchema';
+import { PieceRegistry } from './PieceRegistry';
+
+/**
+ * Context handed to a validator while its action is being checked
+ */
+export interface ValidationContext {
+  /** Registry the action is checked against - use it for nested simulations */
+  registry: ActionRegistry;
+  /** Simulation nesting, so "what if" checks can't recurse forever */
+  simulation: SimulationContext;
+}
+
+/**
+ * Context handed to a handler while its action is being applied
+ */
+export interface ActionContext extends ValidationContext {
+  /** Report a domain event describing what the action did */
+  emit: (event: GameEvent) => void;
+}
 
 /**
  * Action handler function that applies an action to game state
  */
 export type ActionHandler<TAction extends BaseGameAction = BaseGameAction> = (
   currentState: any, // Will be properly typed when we import GameState
-  action: TAction
+  action: TAction,
+  context: ActionContext
 ) => any; // Will return properly typed GameState
 
 /**
@@ -13,9 +36,22 @@ export type ActionHandler<TAction extends BaseGameAction = BaseGameAction> = (
  */
 export type ActionValidator<TAction extends BaseGameAction = BaseGameAction> = (
   currentState: any,
-  action: TAction
+  action: TAction,
+  context: ValidationContext
 ) => boolean | string; // true = valid, false/string = invalid with reason
 
+/**
+ * Action generator function that proposes candidate actions for a player.
+ * Candidates do not need to be valid - the registry filters them through the
+ * validator - but when a pieceId is given only actions for that piece should be returned.
+ */
+export type ActionGenerator<TAction extends BaseGameAction = BaseGameAction> = (
+  currentState: any,
+  playerId: string,
+  pieceId?: string,
+  context?: ValidationContext
+) => TAction[];
+
 /**
  * Action definition that pieces can register
  */
@@ -28,85 +64,302 @@ export interface ActionDefinition<TAction extends BaseGameAction = BaseGameActio
   
   /** Function to validate if this action is allowed */
   validator?: ActionValidator<TAction>;
+
+  /** Function to propose candidate actions, used to enumerate legal actions */
+  generator?: ActionGenerator<TAction>;
   
   /** Human-readable description for debugging */
   description?: string;
   
   /** Which piece type(s) can perform this action */
   allowedPieceTypes?: string[];
+
+  /**
+   * Meta actions (such as takeback negotiation) change how the game is
+   * played but are not part of any player's turn
+   */
+  meta?: boolean;
+
+  /**
+   * Return the ID of an earlier action to rewind to before this action is
+   * handled. The handler then receives the state from right before that action.
+   */
+  rewindTo?: (currentState: any, action: TAction) => string | null;
+
+  /**
+   * Main actions are a turn's actual move. With the auto end turn rule the
+   * turn passes after one of them. Pass a function to decide per action.
+   */
+  mainAction?: boolean | ((action: TAction, registry: ActionRegistry) => boolean);
+
+  /**
+   * Shape of the action payload, checked before the validator runs and when
+   * games are loaded. The base action fields are always checked.
+   */
+  schema?: Schema;
+
+  /** Current payload version of this action type (defaults to 1) */
+  version?: number;
+
+  /** Upgrades from older payload versions, used when old games are loaded */
+  migrations?: ActionMigration[];
+
+  /**
+   * Field holding nested actions (such as the steps of a compound action).
+   * They are migrated and checked together with the action.
+   */
+  stepsField?: string;
 }
 
 /**
- * Central registry for all action types in the game
- * Pieces can register their custom actions here
+ * Upgrades an action payload from one version of its action type to the next
+ */
+export interface ActionMigration {
+  /** Version the migration upgrades from (it produces fromVersion + 1) */
+  fromVersion: number;
+
+  /** Return the payload at the next version */
+  migrate: (action: any) => BaseGameAction;
+}
+
+/**
+ * Win condition that is checked after every applied action
+ */
+export interface WinCondition {
+  /** Unique win condition identifier */
+  id: string;
+
+  /** Return the ID of the winning player, or null if nobody has won yet */
+  check: (currentState: any) => string | null;
+
+  /** Game modes this condition applies to (all modes when omitted) */
+  gameModes?: string[];
+
+  /** Human-readable description for debugging */
+  description?: string;
+}
+
+/**
+ * Rule that must hold after every action. It runs against the state an
+ * action would produce and vetoes the action when the rule is broken.
+ */
+export interface RuleInvariant {
+  /** Unique invariant identifier */
+  id: string;
+
+  /** Return true if the rule holds, or the reason the action is not allowed */
+  check: (nextState: any, previousState: any, action: BaseGameAction, context: ValidationContext) => true | string;
+
+  /** Game modes this invariant applies to (all modes when omitted) */
+  gameModes?: string[];
+
+  /** Human-readable description for debugging */
+  description?: string;
+}
+
+/**
+ * Registry of action types for a ruleset.
+ * Pieces register their custom actions here. Every game derives its state
+ * against one registry, so variants with different handlers can run side by
+ * side - create a registry per ruleset, or clone and extend an existing one.
+ * The static methods work on the shared default registry.
  */
 export class ActionRegistry {
-  private static actionDefinitions = new Map<string, ActionDefinition<any>>();
-  private static actionHandlers = new Map<string, ActionHandler<any>>();
-  private static actionValidators = new Map<string, ActionValidator<any>>();
+  /** Shared registry used by the static API and by default everywhere else */
+  static readonly default = new ActionRegistry([], [], [], PieceRegistry.default);
+
+  private actionDefinitions = new Map<string, ActionDefinition<any>>();
+  private actionHandlers = new Map<string, ActionHandler<any>>();
+  private actionValidators = new Map<string, ActionValidator<any>>();
+  private actionGenerators = new Map<string, ActionGenerator<any>>();
+  private winConditions = new Map<string, WinCondition>();
+  private invariants = new Map<string, RuleInvariant>();
+
+  /** Piece types of this ruleset */
+  readonly pieces: PieceRegistry;
+
+  /**
+   * Create a registry, optionally pre-filled with action definitions,
+   * win conditions and invariants, for a set of piece types. Without piece
+   * types it starts from a copy of the default ones, so registering pieces
+   * never changes the default registry.
+   */
+  constructor(
+    definitions: ActionDefinition<any>[] = [],
+    winConditions: WinCondition[] = [],
+    invariants: RuleInvariant[] = [],
+    pieces: PieceRegistry = PieceRegistry.default.clone()
+  ) {
+    this.pieces = pieces;
+
+    for (const definition of definitions) {
+      this.setDefinition(definition);
+    }
+
+    for (const condition of winConditions) {
+      this.winConditions.set(condition.id, condition);
+    }
+
+    for (const invariant of invariants) {
+      this.invariants.set(invariant.id, invariant);
+    }
+  }
+
+  /**
+   * Create an independent copy of this registry
+   */
+  clone(): ActionRegistry {
+    return new ActionRegistry(
+      Array.from(this.actionDefinitions.values()),
+      Array.from(this.winConditions.values()),
+      Array.from(this.invariants.values()),
+      this.pieces.clone()
+    );
+  }
+
+  /**
+   * Create a copy of this registry with extra or replaced actions
+   */
+  extend(register: (registry: ActionRegistry) => void): ActionRegistry {
+    const registry = this.clone();
+    register(registry);
+    return registry;
+  }
 
   /**
    * Register a new action type
    */
-  static registerAction<TAction extends BaseGameAction>(
+  registerAction<TAction extends BaseGameAction>(
     definition: ActionDefinition<TAction>
   ): void {
-    if (ActionRegistry.actionDefinitions.has(definition.type)) {
+    if (this.actionDefinitions.has(definition.type)) {
       console.warn(`Action type "${definition.type}" is already registered. Overwriting.`);
     }
 
-    ActionRegistry.actionDefinitions.set(definition.type, definition as ActionDefinition<any>);
-    ActionRegistry.actionHandlers.set(definition.type, definition.handler as ActionHandler<any>);
-    
-    if (definition.validator) {
-      ActionRegistry.actionValidators.set(definition.type, definition.validator as ActionValidator<any>);
-    }
+    this.setDefinition(definition);
 
     console.log(`Registered action type: ${definition.type}`);
   }
 
+  /**
+   * Remove an action type, returning whether it was registered
+   */
+  unregisterAction(actionType: string): boolean {
+    this.actionHandlers.delete(actionType);
+    this.actionValidators.delete(actionType);
+    this.actionGenerators.delete(actionType);
+    return this.actionDefinitions.delete(actionType);
+  }
+
   /**
    * Get the handler for an action type
    */
-  static getHandler(actionType: string): ActionHandler<any> | undefined {
-    return ActionRegistry.actionHandlers.get(actionType);
+  getHandler(actionType: string): ActionHandler<any> | undefined {
+    return this.actionHandlers.get(actionType);
   }
 
   /**
    * Get the validator for an action type
    */
-  static getValidator(actionType: string): ActionValidator<any> | undefined {
-    return ActionRegistry.actionValidators.get(actionType);
+  getValidator(actionType: string): ActionValidator<any> | undefined {
+    return this.actionValidators.get(actionType);
+  }
+
+  /**
+   * Get the generator for an action type
+   */
+  getGenerator(actionType: string): ActionGenerator<any> | undefined {
+    return this.actionGenerators.get(actionType);
   }
 
   /**
    * Check if an action type is registered
    */
-  static isRegistered(actionType: string): boolean {
-    return ActionRegistry.actionDefinitions.has(actionType);
+  isRegistered(actionType: string): boolean {
+    return this.actionDefinitions.has(actionType);
   }
 
   /**
    * Get all registered action types
    */
-  static getRegisteredTypes(): string[] {
-    return Array.from(ActionRegistry.actionDefinitions.keys());
+  getRegisteredTypes(): string[] {
+    return Array.from(this.actionDefinitions.keys());
   }
 
   /**
    * Get action definition
    */
-  static getDefinition(actionType: string): ActionDefinition<any> | undefined {
-    return ActionRegistry.actionDefinitions.get(actionType);
+  getDefinition(actionType: string): ActionDefinition<any> | undefined {
+    return this.actionDefinitions.get(actionType);
+  }
+
+  /**
+   * Get the current payload version of an action type (1 for unversioned or unknown types)
+   */
+  getActionVersion(actionType: string): number {
+    return this.actionDefinitions.get(actionType)?.version ?? 1;
+  }
+
+  /**
+   * Upgrade an action to the current version of its action type by running
+   * its migrations in order. Actions without a version are version 1.
+   */
+  migrateAction(action: BaseGameAction): BaseGameAction {
+    const definition = this.actionDefinitions.get(action.type);
+    const currentVersion = this.getActionVersion(action.type);
+    let migrated = action;
+    let version = action.version ?? 1;
+
+    if (version > currentVersion) {
+      throw new Error(`Action ${action.id} has ${action.type} version ${version}, but only version ${currentVersion} is supported`);
+    }
+
+    while (version < currentVersion) {
+      const migration = definition?.migrations?.find(m => m.fromVersion === version);
+      if (!migration) {
+        throw new Error(`No migration for ${action.type} from version ${version}`);
+      }
+
+      migrated = { ...migration.migrate(migrated), version: version + 1 };
+      version++;
+    }
+
+    const steps = ActionRegistry.getSteps(migrated, definition);
+    if (steps) {
+      migrated = {
+        ...migrated,
+        [definition!.stepsField!]: steps.map(step =>
+          typeof step === 'object' && step !== null ? this.migrateAction(step as BaseGameAction) : step
+        )
+      };
+    }
+
+    return migrated;
+  }
+
+  /**
+   * Get the nested steps of an action whose definition names a steps field
+   */
+  private static getSteps(action: unknown, definition?: ActionDefinition<any>): unknown[] | null {
+    const steps = definition?.stepsField ? (action as Record<string, unknown>)[definition.stepsField] : undefined;
+    return Array.isArray(steps) ? steps : null;
+  }
+
+  /**
+   * Check if an action is a main action (the move that ends a turn under the auto end turn rule)
+   */
+  isMainAction(action: BaseGameAction): boolean {
+    const mainAction = this.actionDefinitions.get(action.type)?.mainAction;
+    return typeof mainAction === 'function' ? mainAction(action, this) : mainAction === true;
   }
 
   /**
    * Get all actions that a piece type can perform
    */
-  static getActionsForPieceType(pieceType: string): ActionDefinition<any>[] {
+  getActionsForPieceType(pieceType: string): ActionDefinition<any>[] {
     const actions: ActionDefinition<any>[] = [];
     
-    for (const definition of ActionRegistry.actionDefinitions.values()) {
+    for (const definition of this.actionDefinitions.values()) {
       if (!definition.allowedPieceTypes || definition.allowedPieceTypes.includes(pieceType)) {
         actions.push(definition);
       }
@@ -116,38 +369,370 @@ export class ActionRegistry {
   }
 
   /**
-   * Clear all registered actions (mainly for testing)
+   * Register a win condition, replacing any condition with the same ID
    */
-  static clear(): void {
-    ActionRegistry.actionDefinitions.clear();
-    ActionRegistry.actionHandlers.clear();
-    ActionRegistry.actionValidators.clear();
+  registerWinCondition(condition: WinCondition): void {
+    this.winConditions.set(condition.id, condition);
+  }
+
+  /**
+   * Remove a win condition, returning whether it was registered
+   */
+  unregisterWinCondition(id: string): boolean {
+    return this.winConditions.delete(id);
+  }
+
+  /**
+   * Get the win conditions that apply to a game mode (all of them when no mode is given)
+   */
+  getWinConditions(gameMode?: string): WinCondition[] {
+    return Array.from(this.winConditions.values()).filter(condition =>
+      !gameMode || !condition.gameModes || condition.gameModes.includes(gameMode)
+    );
+  }
+
+  /**
+   * Run the win conditions for the game's mode and return the first winner found
+   */
+  checkWinConditions(currentState: any): string | null {
+    for (const condition of this.getWinConditions(currentState.config?.gameMode)) {
+      const winnerId = condition.check(currentState);
+      if (winnerId) {
+        return winnerId;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Register an invariant, replacing any invariant with the same ID
+   */
+  registerInvariant(invariant: RuleInvariant): void {
+    this.invariants.set(invariant.id, invariant);
+  }
+
+  /**
+   * Remove an invariant, returning whether it was registered
+   */
+  unregisterInvariant(id: string): boolean {
+    return this.invariants.delete(id);
+  }
+
+  /**
+   * Get the invariants that apply to a game mode (all of them when no mode is given)
+   */
+  getInvariants(gameMode?: string): RuleInvariant[] {
+    return Array.from(this.invariants.values()).filter(invariant =>
+      !gameMode || !invariant.gameModes || invariant.gameModes.includes(gameMode)
+    );
+  }
+
+  /**
+   * Apply an action and check the resulting state against the invariants for
+   * the game's mode. Returns true, or the reason of the first broken invariant.
+   */
+  checkInvariants(currentState: any, action: BaseGameAction, context: ValidationContext = this.createContext()): true | string {
+    const invariants = this.getInvariants(currentState.config?.gameMode);
+    if (invariants.length === 0) {
+      return true;
+    }
+
+    let nextState: any;
+    try {
+      nextState = this.applyAction(currentState, action, this.createContext(context.simulation));
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+
+    for (const invariant of invariants) {
+      const result = invariant.check(nextState, currentState, action, context);
+      if (result !== true) {
+        return result;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Clear all registered actions, win conditions and invariants (mainly for testing)
+   */
+  clear(): void {
+    this.actionDefinitions.clear();
+    this.actionHandlers.clear();
+    this.actionValidators.clear();
+    this.actionGenerators.clear();
+    this.winConditions.clear();
+    this.invariants.clear();
+  }
+
+  /**
+   * Create a context for this registry. Events emitted through it go nowhere.
+   */
+  createContext(simulation: SimulationContext = SimulationContextUtils.create()): ActionContext {
+    return {
+      registry: this,
+      simulation,
+      emit: () => {}
+    };
   }
 
   /**
    * Apply an action using the registered handler
    */
-  static applyAction(currentState: any, action: BaseGameAction): any {
-    const handler = ActionRegistry.getHandler(action.type);
+  applyAction(currentState: any, action: BaseGameAction, context: ActionContext = this.createContext()): any {
+    const handler = this.getHandler(action.type);
     
     if (!handler) {
       throw new Error(`No handler registered for action type: ${action.type}`);
     }
 
-    return handler(currentState, action);
+    const payload = this.checkPayload(action);
+    if (payload !== true) {
+      throw new Error(payload);
+    }
+
+    return handler(currentState, action, context);
+  }
+
+  /**
+   * Check an action's fields against the base action schema and the schema
+   * of its action type. Returns true, or a message listing every bad field.
+   */
+  checkPayload(action: unknown): true | string {
+    const issues = this.getPayloadIssues(action, '');
+
+    if (issues.length === 0) {
+      return true;
+    }
+
+    const type = (action as Partial<BaseGameAction> | null)?.type;
+    return `Invalid ${typeof type === 'string' ? type : 'unknown'} action: ${SchemaUtils.formatIssues(issues)}`;
+  }
+
+  /**
+   * Collect the payload issues of an action and of its nested steps
+   */
+  private getPayloadIssues(action: unknown, path: string): SchemaIssue[] {
+    let issues = BASE_ACTION_SCHEMA.check(action, path);
+    if (issues.length > 0) {
+      return issues;
+    }
+
+    const { type, version = 1 } = action as BaseGameAction;
+    const definition = this.actionDefinitions.get(type);
+    issues = definition?.schema ? definition.schema.check(action, path) : [];
+
+    if (definition && version !== this.getActionVersion(type)) {
+      issues.push({
+        path: path ? `${path}.version` : 'version',
+        message: `expected ${this.getActionVersion(type)} (migrate older actions first)`
+      });
+    }
+
+    const steps = ActionRegistry.getSteps(action, definition);
+    if (issues.length === 0 && steps) {
+      const stepsPath = path ? `${path}.${definition!.stepsField}` : definition!.stepsField!;
+      issues = steps.flatMap((step, index) => this.getPayloadIssues(step, `${stepsPath}[${index}]`));
+    }
+
+    return issues;
   }
 
   /**
-   * Validate an action using the registered validator
+   * Validate an action using the registered validator, then make sure the
+   * state it produces doesn't break any invariant
    */
-  static validateAction(currentState: any, action: BaseGameAction): boolean | string {
-    const validator = ActionRegistry.getValidator(action.type);
+  validateAction(
+    currentState: any,
+    action: BaseGameAction,
+    context: ValidationContext = this.createContext()
+  ): boolean | string {
+    const payload = this.checkPayload(action);
+    if (payload !== true) {
+      return payload;
+    }
+
+    const validator = this.getValidator(action.type);
+    
+    // No validator means the action itself is always valid
+    const validation = validator ? validator(currentState, action, context) : true;
+    if (validation !== true) {
+      return validation;
+    }
+
+    return this.checkInvariants(currentState, action, context);
+  }
+
+  /**
+   * Get every legal action a player can take right now.
+   * Combines the candidates of all registered generators and keeps only those
+   * that pass validation. When a pieceId is given, only actions performed by
+   * that piece are returned.
+   */
+  getLegalActions(
+    currentState: any,
+    playerId: string,
+    pieceId?: string,
+    context: ValidationContext = this.createContext()
+  ): BaseGameAction[] {
+    const legalActions: BaseGameAction[] = [];
+
+    for (const [actionType, generator] of this.actionGenerators) {
+      const definition = this.actionDefinitions.get(actionType);
+      if (pieceId && definition?.allowedPieceTypes) {
+        const pieceType = ActionRegistry.findPieceType(currentState, pieceId);
+        if (!pieceType || !definition.allowedPieceTypes.includes(pieceType)) {
+          continue;
+        }
+      }
+
+      for (const action of generator(currentState, playerId, pieceId, context)) {
+        if (pieceId && action.pieceId !== pieceId) {
+          continue;
+        }
+
+        if (this.validateAction(currentState, action, context) === true) {
+          legalActions.push(action);
+        }
+      }
+    }
+
+    return legalActions;
+  }
+
+  private setDefinition(definition: ActionDefinition<any>): void {
+    this.actionDefinitions.set(definition.type, definition);
+    this.actionHandlers.set(definition.type, definition.handler);
     
-    if (!validator) {
-      return true; // No validator means action is always valid
+    if (definition.validator) {
+      this.actionValidators.set(definition.type, definition.validator);
+    } else {
+      this.actionValidators.delete(definition.type);
+    }
+
+    if (definition.generator) {
+      this.actionGenerators.set(definition.type, definition.generator);
+    } else {
+      this.actionGenerators.delete(definition.type);
     }
+  }
+
+  /**
+   * Find the type of a piece on the board, in a stash or in the community pool
+   */
+  private static findPieceType(currentState: any, pieceId: string): string | undefined {
+    const candidates = [
+      ...(currentState.pieces ?? []),
+      ...(currentState.communityPool ?? []),
+      ...(currentState.players ?? []).flatMap((player: any) => player.personalStash ?? [])
+    ];
+
+    return candidates.find((piece: any) => piece.id === pieceId)?.type;
+  }
+
+  // Static API - shortcuts for the default registry
+
+  static registerAction<TAction extends BaseGameAction>(definition: ActionDefinition<TAction>): void {
+    ActionRegistry.default.registerAction(definition);
+  }
+
+  static unregisterAction(actionType: string): boolean {
+    return ActionRegistry.default.unregisterAction(actionType);
+  }
+
+  static getHandler(actionType: string): ActionHandler<any> | undefined {
+    return ActionRegistry.default.getHandler(actionType);
+  }
+
+  static getValidator(actionType: string): ActionValidator<any> | undefined {
+    return ActionRegistry.default.getValidator(actionType);
+  }
+
+  static getGenerator(actionType: string): ActionGenerator<any> | undefined {
+    return ActionRegistry.default.getGenerator(actionType);
+  }
+
+  static isRegistered(actionType: string): boolean {
+    return ActionRegistry.default.isRegistered(actionType);
+  }
+
+  static getRegisteredTypes(): string[] {
+    return ActionRegistry.default.getRegisteredTypes();
+  }
+
+  static getDefinition(actionType: string): ActionDefinition<any> | undefined {
+    return ActionRegistry.default.getDefinition(actionType);
+  }
 
-    return validator(currentState, action);
+  static getActionVersion(actionType: string): number {
+    return ActionRegistry.default.getActionVersion(actionType);
+  }
+
+  static migrateAction(action: BaseGameAction): BaseGameAction {
+    return ActionRegistry.default.migrateAction(action);
+  }
+
+  static checkPayload(action: unknown): true | string {
+    return ActionRegistry.default.checkPayload(action);
+  }
+
+  static isMainAction(action: BaseGameAction): boolean {
+    return ActionRegistry.default.isMainAction(action);
+  }
+
+  static getActionsForPieceType(pieceType: string): ActionDefinition<any>[] {
+    return ActionRegistry.default.getActionsForPieceType(pieceType);
+  }
+
+  static registerWinCondition(condition: WinCondition): void {
+    ActionRegistry.default.registerWinCondition(condition);
+  }
+
+  static unregisterWinCondition(id: string): boolean {
+    return ActionRegistry.default.unregisterWinCondition(id);
+  }
+
+  static getWinConditions(gameMode?: string): WinCondition[] {
+    return ActionRegistry.default.getWinConditions(gameMode);
+  }
+
+  static checkWinConditions(currentState: any): string | null {
+    return ActionRegistry.default.checkWinConditions(currentState);
+  }
+
+  static registerInvariant(invariant: RuleInvariant): void {
+    ActionRegistry.default.registerInvariant(invariant);
+  }
+
+  static unregisterInvariant(id: string): boolean {
+    return ActionRegistry.default.unregisterInvariant(id);
+  }
+
+  static getInvariants(gameMode?: string): RuleInvariant[] {
+    return ActionRegistry.default.getInvariants(gameMode);
+  }
+
+  static clear(): void {
+    ActionRegistry.default.clear();
+  }
+
+  static applyAction(currentState: any, action: BaseGameAction, context?: ActionContext): any {
+    return ActionRegistry.default.applyAction(currentState, action, context);
+  }
+
+  static validateAction(currentState: any, action: BaseGameAction, context?: ValidationContext): boolean | string {
+    return ActionRegistry.default.validateAction(currentState, action, context);
+  }
+
+  static getLegalActions(
+    currentState: any,
+    playerId: string,
+    pieceId?: string,
+    context?: ValidationContext
+  ): BaseGameAction[] {
+    return ActionRegistry.default.getLegalActions(currentState, playerId, pieceId, context);
   }
 }
 
@@ -175,7 +760,8 @@ export function registerAction<TAction extends BaseGameAction>(
       handler: handler as ActionHandler<TAction>,
       description: options.description || `${actionType} action`,
       allowedPieceTypes: options.allowedPieceTypes,
-      validator: options.validator
+      validator: options.validator,
+      generator: options.generator
     });
 
     return descriptor;
@@ -188,9 +774,10 @@ export function registerAction<TAction extends BaseGameAction>(
 export function defineAction<TAction extends BaseGameAction>(
   actionType: string,
   handler: ActionHandler<TAction>,
-  options: Partial<ActionDefinition<TAction>> = {}
+  options: Partial<ActionDefinition<TAction>> = {},
+  registry: ActionRegistry = ActionRegistry.default
 ): void {
-  ActionRegistry.registerAction({
+  registry.registerAction({
     type: actionType,
     handler,
     ...options
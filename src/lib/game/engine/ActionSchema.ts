@@ -0,0 +1,151 @@
+/**
+ * A field that doesn't match its schema
+ */
+export interface SchemaIssue {
+  /** Path to the field, such as 'position.x' or 'actions[2].type' (empty for the value itself) */
+  path: string;
+  /** What is wrong with the field */
+  message: string;
+}
+
+/**
+ * Describes the shape of a value. Used to check action payloads and game
+ * documents that come from storage or the network before the engine trusts them.
+ */
+export interface Schema {
+  /** What a valid value looks like, for error messages */
+  readonly expected: string;
+  /** Whether the field may be left out */
+  readonly optional?: boolean;
+  /** Check a value, returning every issue found (empty if the value is valid) */
+  check(value: unknown, path: string): SchemaIssue[];
+}
+
+/**
+ * Build a schema for a single value tested by a predicate
+ */
+function primitive(expected: string, test: (value: unknown) => boolean): Schema {
+  return {
+    expected,
+    check: (value, path) => (test(value) ? [] : [{ path, message: `expected ${expected}` }])
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Small schema builder, so the engine can check untrusted data without a
+ * validation library
+ */
+export const SchemaUtils = {
+  string(): Schema {
+    return primitive('a string', value => typeof value === 'string');
+  },
+
+  number(): Schema {
+    return primitive('a number', value => typeof value === 'number' && Number.isFinite(value));
+  },
+
+  integer(): Schema {
+    return primitive('an integer', value => Number.isInteger(value));
+  },
+
+  boolean(): Schema {
+    return primitive('a boolean', value => typeof value === 'boolean');
+  },
+
+  /**
+   * One of a fixed set of values
+   */
+  oneOf(values: readonly (string | number)[]): Schema {
+    return primitive(
+      `one of ${values.map(value => JSON.stringify(value)).join(', ')}`,
+      value => values.includes(value as string | number)
+    );
+  },
+
+  /**
+   * Array whose items all match a schema
+   */
+  array(item: Schema): Schema {
+    return {
+      expected: `an array of ${item.expected}`,
+      check: (value, path) => {
+        if (!Array.isArray(value)) {
+          return [{ path, message: 'expected an array' }];
+        }
+
+        return value.flatMap((entry, index) => item.check(entry, `${path}[${index}]`));
+      }
+    };
+  },
+
+  /**
+   * Object with the given fields. Fields not in the shape are allowed.
+   */
+  object(shape: Record<string, Schema> = {}): Schema {
+    return {
+      expected: 'an object',
+      check: (value, path) => {
+        if (!isPlainObject(value)) {
+          return [{ path, message: 'expected an object' }];
+        }
+
+        return Object.entries(shape).flatMap(([key, field]) => {
+          const fieldPath = joinPath(path, key);
+          if (value[key] === undefined) {
+            return field.optional ? [] : [{ path: fieldPath, message: 'is required' }];
+          }
+
+          return field.check(value[key], fieldPath);
+        });
+      }
+    };
+  },
+
+  /**
+   * Make a field optional (it may be missing or undefined)
+   */
+  optional(schema: Schema): Schema {
+    return { ...schema, optional: true };
+  },
+
+  /**
+   * Board coordinate with integer x and y
+   */
+  coordinate(): Schema {
+    return SchemaUtils.object({ x: SchemaUtils.integer(), y: SchemaUtils.integer() });
+  },
+
+  /**
+   * Check a value against a schema
+   */
+  validate(schema: Schema, value: unknown): SchemaIssue[] {
+    return schema.check(value, '');
+  },
+
+  /**
+   * Format issues as a single readable message
+   */
+  formatIssues(issues: SchemaIssue[]): string {
+    return issues.map(issue => (issue.path ? `${issue.path} ${issue.message}` : issue.message)).join('; ');
+  }
+};
+
+/**
+ * Fields every action has, whatever its type
+ */
+export const BASE_ACTION_SCHEMA: Schema = SchemaUtils.object({
+  id: SchemaUtils.string(),
+  timestamp: SchemaUtils.number(),
+  playerId: SchemaUtils.string(),
+  type: SchemaUtils.string(),
+  pieceId: SchemaUtils.optional(SchemaUtils.string()),
+  version: SchemaUtils.optional(SchemaUtils.integer())
+});
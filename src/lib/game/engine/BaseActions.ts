@@ -1,4 +1,6 @@
 import type { Coordinate } from '../board/Coordinate';
+import { EngineContextUtils } from './EngineContext';
+import { ActionRegistry } from './ActionRegistry';
 
 /**
  * Base interface that all game actions must implement
@@ -19,6 +21,9 @@ export interface BaseGameAction {
   
   /** Optional piece ID if this action is performed by a specific piece */
   pieceId?: string;
+
+  /** Payload version of the action type (1 when missing) */
+  version?: number;
 }
 
 /**
@@ -70,6 +75,33 @@ export interface ConcedeAction extends BaseGameAction {
   type: 'concede';
 }
 
+export interface RequestTakebackAction extends BaseGameAction {
+  type: 'request-takeback';
+  /** First action to take back - it and everything after it is undone */
+  targetActionId: string;
+}
+
+export interface AcceptTakebackAction extends BaseGameAction {
+  type: 'accept-takeback';
+  requestId: string;
+}
+
+export interface DeclineTakebackAction extends BaseGameAction {
+  type: 'decline-takeback';
+  requestId: string;
+}
+
+/**
+ * Several actions taken as one move. The steps are validated, applied and
+ * rolled back together, and appear in the turn history as a single action.
+ */
+export interface CompoundAction extends BaseGameAction {
+  type: 'compound';
+  actions: BaseGameAction[];
+  /** Optional name for the move, for display */
+  label?: string;
+}
+
 /**
  * Common piece actions that most pieces will use
  * These are provided for convenience but pieces can define their own
@@ -101,7 +133,11 @@ export type CoreGameAction =
   | SelectPieceAction
   | PlacePieceAction
   | EndTurnAction
-  | ConcedeAction;
+  | ConcedeAction
+  | RequestTakebackAction
+  | AcceptTakebackAction
+  | DeclineTakebackAction
+  | CompoundAction;
 
 /**
  * Common piece actions
@@ -123,19 +159,25 @@ export const ActionUtils = {
    * Generate a unique action ID
    */
   generateId(): string {
-    return `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return EngineContextUtils.generateId('action');
   },
 
   /**
-   * Create base action data
+   * Create base action data, stamped with the current version of its action type
    */
-  createBase(type: string, playerId: string, pieceId?: string): BaseGameAction {
+  createBase(
+    type: string,
+    playerId: string,
+    pieceId?: string,
+    registry: ActionRegistry = ActionRegistry.default
+  ): BaseGameAction {
     return {
       id: ActionUtils.generateId(),
-      timestamp: Date.now(),
+      timestamp: EngineContextUtils.now(),
       playerId,
       type,
-      pieceId
+      pieceId,
+      version: registry.getActionVersion(type)
     };
   },
 
@@ -178,5 +220,43 @@ export const ActionUtils = {
       capturedPieceId,
       position: { x, y }
     };
+  },
+
+  /**
+   * Combine actions into one compound move
+   */
+  createCompoundAction(playerId: string, actions: BaseGameAction[], label?: string): CompoundAction {
+    return {
+      ...ActionUtils.createBase('compound', playerId),
+      type: 'compound',
+      actions,
+      label
+    };
+  },
+
+  /**
+   * Create a takeback request for an action and everything after it
+   */
+  createRequestTakebackAction(playerId: string, targetActionId: string): RequestTakebackAction {
+    return {
+      ...ActionUtils.createBase('request-takeback', playerId),
+      type: 'request-takeback',
+      targetActionId
+    };
+  },
+
+  /**
+   * Create an answer to a pending takeback request
+   */
+  createTakebackAnswerAction(
+    playerId: string,
+    requestId: string,
+    accept: boolean
+  ): AcceptTakebackAction | DeclineTakebackAction {
+    return {
+      ...ActionUtils.createBase(accept ? 'accept-takeback' : 'decline-takeback', playerId),
+      type: accept ? 'accept-takeback' : 'decline-takeback',
+      requestId
+    };
   }
 };
@@ -1,4 +1,4 @@
-import type { GameState, Player, Land, Piece, Citadel } from './GameState';
+import type { GameState, Player, Land, Piece, Citadel, TakebackRules } from './GameState';
 import type { 
   BaseGameAction,
   JoinGameAction,
@@ -10,9 +10,41 @@ import type {
   MovePieceAction,
   CapturePieceAction,
   EndTurnAction,
-  ConcedeAction
+  ConcedeAction,
+  RequestTakebackAction,
+  AcceptTakebackAction,
+  DeclineTakebackAction,
+  CompoundAction
 } from './BaseActions';
-import { ActionRegistry, type ActionHandler } from './ActionRegistry';
+import { ActionUtils } from './BaseActions';
+import {
+  ActionRegistry,
+  type ActionHandler,
+  type ActionValidator,
+  type ActionGenerator,
+  type ActionContext,
+  type ValidationContext
+} from './ActionRegistry';
+import { PhaseController } from './PhaseController';
+import { Board } from '../board/Board';
+import { CoordinateUtils, type Coordinate } from '../board/Coordinate';
+import { TurtleUtils } from '../board/TurtleUtils';
+import { MovementUtils } from '../board/MovementPatterns';
+import { PathfindingUtils } from '../board/PathfindingUtils';
+import { IdUtils } from '../utils/GameUtils';
+import { WinConditions } from './WinConditions';
+import { RuleInvariants } from './RuleInvariants';
+import { SchemaUtils } from './ActionSchema';
+import { PieceRegistry } from './PieceRegistry';
+import { LandPoolUtils, EMPTY_LAND_POOL_MESSAGE } from './LandPool';
+
+/**
+ * Takeback rules used when the game config does not set any
+ */
+export const DEFAULT_TAKEBACK_RULES: TakebackRules = {
+  scope: 'last-own-turn',
+  requireConsent: true
+};
 
 /**
  * Core action handlers for basic game functionality
@@ -20,75 +52,159 @@ import { ActionRegistry, type ActionHandler } from './ActionRegistry';
  */
 export class CoreActionHandlers {
   /**
-   * Register all core action handlers with the action registry
+   * Register all core action handlers and the standard win condition with the action registry
    */
-  static registerAll(): void {
-    ActionRegistry.registerAction({
+  static registerAll(registry: ActionRegistry = ActionRegistry.default): void {
+    registry.registerAction({
       type: 'join-game',
       handler: CoreActionHandlers.handleJoinGame,
       validator: CoreActionHandlers.validateJoinGame,
+      schema: SchemaUtils.object({
+        playerName: SchemaUtils.string(),
+        artSetId: SchemaUtils.optional(SchemaUtils.string())
+      }),
       description: 'Player joins the game during setup'
     });
 
-    ActionRegistry.registerAction({
+    registry.registerAction({
       type: 'start-game',
       handler: CoreActionHandlers.handleStartGame,
       validator: CoreActionHandlers.validateStartGame,
+      generator: CoreActionHandlers.generateStartGame,
       description: 'Start the game and move to land placement phase'
     });
 
-    ActionRegistry.registerAction({
+    registry.registerAction({
       type: 'place-land',
       handler: CoreActionHandlers.handlePlaceLand,
       validator: CoreActionHandlers.validatePlaceLand,
+      generator: CoreActionHandlers.generatePlaceLand,
+      schema: SchemaUtils.object({ position: SchemaUtils.coordinate(), landId: SchemaUtils.string() }),
       description: 'Place a land tile on the board'
     });
 
-    ActionRegistry.registerAction({
+    registry.registerAction({
       type: 'place-citadel',
       handler: CoreActionHandlers.handlePlaceCitadel,
       validator: CoreActionHandlers.validatePlaceCitadel,
+      generator: CoreActionHandlers.generatePlaceCitadel,
+      schema: SchemaUtils.object({ position: SchemaUtils.coordinate(), citadelId: SchemaUtils.string() }),
       description: 'Place a citadel on a land tile'
     });
 
-    ActionRegistry.registerAction({
+    registry.registerAction({
       type: 'select-piece',
       handler: CoreActionHandlers.handleSelectPiece,
+      validator: CoreActionHandlers.validateSelectPiece,
+      schema: SchemaUtils.object({
+        pieceType: SchemaUtils.string(),
+        destination: SchemaUtils.oneOf(['personal', 'community']),
+        pieceId: SchemaUtils.string()
+      }),
       description: 'Select a piece for personal stash or community pool'
     });
 
-    ActionRegistry.registerAction({
+    registry.registerAction({
       type: 'place-piece',
       handler: CoreActionHandlers.handlePlacePiece,
       validator: CoreActionHandlers.validatePlacePiece,
+      generator: CoreActionHandlers.generatePlacePiece,
+      mainAction: true,
+      schema: SchemaUtils.object({
+        pieceId: SchemaUtils.string(),
+        position: SchemaUtils.coordinate(),
+        source: SchemaUtils.oneOf(['personal', 'community'])
+      }),
       description: 'Place a piece on the board from stash or community pool'
     });
 
-    ActionRegistry.registerAction({
+    registry.registerAction({
       type: 'move-piece',
       handler: CoreActionHandlers.handleMovePiece,
       validator: CoreActionHandlers.validateMovePiece,
+      generator: CoreActionHandlers.generateMovePiece,
+      mainAction: true,
+      schema: SchemaUtils.object({
+        pieceId: SchemaUtils.string(),
+        fromPosition: SchemaUtils.coordinate(),
+        toPosition: SchemaUtils.coordinate(),
+        moveData: SchemaUtils.optional(SchemaUtils.object())
+      }),
       description: 'Move a piece to a new position'
     });
 
-    ActionRegistry.registerAction({
+    registry.registerAction({
       type: 'capture-piece',
       handler: CoreActionHandlers.handleCapturePiece,
-      description: 'Capture a piece and send it to the graveyard'
+      validator: CoreActionHandlers.validateCapturePiece,
+      generator: CoreActionHandlers.generateCapturePiece,
+      mainAction: true,
+      schema: SchemaUtils.object({
+        capturingPieceId: SchemaUtils.string(),
+        capturedPieceId: SchemaUtils.string(),
+        position: SchemaUtils.coordinate()
+      }),
+      description: 'Capture a piece (sending it to the graveyard) or destroy a citadel'
     });
 
-    ActionRegistry.registerAction({
+    registry.registerAction({
       type: 'end-turn',
       handler: CoreActionHandlers.handleEndTurn,
       validator: CoreActionHandlers.validateEndTurn,
+      generator: CoreActionHandlers.generateEndTurn,
       description: 'End the current player\'s turn'
     });
 
-    ActionRegistry.registerAction({
+    registry.registerAction<CompoundAction>({
+      type: 'compound',
+      handler: CoreActionHandlers.handleCompound,
+      validator: CoreActionHandlers.validateCompound,
+      mainAction: (action, registry) => action.actions.some(step => registry.isMainAction(step)),
+      schema: SchemaUtils.object({
+        actions: SchemaUtils.array(SchemaUtils.object()),
+        label: SchemaUtils.optional(SchemaUtils.string())
+      }),
+      stepsField: 'actions',
+      description: 'Several actions taken together as one move'
+    });
+
+    registry.registerAction({
       type: 'concede',
       handler: CoreActionHandlers.handleConcede,
       description: 'Concede the game'
     });
+
+    registry.registerAction({
+      type: 'request-takeback',
+      handler: CoreActionHandlers.handleRequestTakeback,
+      validator: CoreActionHandlers.validateRequestTakeback,
+      rewindTo: CoreActionHandlers.getRequestTakebackRewind,
+      meta: true,
+      schema: SchemaUtils.object({ targetActionId: SchemaUtils.string() }),
+      description: 'Ask to take back your own actions'
+    });
+
+    registry.registerAction({
+      type: 'accept-takeback',
+      handler: CoreActionHandlers.handleAcceptTakeback,
+      validator: CoreActionHandlers.validateTakebackAnswer,
+      rewindTo: (state: GameState) => state.pendingTakeback?.targetActionId ?? null,
+      meta: true,
+      schema: SchemaUtils.object({ requestId: SchemaUtils.string() }),
+      description: 'Accept a pending takeback request'
+    });
+
+    registry.registerAction({
+      type: 'decline-takeback',
+      handler: CoreActionHandlers.handleDeclineTakeback,
+      validator: CoreActionHandlers.validateTakebackAnswer,
+      meta: true,
+      schema: SchemaUtils.object({ requestId: SchemaUtils.string() }),
+      description: 'Decline a pending takeback request'
+    });
+
+    registry.registerWinCondition(WinConditions.lastCitadelStanding);
+    registry.registerInvariant(RuleInvariants.citadelsConnected);
   }
 
   /**
@@ -142,7 +258,8 @@ export class CoreActionHandlers {
     return {
       ...state,
       phase: 'land-placement',
-      currentPlayerId: state.players[0]?.id || null
+      currentPlayerId: state.players[0]?.id || null,
+      landPool: LandPoolUtils.create(state.config, state.players.length)
     };
   };
 
@@ -158,24 +275,37 @@ export class CoreActionHandlers {
     return true;
   };
 
+  static generateStartGame: ActionGenerator<StartGameAction> = (state, playerId) => {
+    return [{ ...ActionUtils.createBase('start-game', playerId), type: 'start-game' }];
+  };
+
   /**
-   * Handle placing a land tile
+   * Handle placing a land tile drawn from the land pool
    */
-  static handlePlaceLand: ActionHandler<PlaceLandAction> = (state, action) => {
+  static handlePlaceLand: ActionHandler<PlaceLandAction> = (state, action, context) => {
     // Check if position is already occupied
     if (state.lands.find((l: Land) => l.position.x === action.position.x && l.position.y === action.position.y)) {
       return state; // Position already has land
     }
 
+    // The land keeps the tile's ID so board and pool IDs never drift apart
+    const tile = LandPoolUtils.find(state, action.landId);
+    if (!tile) {
+      return state;
+    }
+
     const newLand: Land = {
-      id: action.landId,
+      id: tile.id,
       position: action.position,
       ownerId: action.playerId
     };
 
+    context.emit({ type: 'LandPlaced', landId: newLand.id, position: newLand.position });
+
     return {
       ...state,
-      lands: [...state.lands, newLand]
+      lands: [...state.lands, newLand],
+      landPool: LandPoolUtils.take(state, tile.id)
     };
   };
 
@@ -187,14 +317,61 @@ export class CoreActionHandlers {
     if (state.currentPlayerId !== action.playerId) {
       return 'Not your turn';
     }
+
+    if (PhaseController.getPlayerProgress(state, action.playerId) >= PhaseController.getPlayerQuota(state.config, state.phase)) {
+      return 'You have placed all your land tiles';
+    }
     
     if (state.lands.find(l => l.position.x === action.position.x && l.position.y === action.position.y)) {
       return 'Position already has land';
     }
+
+    if (LandPoolUtils.isEmpty(state)) {
+      return EMPTY_LAND_POOL_MESSAGE;
+    }
+
+    if (!LandPoolUtils.find(state, action.landId)) {
+      return 'Land tile is not in the community pool';
+    }
+
+    // Setup land grows as one area, so the citadels can always be connected through it
+    const nextToLand = state.lands.some((l: Land) => CoordinateUtils.areOrthogonallyAdjacent(l.position, action.position));
+    if (state.lands.length > 0 && !nextToLand) {
+      return 'Land must be placed orthogonally next to existing land';
+    }
     
     return true;
   };
 
+  /**
+   * Propose the next pooled tile on the origin for an empty board, otherwise on water next to existing land
+   */
+  static generatePlaceLand: ActionGenerator<PlaceLandAction> = (
+    state,
+    playerId,
+    _pieceId,
+    context = ActionRegistry.default.createContext()
+  ) => {
+    const tile = state.landPool[0];
+    if (!tile) {
+      return [];
+    }
+
+    const board = new Board(state.lands, state.pieces, state.citadels, context.registry.pieces);
+    const positions: Coordinate[] = state.lands.length === 0
+      ? [{ x: 0, y: 0 }]
+      : CoordinateUtils.unique(
+          state.lands.flatMap((land: Land) => CoordinateUtils.getOrthogonalAdjacent(land.position))
+        ).filter(coord => board.canPlaceLand(coord));
+
+    return positions.map(position => ({
+      ...ActionUtils.createBase('place-land', playerId),
+      type: 'place-land',
+      position,
+      landId: tile.id
+    }));
+  };
+
   /**
    * Handle placing a citadel
    */
@@ -220,10 +397,18 @@ export class CoreActionHandlers {
     };
   };
 
-  static validatePlaceCitadel = (state: GameState, action: PlaceCitadelAction): boolean | string => {
+  static validatePlaceCitadel = (state: GameState, action: PlaceCitadelAction, context: ValidationContext): boolean | string => {
     if (state.phase !== 'citadel-placement') {
       return 'Can only place citadel during citadel placement phase';
     }
+
+    if (state.currentPlayerId !== action.playerId) {
+      return 'Not your turn';
+    }
+
+    if (PhaseController.getPlayerProgress(state, action.playerId) >= PhaseController.getPlayerQuota(state.config, state.phase)) {
+      return 'You have placed all your citadels';
+    }
     
     const landAtPosition = state.lands.find(l => 
       l.position.x === action.position.x && l.position.y === action.position.y
@@ -236,21 +421,67 @@ export class CoreActionHandlers {
     if (landAtPosition.ownerId !== action.playerId) {
       return 'Can only place citadel on your own land';
     }
+
+    if (state.citadels.some((c: Citadel) => CoordinateUtils.equals(c.position, action.position))) {
+      return 'Position already has a citadel';
+    }
+
+    if (!CoreActionHandlers.canConnectCitadel(state, action.position, context.registry.pieces)) {
+      return 'Citadel must be connected to the other citadels through land';
+    }
     
     return true;
   };
 
+  /**
+   * Check if a new citadel at the given position would be connected to every
+   * citadel already on the board through orthogonally adjacent land
+   */
+  static canConnectCitadel(state: GameState, position: Coordinate, pieces: PieceRegistry = PieceRegistry.default): boolean {
+    const board = new Board(state.lands, state.pieces, state.citadels, pieces);
+    return PathfindingUtils.areCitadelsConnected(
+      [...state.citadels.map((citadel: Citadel) => citadel.position), position],
+      board
+    );
+  }
+
+  static generatePlaceCitadel: ActionGenerator<PlaceCitadelAction> = (
+    state,
+    playerId,
+    _pieceId,
+    context = ActionRegistry.default.createContext()
+  ) => {
+    return state.lands
+      .filter((land: Land) => land.ownerId === playerId)
+      .filter((land: Land) => !state.citadels.some((c: Citadel) => CoordinateUtils.equals(c.position, land.position)))
+      .filter((land: Land) => CoreActionHandlers.canConnectCitadel(state, land.position, context.registry.pieces))
+      .map((land: Land) => ({
+        ...ActionUtils.createBase('place-citadel', playerId),
+        type: 'place-citadel',
+        position: land.position,
+        citadelId: IdUtils.generateCitadelId()
+      }));
+  };
+
   /**
    * Handle selecting pieces for stash or community pool
    */
-  static handleSelectPiece: ActionHandler<SelectPieceAction> = (state, action) => {
+  static handleSelectPiece: ActionHandler<SelectPieceAction> = (state, action, context) => {
     const newPiece: Piece = {
       id: action.pieceId,
-      type: action.pieceType as any, // Will be properly typed when pieces are implemented
+      type: action.pieceType,
       ownerId: action.destination === 'personal' ? action.playerId : 'community',
-      position: null // In stash/pool, not on board
+      position: null, // In stash/pool, not on board
+      origin: action.destination === 'personal'
+        ? { source: 'personal', playerId: action.playerId }
+        : { source: 'community' }
     };
 
+    const defaultState = context.registry.pieces.createDefaultState(action.pieceType);
+    if (defaultState) {
+      newPiece.state = defaultState;
+    }
+
     if (action.destination === 'personal') {
       // Add to player's personal stash
       const updatedPlayers = state.players.map((player: Player) => 
@@ -272,10 +503,39 @@ export class CoreActionHandlers {
     }
   };
 
+  static validateSelectPiece = (state: GameState, action: SelectPieceAction, context: ValidationContext): boolean | string => {
+    if (state.phase !== 'piece-selection') {
+      return 'Can only select pieces during piece selection phase';
+    }
+
+    if (state.currentPlayerId !== action.playerId) {
+      return 'Not your turn';
+    }
+
+    if (!context.registry.pieces.has(action.pieceType)) {
+      return `Unknown piece type: ${action.pieceType}`;
+    }
+
+    if (action.destination === 'personal') {
+      const player = state.players.find(p => p.id === action.playerId);
+      if (!player) {
+        return 'Player not in game';
+      }
+
+      if (player.personalStash.length >= state.config.personalPiecesPerPlayer) {
+        return 'Personal stash is full';
+      }
+    } else if (state.communityPool.length >= PhaseController.getCommunityPoolQuota(state)) {
+      return 'Community pool is full';
+    }
+
+    return true;
+  };
+
   /**
    * Handle placing a piece on the board
    */
-  static handlePlacePiece: ActionHandler<PlacePieceAction> = (state, action) => {
+  static handlePlacePiece: ActionHandler<PlacePieceAction> = (state, action, context) => {
     // Find the piece in the appropriate source
     let piece: Piece | undefined;
     let updatedPlayers = state.players;
@@ -313,15 +573,23 @@ export class CoreActionHandlers {
       position: action.position
     };
 
+    context.emit({
+      type: 'PiecePlaced',
+      pieceId: placedPiece.id,
+      pieceType: placedPiece.type,
+      ownerId: placedPiece.ownerId,
+      position: action.position
+    });
+
     return {
       ...state,
       players: updatedPlayers,
       communityPool: updatedCommunityPool,
-      pieces: [...state.pieces, placedPiece]
+      pieces: TurtleUtils.syncCarriedPieces([...state.pieces, placedPiece], context.registry.pieces)
     };
   };
 
-  static validatePlacePiece = (state: GameState, action: PlacePieceAction): boolean | string => {
+  static validatePlacePiece = (state: GameState, action: PlacePieceAction, context: ValidationContext): boolean | string => {
     if (state.phase !== 'battle') {
       return 'Can only place pieces during battle phase';
     }
@@ -329,32 +597,115 @@ export class CoreActionHandlers {
     if (state.currentPlayerId !== action.playerId) {
       return 'Not your turn';
     }
-    
-    // Check if position is already occupied
-    if (state.pieces.find((p: Piece) => p.position && p.position.x === action.position.x && p.position.y === action.position.y)) {
+
+    const piece = CoreActionHandlers.findPieceToPlace(state, action);
+    if (!piece) {
+      return action.source === 'personal' ? 'Piece is not in your personal stash' : 'Piece is not in the community pool';
+    }
+
+    const pieces = context.registry.pieces;
+    const board = new Board(state.lands, state.pieces, state.citadels, pieces);
+    const tile = board.getTileInfo(action.position);
+
+    if (!pieces.canBePlacedOn(piece.type, tile.foundationLayer)) {
+      return `${pieces.getDisplayName(piece.type)} cannot be placed on ${tile.foundationLayer}`;
+    }
+
+    // Placing never captures: the layer the piece goes to must be empty and free of citadels
+    const layerTaken = pieces.isFoundation(piece.type) ? tile.hasFoundation : tile.isOccupied;
+    if (layerTaken || tile.citadel) {
       return 'Position already occupied';
     }
+
+    // Every piece enters the board next to one of the player's citadels
+    const nextToCitadel = state.citadels.some((c: Citadel) =>
+      c.ownerId === action.playerId && CoordinateUtils.areOrthogonallyAdjacent(c.position, action.position)
+    );
+    if (!nextToCitadel) {
+      return `${pieces.getDisplayName(piece.type)} must be placed next to your citadel`;
+    }
     
     return true;
   };
 
+  /**
+   * Find the piece a place-piece action takes from the player's stash or the community pool
+   */
+  static findPieceToPlace(state: GameState, action: PlacePieceAction): Piece | undefined {
+    if (action.source === 'personal') {
+      const player = state.players.find((p: Player) => p.id === action.playerId);
+      return player?.personalStash.find((p: Piece) => p.id === action.pieceId);
+    }
+
+    return state.communityPool.find((p: Piece) => p.id === action.pieceId);
+  }
+
+  /**
+   * Propose placing each stash and community piece next to the player's citadels
+   */
+  static generatePlacePiece: ActionGenerator<PlacePieceAction> = (
+    state,
+    playerId,
+    pieceId,
+    context = ActionRegistry.default.createContext()
+  ) => {
+    const pieces = context.registry.pieces;
+    const board = new Board(state.lands, state.pieces, state.citadels, pieces);
+    const citadels = state.citadels.filter((citadel: Citadel) => citadel.ownerId === playerId);
+    const getPositions = (type: string) => CoordinateUtils.unique(
+      citadels.flatMap((citadel: Citadel) => TurtleUtils.getValidPlacementCoordinates(type, citadel.position, board, pieces))
+    );
+
+    const player = state.players.find((p: Player) => p.id === playerId);
+    const sources: { piece: Piece; source: 'personal' | 'community' }[] = [
+      ...(player?.personalStash ?? []).map((piece: Piece) => ({ piece, source: 'personal' as const })),
+      ...state.communityPool.map((piece: Piece) => ({ piece, source: 'community' as const }))
+    ];
+
+    return sources
+      .filter(({ piece }) => !pieceId || piece.id === pieceId)
+      .flatMap(({ piece, source }) => {
+        return getPositions(piece.type).map(position => ({
+          ...ActionUtils.createBase('place-piece', playerId, piece.id),
+          type: 'place-piece' as const,
+          pieceId: piece.id,
+          position,
+          source
+        }));
+      });
+  };
+
   /**
    * Handle moving a piece
    */
-  static handleMovePiece: ActionHandler<MovePieceAction> = (state, action) => {
+  static handleMovePiece: ActionHandler<MovePieceAction> = (state, action, context) => {
+    const piece = state.pieces.find((p: Piece) => p.id === action.pieceId);
+    if (piece) {
+      context.emit({ type: 'PieceMoved', pieceId: piece.id, from: piece.position, to: action.toPosition });
+    }
+
+    // Foundation pieces (turtles) take the piece on their back along
+    const board = new Board(state.lands, state.pieces, state.citadels, context.registry.pieces);
+    const passenger = piece?.position && context.registry.pieces.isFoundation(piece.type)
+      ? board.getPiece(piece.position)
+      : null;
+    if (passenger) {
+      context.emit({ type: 'PieceMoved', pieceId: passenger.id, from: passenger.position, to: action.toPosition });
+    }
+
     const updatedPieces = state.pieces.map((piece: Piece) => 
-      piece.id === action.pieceId 
+      piece.id === action.pieceId || piece.id === passenger?.id
         ? { ...piece, position: action.toPosition }
         : piece
     );
 
     return {
       ...state,
-      pieces: updatedPieces
+      pieces: TurtleUtils.syncCarriedPieces(updatedPieces, context.registry.pieces)
     };
   };
 
-  static validateMovePiece = (state: GameState, action: MovePieceAction): boolean | string => {
+  static validateMovePiece = (state: GameState, action: MovePieceAction, context: ValidationContext): boolean | string => {
     if (state.phase !== 'battle') {
       return 'Can only move pieces during battle phase';
     }
@@ -371,43 +722,235 @@ export class CoreActionHandlers {
     if (piece.ownerId !== action.playerId) {
       return 'Not your piece';
     }
-    
-    return true;
+
+    // Pieces move by their patterns; pieces without any have their own actions
+    const movement = context.registry.pieces.getMovement(piece.type);
+    if (!movement) {
+      return `${context.registry.pieces.getDisplayName(piece.type)} cannot move`;
+    }
+
+    if (!piece.position) {
+      return 'Piece is not on the board';
+    }
+
+    const board = new Board(state.lands, state.pieces, state.citadels, context.registry.pieces);
+    return MovementUtils.validateMove(movement, piece, action.toPosition, board, context.registry.pieces);
+  };
+
+  /**
+   * Propose moves for the player's pieces that declare movement patterns: the
+   * targets of those patterns, as validateMovePiece accepts them.
+   * Pieces with their own movement rules can also register their own move actions.
+   */
+  static generateMovePiece: ActionGenerator<MovePieceAction> = (
+    state,
+    playerId,
+    pieceId,
+    context = ActionRegistry.default.createContext()
+  ) => {
+    const pieces = context.registry.pieces;
+    const board = new Board(state.lands, state.pieces, state.citadels, pieces);
+
+    return CoreActionHandlers.getPiecesOnBoard(state, playerId, pieceId)
+      .flatMap((piece: Piece) => {
+        const movement = pieces.getMovement(piece.type);
+        if (!movement) {
+          return [];
+        }
+
+        return MovementUtils.getMoveTargets(movement, piece, board, pieces).map(to =>
+          ActionUtils.createMoveAction(playerId, piece.id, piece.position!.x, piece.position!.y, to.x, to.y)
+        );
+      });
+  };
+
+  /**
+   * Get the player's pieces on the board, optionally limited to one piece
+   */
+  static getPiecesOnBoard(state: GameState, playerId: string, pieceId?: string): Piece[] {
+    return state.pieces
+      .filter((piece: Piece) => piece.ownerId === playerId && piece.position)
+      .filter((piece: Piece) => !pieceId || piece.id === pieceId);
+  }
+
+  /**
+   * Handle capturing a piece or a citadel.
+   * Captured citadels are destroyed; the win conditions decide what that means.
+   * Pieces that capture by landing then move onto the captured square,
+   * unless it sank with a captured turtle.
+   */
+  static handleCapturePiece: ActionHandler<CapturePieceAction> = (state, action, context) => {
+    const nextState = CoreActionHandlers.removeCaptured(
+      state,
+      action.capturedPieceId,
+      action.capturingPieceId,
+      action.position,
+      context
+    );
+    const capturingPiece = nextState.pieces.find((p: Piece) => p.id === action.capturingPieceId);
+
+    if (nextState === state || !capturingPiece || !context.registry.pieces.capturesByLanding(capturingPiece.type)) {
+      return nextState;
+    }
+
+    const board = new Board(nextState.lands, nextState.pieces, nextState.citadels, context.registry.pieces);
+    if (board.isWater(action.position)) {
+      return nextState;
+    }
+
+    context.emit({ type: 'PieceMoved', pieceId: capturingPiece.id, from: capturingPiece.position, to: action.position });
+
+    return {
+      ...nextState,
+      pieces: TurtleUtils.syncCarriedPieces(
+        nextState.pieces.map((p: Piece) => p.id === capturingPiece.id ? { ...p, position: action.position } : p),
+        context.registry.pieces
+      )
+    };
   };
 
   /**
-   * Handle capturing a piece
+   * Destroy the captured citadel or send the captured piece to the graveyard.
+   * Shared with piece actions that capture without capture-piece.
    */
-  static handleCapturePiece: ActionHandler<CapturePieceAction> = (state, action) => {
-    const capturedPiece = state.pieces.find((p: Piece) => p.id === action.capturedPieceId);
+  static removeCaptured(
+    state: GameState,
+    capturedId: string,
+    capturedBy: string,
+    position: Coordinate,
+    context: ActionContext
+  ): GameState {
+    const citadel = state.citadels.find((c: Citadel) => c.id === capturedId);
+    if (citadel) {
+      context.emit({
+        type: 'CitadelDestroyed',
+        citadelId: citadel.id,
+        ownerId: citadel.ownerId,
+        position: citadel.position
+      });
+
+      return {
+        ...state,
+        citadels: state.citadels.filter((c: Citadel) => c.id !== capturedId)
+      };
+    }
+
+    const capturedPiece = state.pieces.find((p: Piece) => p.id === capturedId);
     
     if (!capturedPiece) {
       return state; // Piece not found
     }
 
+    // A captured turtle takes the piece on its back down with it
+    const board = new Board(state.lands, state.pieces, state.citadels, context.registry.pieces);
+    const passenger = capturedPiece.position && context.registry.pieces.isFoundation(capturedPiece.type)
+      ? board.getPiece(capturedPiece.position)
+      : null;
+    const removed = passenger ? [capturedPiece, passenger] : [capturedPiece];
+
     // Remove from board and add to graveyard
-    const updatedPieces = state.pieces.filter((p: Piece) => p.id !== action.capturedPieceId);
-    const graveyardPiece: Piece = {
-      ...capturedPiece,
-      position: null
-    };
+    const updatedPieces = state.pieces.filter((p: Piece) => !removed.includes(p));
+    const graveyardPieces = TurtleUtils.syncCarriedPieces(
+      removed.map((p: Piece) => ({ ...p, position: null })),
+      context.registry.pieces
+    );
+
+    for (const piece of removed) {
+      context.emit({
+        type: 'PieceCaptured',
+        pieceId: piece.id,
+        pieceType: piece.type,
+        ownerId: piece.ownerId,
+        position: piece.position ?? position,
+        capturedBy
+      });
+    }
 
     return {
       ...state,
-      pieces: updatedPieces,
-      graveyard: [...state.graveyard, graveyardPiece]
+      pieces: TurtleUtils.syncCarriedPieces(updatedPieces, context.registry.pieces),
+      graveyard: [...state.graveyard, ...graveyardPieces]
     };
+  }
+
+  static validateCapturePiece = (state: GameState, action: CapturePieceAction, context: ValidationContext): boolean | string => {
+    if (state.phase !== 'battle') {
+      return 'Can only capture during battle phase';
+    }
+
+    if (state.currentPlayerId !== action.playerId) {
+      return 'Not your turn';
+    }
+
+    const capturingPiece = state.pieces.find((p: Piece) => p.id === action.capturingPieceId);
+    if (!capturingPiece) {
+      return 'Capturing piece not found';
+    }
+
+    if (capturingPiece.ownerId !== action.playerId) {
+      return 'Not your piece';
+    }
+
+    const target =
+      state.pieces.find((p: Piece) => p.id === action.capturedPieceId) ??
+      state.citadels.find((c: Citadel) => c.id === action.capturedPieceId);
+    if (!target) {
+      return 'Target not found';
+    }
+
+    if (target.ownerId === action.playerId) {
+      return 'Cannot capture your own piece';
+    }
+
+    const movement = context.registry.pieces.getMovement(capturingPiece.type);
+    if (!movement) {
+      return `${context.registry.pieces.getDisplayName(capturingPiece.type)} cannot capture`;
+    }
+
+    if (!target.position || !CoordinateUtils.equals(target.position, action.position)) {
+      return 'Target is not at the capture position';
+    }
+
+    const board = new Board(state.lands, state.pieces, state.citadels, context.registry.pieces);
+    return MovementUtils.validateCapture(movement, capturingPiece, target.id, board, context.registry.pieces);
+  };
+
+  /**
+   * Propose captures for the player's pieces that declare movement patterns
+   */
+  static generateCapturePiece: ActionGenerator<CapturePieceAction> = (
+    state,
+    playerId,
+    pieceId,
+    context = ActionRegistry.default.createContext()
+  ) => {
+    const pieces = context.registry.pieces;
+    const board = new Board(state.lands, state.pieces, state.citadels, pieces);
+
+    return CoreActionHandlers.getPiecesOnBoard(state, playerId, pieceId)
+      .flatMap((piece: Piece) => {
+        const movement = pieces.getMovement(piece.type);
+        if (!movement) {
+          return [];
+        }
+
+        return MovementUtils.getCaptureTargets(movement, piece, board).map(target =>
+          ActionUtils.createCaptureAction(playerId, piece.id, target.targetId, target.position.x, target.position.y)
+        );
+      });
   };
 
   /**
    * Handle ending turn
    */
-  static handleEndTurn: ActionHandler<EndTurnAction> = (state, action) => {
+  static handleEndTurn: ActionHandler<EndTurnAction> = (state, action, context) => {
     // Find next player in turn order
     const currentPlayerIndex = state.players.findIndex((p: Player) => p.id === state.currentPlayerId);
     const nextPlayerIndex = (currentPlayerIndex + 1) % state.players.length;
     const nextPlayerId = state.players[nextPlayerIndex]?.id || null;
 
+    context.emit({ type: 'TurnEnded', playerId: action.playerId, nextPlayerId });
+
     return {
       ...state,
       currentPlayerId: nextPlayerId
@@ -422,6 +965,10 @@ export class CoreActionHandlers {
     return true;
   };
 
+  static generateEndTurn: ActionGenerator<EndTurnAction> = (state, playerId) => {
+    return [{ ...ActionUtils.createBase('end-turn', playerId), type: 'end-turn' }];
+  };
+
   /**
    * Handle game concession
    */
@@ -436,4 +983,160 @@ export class CoreActionHandlers {
       currentPlayerId: null
     };
   };
+
+  /**
+   * Get the takeback rules for a game
+   */
+  static getTakebackRules(state: GameState): TakebackRules {
+    return state.config.takebackRules ?? DEFAULT_TAKEBACK_RULES;
+  }
+
+  /**
+   * Handle a takeback request. With consent required the request waits for
+   * an answer; otherwise the game has already been rewound to before the target.
+   */
+  static handleRequestTakeback: ActionHandler<RequestTakebackAction> = (state, action) => {
+    if (!CoreActionHandlers.getTakebackRules(state).requireConsent) {
+      return state;
+    }
+
+    return {
+      ...state,
+      pendingTakeback: {
+        requestId: action.id,
+        requestedBy: action.playerId,
+        targetActionId: action.targetActionId
+      }
+    };
+  };
+
+  static validateRequestTakeback = (state: GameState, action: RequestTakebackAction): boolean | string => {
+    if (state.phase === 'setup' || state.phase === 'finished') {
+      return 'Cannot take back actions in this phase';
+    }
+
+    if (!state.players.some(p => p.id === action.playerId)) {
+      return 'Player not in game';
+    }
+
+    if (state.pendingTakeback) {
+      return 'A takeback request is already pending';
+    }
+
+    const turnHistory = state.turnHistory ?? [];
+    const targetTurn = turnHistory.find(turn => turn.actionIds.includes(action.targetActionId));
+
+    if (!targetTurn) {
+      return 'Action not found in turn history';
+    }
+
+    if (targetTurn.playerId !== action.playerId) {
+      return 'Can only take back your own actions';
+    }
+
+    if (CoreActionHandlers.getTakebackRules(state).scope === 'last-own-turn') {
+      const lastOwnTurn = turnHistory.findLast(turn => turn.playerId === action.playerId);
+      if (lastOwnTurn !== targetTurn) {
+        return 'Can only take back your last turn';
+      }
+    }
+
+    return true;
+  };
+
+  /**
+   * Takebacks that need no consent rewind as soon as they are requested
+   */
+  static getRequestTakebackRewind = (state: GameState, action: RequestTakebackAction): string | null => {
+    return CoreActionHandlers.getTakebackRules(state).requireConsent ? null : action.targetActionId;
+  };
+
+  /**
+   * Handle accepting a takeback - the game has already been rewound to
+   * before the target action
+   */
+  static handleAcceptTakeback: ActionHandler<AcceptTakebackAction> = (state) => {
+    return {
+      ...state,
+      pendingTakeback: null
+    };
+  };
+
+  /**
+   * Handle declining a takeback
+   */
+  static handleDeclineTakeback: ActionHandler<DeclineTakebackAction> = (state) => {
+    return {
+      ...state,
+      pendingTakeback: null
+    };
+  };
+
+  static validateTakebackAnswer = (
+    state: GameState,
+    action: AcceptTakebackAction | DeclineTakebackAction
+  ): boolean | string => {
+    const pending = state.pendingTakeback;
+
+    if (!pending || pending.requestId !== action.requestId) {
+      return 'No matching takeback request';
+    }
+
+    if (!state.players.some(p => p.id === action.playerId)) {
+      return 'Player not in game';
+    }
+
+    if (pending.requestedBy === action.playerId) {
+      return 'Cannot answer your own takeback request';
+    }
+
+    return true;
+  };
+
+  /**
+   * Apply the steps of a compound action in order. If any step throws,
+   * the whole compound action fails and none of its steps are kept.
+   */
+  static handleCompound: ActionHandler<CompoundAction> = (state, action, context) => {
+    return action.actions.reduce(
+      (stepState: GameState, step: BaseGameAction) => context.registry.applyAction(stepState, step, context),
+      state
+    );
+  };
+
+  /**
+   * Validate every step of a compound action against the state left by the steps before it
+   */
+  static validateCompound: ActionValidator<CompoundAction> = (state, action, context) => {
+    if (action.actions.length === 0) {
+      return 'Compound action has no steps';
+    }
+
+    let stepState: GameState = state;
+    for (const [index, step] of action.actions.entries()) {
+      const stepName = `Step ${index + 1} (${step.type})`;
+
+      if (step.playerId !== action.playerId) {
+        return `${stepName}: all steps must be taken by the same player`;
+      }
+
+      const definition = context.registry.getDefinition(step.type);
+      if (!definition) {
+        return `${stepName}: unknown action type`;
+      }
+
+      if (definition.meta || definition.rewindTo) {
+        return `${stepName}: cannot be part of a compound action`;
+      }
+
+      const validation = context.registry.validateAction(stepState, step, context);
+      if (validation !== true) {
+        return `${stepName}: ${typeof validation === 'string' ? validation : 'Action is not valid'}`;
+      }
+
+      stepState = context.registry.applyAction(stepState, step, context.registry.createContext(context.simulation));
+    }
+
+    return true;
+  };
 }
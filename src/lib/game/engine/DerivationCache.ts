@@ -0,0 +1,233 @@
+import type { InitialGameState, GameState } from './GameState';
+import type { BaseGameAction } from './BaseActions';
+import type { ActionRegistry } from './ActionRegistry';
+import { GameStateDerivation, type SnapshotLookup } from './ModularGameStateDerivation';
+
+/**
+ * A derived state stored part-way through an action log
+ */
+export interface DerivationCheckpoint {
+  /** Number of actions applied to reach this state */
+  index: number;
+  /** Hash of the initial state and the first `index` actions */
+  prefixHash: string;
+  /** The derived state after `index` actions */
+  state: GameState;
+}
+
+/**
+ * Options for the derivation cache
+ */
+export interface DerivationCacheOptions {
+  /** Store a checkpoint every N actions (defaults to 25) */
+  checkpointInterval?: number;
+  /** Registry to derive against (defaults to the shared default registry) */
+  registry?: ActionRegistry;
+}
+
+/**
+ * Incremental derivation cache.
+ * Stores checkpoints keyed by a hash of the action prefix that produced them,
+ * so appending actions only replays the new ones, and a rewritten history
+ * (undo, takeback, a different game) never returns a stale state.
+ */
+export class DerivationCache {
+  private checkpoints = new Map<string, DerivationCheckpoint>();
+  private actionHashes = new WeakMap<BaseGameAction, string>();
+  private headKey: string | null = null;
+  private readonly checkpointInterval: number;
+  private readonly registry?: ActionRegistry;
+
+  constructor(options: DerivationCacheOptions = {}) {
+    this.checkpointInterval = Math.max(1, options.checkpointInterval ?? 25);
+    this.registry = options.registry;
+  }
+
+  /**
+   * Get the derived state for an action log, resuming from the nearest checkpoint
+   */
+  getState(initialState: InitialGameState, actions: BaseGameAction[]): GameState {
+    const prefixHashes = this.computePrefixHashes(initialState, actions);
+
+    // Throw away checkpoints that are not on this action log's history
+    this.pruneCheckpoints(prefixHashes);
+
+    // Resume from the furthest checkpoint on this history
+    const checkpoint = this.findNearestCheckpoint(prefixHashes, actions.length);
+    let state: GameState;
+    let startIndex = 0;
+
+    if (checkpoint) {
+      state = checkpoint.state;
+      startIndex = checkpoint.index;
+    } else {
+      state = GameStateDerivation.createBaseState(initialState);
+      this.storeCheckpoint(0, prefixHashes[0], state);
+    }
+
+    // Actions that rewind (takebacks) may need states from before the checkpoint
+    const snapshotBefore: SnapshotLookup = actionId => {
+      const targetIndex = actions.findIndex(a => a.id === actionId);
+      return targetIndex >= 0
+        ? this.deriveAt(initialState, actions, prefixHashes, targetIndex, snapshotBefore)
+        : undefined;
+    };
+
+    for (let index = startIndex; index < actions.length; index++) {
+      state = GameStateDerivation.applyActions(state, [actions[index]], {
+        registry: this.registry,
+        snapshotBefore
+      });
+
+      if ((index + 1) % this.checkpointInterval === 0) {
+        this.storeCheckpoint(index + 1, prefixHashes[index + 1], state);
+      }
+    }
+
+    this.storeHead(actions.length, prefixHashes[actions.length], state);
+
+    return state;
+  }
+
+  /**
+   * Number of checkpoints currently stored
+   */
+  get size(): number {
+    return this.checkpoints.size;
+  }
+
+  /**
+   * Get all stored checkpoints, ordered by action index
+   */
+  getCheckpoints(): DerivationCheckpoint[] {
+    return Array.from(this.checkpoints.values()).sort((a, b) => a.index - b.index);
+  }
+
+  /**
+   * Remove all checkpoints
+   */
+  clear(): void {
+    this.checkpoints.clear();
+    this.headKey = null;
+  }
+
+  /**
+   * Find the checkpoint with the highest index at or before maxIndex
+   * that belongs to the given history
+   */
+  private findNearestCheckpoint(prefixHashes: string[], maxIndex: number): DerivationCheckpoint | null {
+    for (let index = maxIndex; index >= 0; index--) {
+      const checkpoint = this.checkpoints.get(DerivationCache.toKey(index, prefixHashes[index]));
+      if (checkpoint) {
+        return checkpoint;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Derive the state after the first `index` actions without storing anything
+   */
+  private deriveAt(
+    initialState: InitialGameState,
+    actions: BaseGameAction[],
+    prefixHashes: string[],
+    index: number,
+    snapshotBefore: SnapshotLookup
+  ): GameState {
+    const checkpoint = this.findNearestCheckpoint(prefixHashes, index);
+    const startState = checkpoint?.state ?? GameStateDerivation.createBaseState(initialState);
+
+    return GameStateDerivation.applyActions(startState, actions.slice(checkpoint?.index ?? 0, index), {
+      registry: this.registry,
+      snapshotBefore
+    });
+  }
+
+  /**
+   * Hash the initial state and every action prefix.
+   * prefixHashes[i] identifies the initial state plus the first i actions.
+   */
+  private computePrefixHashes(initialState: InitialGameState, actions: BaseGameAction[]): string[] {
+    const prefixHashes = [hashString(JSON.stringify(initialState))];
+
+    for (const action of actions) {
+      prefixHashes.push(hashString(prefixHashes[prefixHashes.length - 1] + this.hashAction(action)));
+    }
+
+    return prefixHashes;
+  }
+
+  /**
+   * Hash a single action, memoized per action object
+   */
+  private hashAction(action: BaseGameAction): string {
+    let hash = this.actionHashes.get(action);
+    if (!hash) {
+      hash = hashString(JSON.stringify(action));
+      this.actionHashes.set(action, hash);
+    }
+    return hash;
+  }
+
+  /**
+   * Remove checkpoints that do not belong to the given history
+   */
+  private pruneCheckpoints(prefixHashes: string[]): void {
+    for (const [key, checkpoint] of this.checkpoints) {
+      if (prefixHashes[checkpoint.index] !== checkpoint.prefixHash) {
+        this.checkpoints.delete(key);
+      }
+    }
+
+    if (this.headKey && !this.checkpoints.has(this.headKey)) {
+      this.headKey = null;
+    }
+  }
+
+  private storeCheckpoint(index: number, prefixHash: string, state: GameState): void {
+    this.checkpoints.set(DerivationCache.toKey(index, prefixHash), { index, prefixHash, state });
+  }
+
+  /**
+   * Store the most recent state, replacing the previous head unless it
+   * landed on a regular checkpoint interval
+   */
+  private storeHead(index: number, prefixHash: string, state: GameState): void {
+    const key = DerivationCache.toKey(index, prefixHash);
+
+    if (this.headKey && this.headKey !== key) {
+      const previousHead = this.checkpoints.get(this.headKey);
+      if (previousHead && previousHead.index % this.checkpointInterval !== 0) {
+        this.checkpoints.delete(this.headKey);
+      }
+    }
+
+    this.storeCheckpoint(index, prefixHash, state);
+    this.headKey = key;
+  }
+
+  private static toKey(index: number, prefixHash: string): string {
+    return `${index}:${prefixHash}`;
+  }
+}
+
+/**
+ * Fast non-cryptographic 53-bit string hash (cyrb53)
+ */
+function hashString(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
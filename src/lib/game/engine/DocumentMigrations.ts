@@ -0,0 +1,128 @@
+import type { BaseGameAction } from './BaseActions';
+import type { ActionRegistry } from './ActionRegistry';
+
+/**
+ * Current format version of stored game documents.
+ * Documents saved before versioning have no schemaVersion and count as version 1.
+ * - 1: actions from the legacy GameAction union (GameAction.ts)
+ * - 2: actions of the modular engine (BaseActions.ts and the piece modules)
+ */
+export const GAME_DOCUMENT_VERSION = 2;
+
+/**
+ * Upgrades a stored game document from one format version to the next
+ */
+export interface DocumentMigration {
+  /** Version the migration upgrades from (it produces fromVersion + 1) */
+  fromVersion: number;
+
+  /** Return the document at the next version */
+  migrate: (data: Record<string, unknown>) => Record<string, unknown>;
+}
+
+/**
+ * Rewrite an action of the legacy GameAction union as the modular action that
+ * replaced it. Core actions kept their payloads and pass through unchanged.
+ */
+function upgradeLegacyAction(action: Record<string, unknown>, index: number): Record<string, unknown> {
+  switch (action.type) {
+    case 'bomber-explode': {
+      // The blast is worked out by the engine now, so the client's list is dropped
+      const { position: _position, affectedPieceIds: _affected, ...rest } = action;
+      return { ...rest, type: 'bomber-sacrifice', pieceId: action.bomberId };
+    }
+
+    case 'necromancer-resurrect': {
+      // The revived piece always takes the Necromancer's square
+      const { position: _position, ...rest } = action;
+      return { ...rest, pieceId: action.necromancerId };
+    }
+
+    case 'assassin-declare-target':
+      return { ...action, pieceId: action.assassinId };
+
+    case 'turtle-carry': {
+      if (action.action !== 'pickup') {
+        throw new Error(`actions[${index}]: Legacy turtle-carry drops name no landing square and cannot be replayed`);
+      }
+
+      const { carriedPieceId, action: _carry, ...rest } = action;
+      return { ...rest, type: 'turtle-board', pieceId: carriedPieceId };
+    }
+
+    default:
+      return action;
+  }
+}
+
+/**
+ * Document format migrations, in version order
+ */
+export const DOCUMENT_MIGRATIONS: DocumentMigration[] = [
+  {
+    fromVersion: 1,
+    migrate: data => (Array.isArray(data.actions)
+      ? { ...data, actions: (data.actions as Record<string, unknown>[]).map(upgradeLegacyAction) }
+      : data)
+  }
+];
+
+/**
+ * Utilities for upgrading stored game documents, so archived games keep
+ * replaying after action payloads or the document format change
+ */
+export const DocumentMigrationUtils = {
+  /**
+   * Get the format version of a stored document
+   */
+  getVersion(data: Record<string, unknown>): number {
+    return typeof data.schemaVersion === 'number' ? data.schemaVersion : 1;
+  },
+
+  /**
+   * Upgrade a stored document to the current format version, then upgrade
+   * every action to the current version of its action type
+   */
+  migrateDocument(
+    data: Record<string, unknown>,
+    registry: ActionRegistry,
+    migrations: DocumentMigration[] = DOCUMENT_MIGRATIONS,
+    targetVersion: number = GAME_DOCUMENT_VERSION
+  ): Record<string, unknown> {
+    let migrated = data;
+    let version = DocumentMigrationUtils.getVersion(data);
+
+    if (version > targetVersion) {
+      throw new Error(`Game document version ${version} is newer than the supported version ${targetVersion}`);
+    }
+
+    while (version < targetVersion) {
+      const migration = migrations.find(m => m.fromVersion === version);
+      if (!migration) {
+        throw new Error(`No game document migration from version ${version}`);
+      }
+
+      migrated = migration.migrate(migrated);
+      version++;
+    }
+
+    // A document without an actions list is left for the schema check to report
+    if (!Array.isArray(migrated.actions)) {
+      return { ...migrated, schemaVersion: targetVersion };
+    }
+
+    const actions = (migrated.actions as BaseGameAction[]).map((action, index) => {
+      if (typeof action !== 'object' || action === null) {
+        return action;
+      }
+
+      try {
+        return registry.migrateAction(action);
+      } catch (error) {
+        throw new Error(`actions[${index}]: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+
+    return { ...migrated, actions, schemaVersion: targetVersion };
+  }
+};
@@ -0,0 +1,122 @@
+/**
+ * Sources of time and randomness used by the engine.
+ * Every factory reads the active context instead of calling Date.now() or
+ * Math.random() directly, so tests and replays can inject a fixed clock and
+ * a seeded random source and get exactly the same actions and IDs every time.
+ */
+export interface EngineContext {
+  /** Current time in milliseconds */
+  now(): number;
+  /** Random number in [0, 1) */
+  random(): number;
+}
+
+/**
+ * Options for a seeded engine context
+ */
+export interface SeededContextOptions {
+  /** Time of the first clock reading (defaults to 0) */
+  startTime?: number;
+  /** Milliseconds the clock advances on every reading (defaults to 1) */
+  tickMs?: number;
+}
+
+/**
+ * Context backed by the system clock and Math.random
+ */
+export const SYSTEM_ENGINE_CONTEXT: EngineContext = {
+  now: () => Date.now(),
+  random: () => Math.random()
+};
+
+let activeContext: EngineContext = SYSTEM_ENGINE_CONTEXT;
+
+/**
+ * Small, fast seeded PRNG (mulberry32)
+ */
+function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Utilities for reading and swapping the active engine context
+ */
+export const EngineContextUtils = {
+  /**
+   * Get the active engine context
+   */
+  get(): EngineContext {
+    return activeContext;
+  },
+
+  /**
+   * Replace the active engine context
+   */
+  set(context: EngineContext): void {
+    activeContext = context;
+  },
+
+  /**
+   * Go back to the system clock and Math.random
+   */
+  reset(): void {
+    activeContext = SYSTEM_ENGINE_CONTEXT;
+  },
+
+  /**
+   * Run a function with a different active context, restoring the previous one afterwards
+   */
+  run<T>(context: EngineContext, fn: () => T): T {
+    const previous = activeContext;
+    activeContext = context;
+
+    try {
+      return fn();
+    } finally {
+      activeContext = previous;
+    }
+  },
+
+  /**
+   * Create a deterministic context: a clock that advances by a fixed step on
+   * every reading and a random source seeded with the given seed
+   */
+  createSeeded(seed: number, options: SeededContextOptions = {}): EngineContext {
+    const { startTime = 0, tickMs = 1 } = options;
+    let time = startTime - tickMs;
+
+    return {
+      now: () => (time += tickMs),
+      random: createSeededRandom(seed)
+    };
+  },
+
+  /**
+   * Current time from the active context
+   */
+  now(): number {
+    return activeContext.now();
+  },
+
+  /**
+   * Random number in [0, 1) from the active context
+   */
+  random(): number {
+    return activeContext.random();
+  },
+
+  /**
+   * Generate a unique ID with the given prefix from the active context
+   */
+  generateId(prefix: string): string {
+    return `${prefix}_${activeContext.now()}_${activeContext.random().toString(36).substr(2, 9)}`;
+  }
+};
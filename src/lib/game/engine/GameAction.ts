@@ -1,5 +1,7 @@
 import type { Coordinate } from '../board/Coordinate';
 import type { PieceType } from './GameState';
+import { EngineContextUtils } from './EngineContext';
+import { ActionRegistry } from './ActionRegistry';
 
 /**
  * Base interface for all game actions
@@ -16,6 +18,9 @@ export interface BaseGameAction {
   
   /** Type of action */
   type: string;
+
+  /** Payload version of the action type (1 when missing) */
+  version?: number;
 }
 
 /**
@@ -127,6 +132,7 @@ export interface BuilderRemoveLandAction extends BaseGameAction {
 
 /**
  * Action for Bomber exploding
+ * @deprecated Use the bomber-sacrifice action of BomberPiece, which works out the blast itself
  */
 export interface BomberExplodeAction extends BaseGameAction {
   type: 'bomber-explode';
@@ -135,27 +141,9 @@ export interface BomberExplodeAction extends BaseGameAction {
   affectedPieceIds: string[];
 }
 
-/**
- * Action for Necromancer resurrecting a piece
- */
-export interface NecromancerResurrectAction extends BaseGameAction {
-  type: 'necromancer-resurrect';
-  necromancerId: string;
-  resurrectedPieceId: string;
-  position: Coordinate;
-}
-
-/**
- * Action for Assassin declaring a target
- */
-export interface AssassinDeclareTargetAction extends BaseGameAction {
-  type: 'assassin-declare-target';
-  assassinId: string;
-  targetPieceId: string;
-}
-
 /**
  * Action for Turtle picking up or dropping a piece
+ * @deprecated Use the turtle-board and turtle-disembark actions of TurtlePiece
  */
 export interface TurtleCarryAction extends BaseGameAction {
   type: 'turtle-carry';
@@ -194,8 +182,6 @@ export type GameAction =
   | BuilderMoveLandAction
   | BuilderRemoveLandAction
   | BomberExplodeAction
-  | NecromancerResurrectAction
-  | AssassinDeclareTargetAction
   | TurtleCarryAction
   | EndTurnAction
   | ConcedeAction;
@@ -208,18 +194,19 @@ export const GameActionUtils = {
    * Create a unique action ID
    */
   generateId(): string {
-    return `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return EngineContextUtils.generateId('action');
   },
 
   /**
-   * Create base action data
+   * Create base action data, stamped with the current version of its action type
    */
-  createBase(type: string, playerId: string): BaseGameAction {
+  createBase(type: string, playerId: string, registry: ActionRegistry = ActionRegistry.default): BaseGameAction {
     return {
       id: GameActionUtils.generateId(),
-      timestamp: Date.now(),
+      timestamp: EngineContextUtils.now(),
       playerId,
-      type
+      type,
+      version: registry.getActionVersion(type)
     };
   },
 
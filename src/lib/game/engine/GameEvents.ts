@@ -0,0 +1,105 @@
+import type { Coordinate } from '../board/Coordinate';
+
+/**
+ * Domain events describe what an action did, so the UI, game logs and
+ * statistics don't have to diff whole states. Handlers emit them through
+ * the ActionContext they receive.
+ */
+
+export interface PiecePlacedEvent {
+  type: 'PiecePlaced';
+  pieceId: string;
+  pieceType: string;
+  ownerId: string;
+  position: Coordinate;
+}
+
+export interface PieceMovedEvent {
+  type: 'PieceMoved';
+  pieceId: string;
+  from: Coordinate | null;
+  to: Coordinate;
+}
+
+export interface PieceCapturedEvent {
+  type: 'PieceCaptured';
+  pieceId: string;
+  pieceType: string;
+  ownerId: string;
+  position: Coordinate;
+  /** ID of the piece that made the capture, if any */
+  capturedBy?: string;
+}
+
+export interface LandPlacedEvent {
+  type: 'LandPlaced';
+  landId: string;
+  position: Coordinate;
+}
+
+export interface LandMovedEvent {
+  type: 'LandMoved';
+  landId: string;
+  from: Coordinate;
+  to: Coordinate;
+}
+
+export interface LandRemovedEvent {
+  type: 'LandRemoved';
+  landId: string;
+  position: Coordinate;
+}
+
+export interface CitadelDestroyedEvent {
+  type: 'CitadelDestroyed';
+  citadelId: string;
+  ownerId: string;
+  position: Coordinate;
+}
+
+export interface TurnEndedEvent {
+  type: 'TurnEnded';
+  playerId: string;
+  nextPlayerId: string | null;
+}
+
+export interface GameFinishedEvent {
+  type: 'GameFinished';
+  winnerId: string | null;
+}
+
+/**
+ * Events emitted by the core engine and the built-in pieces
+ */
+export type CoreGameEvent =
+  | PiecePlacedEvent
+  | PieceMovedEvent
+  | PieceCapturedEvent
+  | LandPlacedEvent
+  | LandMovedEvent
+  | LandRemovedEvent
+  | CitadelDestroyedEvent
+  | TurnEndedEvent
+  | GameFinishedEvent;
+
+/**
+ * Event type defined by a piece or game mode
+ */
+export interface CustomGameEvent {
+  type: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Any domain event
+ */
+export type GameEvent = CoreGameEvent | CustomGameEvent;
+
+/**
+ * The events emitted while applying one action
+ */
+export interface ActionEvents {
+  actionId: string;
+  actionType: string;
+  events: GameEvent[];
+}
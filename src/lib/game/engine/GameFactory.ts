@@ -3,7 +3,8 @@ import type {
   GameState, 
   GameConfig, 
   Player, 
-  GameDocument 
+  GameDocument,
+  PieceType
 } from '../engine/GameState';
 import type { 
   GameAction, 
@@ -11,11 +12,18 @@ import type {
   StartGameAction,
   PlaceLandAction,
   PlaceCitadelAction,
+  SelectPieceAction,
   PlacePieceAction,
-  MovePieceAction
+  MovePieceAction,
+  EndTurnAction
 } from '../engine/GameAction';
 import { IdUtils } from '../utils/GameUtils';
+import { ActionRegistry } from './ActionRegistry';
+import { SchemaUtils } from './ActionSchema';
+import { DocumentMigrationUtils, DOCUMENT_MIGRATIONS, GAME_DOCUMENT_VERSION, type DocumentMigration } from './DocumentMigrations';
 import { GameActionUtils } from '../engine/GameAction';
+import { EngineContextUtils } from '../engine/EngineContext';
+import { LandPoolUtils } from './LandPool';
 
 /**
  * Factory functions for creating game states and actions
@@ -35,7 +43,7 @@ export const GameFactory = {
 
     return {
       id: IdUtils.generateGameId(),
-      createdAt: Date.now(),
+      createdAt: EngineContextUtils.now(),
       config: { ...defaultConfig, ...config },
       hostPlayerId,
       joinCode: IdUtils.generateJoinCode()
@@ -49,7 +57,7 @@ export const GameFactory = {
     return {
       id: initialState.id,
       createdAt: initialState.createdAt,
-      updatedAt: Date.now(),
+      updatedAt: EngineContextUtils.now(),
       phase: 'setup',
       config: initialState.config,
       players: players,
@@ -59,6 +67,7 @@ export const GameFactory = {
       citadels: [],
       graveyard: [],
       communityPool: [],
+      landPool: LandPoolUtils.create(initialState.config, players.length),
       winnerId: null
     };
   },
@@ -73,7 +82,8 @@ export const GameFactory = {
       initialState,
       actions: [],
       version: 1,
-      lastUpdated: Date.now()
+      schemaVersion: GAME_DOCUMENT_VERSION,
+      lastUpdated: EngineContextUtils.now()
     };
   },
 
@@ -119,14 +129,14 @@ export const ActionFactory = {
   },
 
   /**
-   * Create a place land action
+   * Create a place land action for a tile from the land pool
    */
-  createPlaceLandAction(playerId: string, x: number, y: number): PlaceLandAction {
+  createPlaceLandAction(playerId: string, x: number, y: number, landId: string): PlaceLandAction {
     return {
       ...GameActionUtils.createBase('place-land', playerId),
       type: 'place-land',
       position: { x, y },
-      landId: IdUtils.generateLandId()
+      landId
     };
   },
 
@@ -142,6 +152,23 @@ export const ActionFactory = {
     };
   },
 
+  /**
+   * Create a select piece action
+   */
+  createSelectPieceAction(
+    playerId: string,
+    pieceType: PieceType,
+    destination: 'personal' | 'community' = 'personal'
+  ): SelectPieceAction {
+    return {
+      ...GameActionUtils.createBase('select-piece', playerId),
+      type: 'select-piece',
+      pieceType,
+      destination,
+      pieceId: IdUtils.generatePieceId()
+    };
+  },
+
   /**
    * Create a place piece action
    */
@@ -181,9 +208,42 @@ export const ActionFactory = {
       toPosition: { x: toX, y: toY },
       moveData
     };
+  },
+
+  /**
+   * Create an end turn action
+   */
+  createEndTurnAction(playerId: string): EndTurnAction {
+    return {
+      ...GameActionUtils.createBase('end-turn', playerId),
+      type: 'end-turn'
+    };
   }
 };
 
+/**
+ * Shape of a stored game document (actions are checked against their own schemas)
+ */
+const GAME_DOCUMENT_SCHEMA = SchemaUtils.object({
+  initialState: SchemaUtils.object({
+    id: SchemaUtils.string(),
+    createdAt: SchemaUtils.number(),
+    config: SchemaUtils.object({
+      landsPerPlayer: SchemaUtils.integer(),
+      landPoolSize: SchemaUtils.optional(SchemaUtils.integer()),
+      personalPiecesPerPlayer: SchemaUtils.integer(),
+      communityPiecesPerPlayer: SchemaUtils.integer(),
+      maxPlayers: SchemaUtils.integer(),
+      gameMode: SchemaUtils.string()
+    }),
+    hostPlayerId: SchemaUtils.string(),
+    joinCode: SchemaUtils.string()
+  }),
+  actions: SchemaUtils.array(SchemaUtils.object()),
+  version: SchemaUtils.number(),
+  lastUpdated: SchemaUtils.number()
+});
+
 /**
  * Utility functions for serializing game data for Firestore
  */
@@ -196,18 +256,51 @@ export const SerializationUtils = {
       initialState: gameDoc.initialState,
       actions: gameDoc.actions,
       version: gameDoc.version,
+      schemaVersion: gameDoc.schemaVersion ?? GAME_DOCUMENT_VERSION,
       lastUpdated: gameDoc.lastUpdated
     };
   },
 
   /**
-   * Deserialize game document from Firestore
+   * Deserialize game document from Firestore.
+   * Older documents and action payloads are migrated to the current versions
+   * first, so only the migrated document has to match the current schema.
+   * Throws if the document or any action doesn't match its schema.
+   * Actions are migrated and checked using the given registry.
    */
-  deserializeGameDocument(data: Record<string, unknown>): GameDocument {
+  deserializeGameDocument(
+    storedData: Record<string, unknown>,
+    registry: ActionRegistry = ActionRegistry.default,
+    migrations: DocumentMigration[] = DOCUMENT_MIGRATIONS
+  ): GameDocument {
+    let data: Record<string, unknown>;
+    try {
+      data = DocumentMigrationUtils.migrateDocument(storedData, registry, migrations);
+    } catch (error) {
+      throw new Error(`Cannot migrate game document: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const issues = SchemaUtils.validate(GAME_DOCUMENT_SCHEMA, data);
+    if (issues.length > 0) {
+      throw new Error(`Invalid game document: ${SchemaUtils.formatIssues(issues)}`);
+    }
+
+    const actionErrors = (data.actions as unknown[])
+      .map((action, index) => {
+        const payload = registry.checkPayload(action);
+        return payload === true ? null : `actions[${index}]: ${payload}`;
+      })
+      .filter((error): error is string => error !== null);
+
+    if (actionErrors.length > 0) {
+      throw new Error(`Invalid game document: ${actionErrors.join('; ')}`);
+    }
+
     return {
       initialState: data.initialState as InitialGameState,
       actions: data.actions as GameAction[],
       version: data.version as number,
+      schemaVersion: data.schemaVersion as number,
       lastUpdated: data.lastUpdated as number
     };
   },
@@ -0,0 +1,89 @@
+import type { GameDocument, GameState } from './GameState';
+import type { GameAction } from './GameAction';
+import { DerivationUtils } from './ModularGameStateDerivation';
+import { EngineContextUtils } from './EngineContext';
+import type { DerivationCache } from './DerivationCache';
+import type { ActionRegistry } from './ActionRegistry';
+
+/**
+ * Local undo/redo over a game document's action log.
+ * Meant for local play and analysis, where nobody else has seen the actions;
+ * online games should use the request-takeback action instead.
+ * Game documents are never mutated - every change produces a new document.
+ */
+export class GameHistory {
+  private document: GameDocument;
+  private redoStack: GameAction[] = [];
+  private readonly registry?: ActionRegistry;
+
+  constructor(document: GameDocument, registry?: ActionRegistry) {
+    this.document = document;
+    this.registry = registry;
+  }
+
+  /**
+   * The current game document
+   */
+  get current(): GameDocument {
+    return this.document;
+  }
+
+  /**
+   * Derive the state of the current game document
+   */
+  getState(cache?: DerivationCache): GameState {
+    return DerivationUtils.getCurrentState(this.document.initialState, this.document.actions, cache, this.registry);
+  }
+
+  canUndo(): boolean {
+    return this.document.actions.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Append a new action. This clears anything that could be redone.
+   */
+  push(action: GameAction): GameDocument {
+    this.redoStack = [];
+    return this.update([...this.document.actions, action]);
+  }
+
+  /**
+   * Remove the last action, returning null if there is nothing to undo
+   */
+  undo(): GameDocument | null {
+    const lastAction = this.document.actions[this.document.actions.length - 1];
+    if (!lastAction) {
+      return null;
+    }
+
+    this.redoStack.push(lastAction);
+    return this.update(this.document.actions.slice(0, -1));
+  }
+
+  /**
+   * Re-apply the last undone action, returning null if there is nothing to redo
+   */
+  redo(): GameDocument | null {
+    const action = this.redoStack.pop();
+    if (!action) {
+      return null;
+    }
+
+    return this.update([...this.document.actions, action]);
+  }
+
+  private update(actions: GameAction[]): GameDocument {
+    this.document = {
+      ...this.document,
+      actions,
+      version: this.document.version + 1,
+      lastUpdated: EngineContextUtils.now()
+    };
+
+    return this.document;
+  }
+}
@@ -2,17 +2,20 @@ import type { Coordinate } from '../board/Coordinate';
 import type { GameAction } from './GameAction';
 
 /**
- * Represents a piece type in the game
+ * Represents a piece type in the game - the type id of a piece registered
+ * in the PieceRegistry (such as 'soldier' or 'turtle')
  */
-export type PieceType = 
-  | 'soldier' 
-  | 'bird' 
-  | 'rabbit' 
-  | 'turtle' 
-  | 'builder' 
-  | 'bomber' 
-  | 'necromancer' 
-  | 'assassin';
+export type PieceType = string;
+
+/**
+ * Where a piece was selected into during setup, so it can be sent back there
+ */
+export interface PieceOrigin {
+  /** Personal stash or community pool */
+  source: 'personal' | 'community';
+  /** ID of the player whose stash it came from (personal pieces only) */
+  playerId?: string;
+}
 
 /**
  * Represents a piece in the game with minimal state for Firestore storage
@@ -28,6 +31,8 @@ export interface Piece {
   position: Coordinate | null;
   /** Piece-specific state data */
   state?: Record<string, unknown>;
+  /** Where the piece started out (missing for pieces created outside piece selection) */
+  origin?: PieceOrigin;
 }
 
 /**
@@ -42,6 +47,11 @@ export interface Land {
   ownerId: string | null;
 }
 
+/**
+ * A land tile that is not on the board
+ */
+export type PooledLand = Omit<Land, 'position'>;
+
 /**
  * Represents a citadel in the game
  */
@@ -83,12 +93,28 @@ export type GamePhase =
   | 'battle'       // Main game phase
   | 'finished';    // Game has ended
 
+/**
+ * Rules controlling which actions players may take back
+ */
+export interface TakebackRules {
+  /**
+   * Which actions can be taken back
+   * - 'last-own-turn': only actions from the requester's most recent turn
+   * - 'own-actions': any action the requester made
+   */
+  scope: 'last-own-turn' | 'own-actions';
+  /** Whether another player has to accept the takeback */
+  requireConsent: boolean;
+}
+
 /**
  * Game configuration settings
  */
 export interface GameConfig {
   /** Number of land tiles each player starts with */
   landsPerPlayer: number;
+  /** Land tiles in the community pool at the start (defaults to landsPerPlayer for each player) */
+  landPoolSize?: number;
   /** Number of pieces each player gets in their personal stash */
   personalPiecesPerPlayer: number;
   /** Number of pieces in the shared community pool */
@@ -97,6 +123,32 @@ export interface GameConfig {
   maxPlayers: number;
   /** Game mode variant */
   gameMode: 'standard' | 'capture-flag' | 'conquest' | 'defender';
+  /** Takeback rules (defaults to own last turn, with consent) */
+  takebackRules?: TakebackRules;
+  /** Pass the turn automatically after a player's main action in battle */
+  autoEndTurn?: boolean;
+}
+
+/**
+ * The actions one player took in a single uninterrupted turn
+ */
+export interface TurnRecord {
+  /** ID of the player who took the turn */
+  playerId: string;
+  /** IDs of the actions taken during the turn, in order */
+  actionIds: string[];
+}
+
+/**
+ * A takeback request waiting for another player's answer
+ */
+export interface TakebackRequest {
+  /** ID of the request-takeback action */
+  requestId: string;
+  /** ID of the player who asked for the takeback */
+  requestedBy: string;
+  /** ID of the first action to take back (it and everything after it is undone) */
+  targetActionId: string;
 }
 
 /**
@@ -139,9 +191,24 @@ export interface GameState {
   
   /** Shared community pool of pieces */
   communityPool: Piece[];
+
+  /** Land tiles in the community pool, waiting to be placed */
+  landPool: PooledLand[];
   
   /** Winner of the game (if finished) */
   winnerId: string | null;
+
+  /** Turns taken so far, used to decide what can be taken back */
+  turnHistory?: TurnRecord[];
+
+  /** Takeback request waiting for an answer */
+  pendingTakeback?: TakebackRequest | null;
+
+  /**
+   * The current player took their main action, but a rule that blocks
+   * end-turn held back the auto end turn until it is resolved
+   */
+  pendingAutoEndTurn?: boolean;
   
   /** Additional game-specific state */
   gameSpecificState?: Record<string, unknown>;
@@ -176,6 +243,9 @@ export interface GameDocument {
   
   /** Version for optimistic concurrency control */
   version: number;
+
+  /** Format version of the document, for migrations (1 when missing) */
+  schemaVersion?: number;
   
   /** Last update timestamp for efficient queries */
   lastUpdated: number;
@@ -1,6 +1,6 @@
 import type { InitialGameState, GameState, Player, Land, Piece, Citadel } from './GameState';
 import type { GameAction } from './GameAction';
-import { IdUtils } from '../utils/GameUtils';
+import { GameStateDerivation as ModularGameStateDerivation } from './ModularGameStateDerivation';
 
 /**
  * Engine for deriving current game state from initial state + action history
@@ -9,56 +9,18 @@ import { IdUtils } from '../utils/GameUtils';
 export class GameStateDerivation {
   /**
    * Derive the complete current game state from initial state and actions
+   * Delegates to the registry-based engine so legacy callers get the same
+   * handlers, phase handling and error reporting
    */
   static deriveState(initialState: InitialGameState, actions: GameAction[]): GameState {
-    // Start with base state from initial configuration
-    let state: GameState = {
-      id: initialState.id,
-      createdAt: initialState.createdAt,
-      updatedAt: Date.now(),
-      phase: 'setup',
-      config: initialState.config,
-      players: [],
-      currentPlayerId: null,
-      lands: [],
-      pieces: [],
-      citadels: [],
-      graveyard: [],
-      communityPool: [],
-      winnerId: null
-    };
-
-    // Apply each action in chronological order
-    for (const action of actions) {
-      state = GameStateDerivation.applyAction(state, action);
-    }
-
-    return state;
+    return ModularGameStateDerivation.deriveState(initialState, actions);
   }
 
   /**
    * Apply a single action to the current state and return new state
    */
   static applyAction(currentState: GameState, action: GameAction): GameState {
-    // Always update the timestamp
-    const baseState = {
-      ...currentState,
-      updatedAt: action.timestamp
-    };
-
-    // Use ActionRegistry for all action handling
-    const handler = require('./ActionRegistry').ActionRegistry.getHandler(action.type);
-    if (handler) {
-      try {
-        return handler(baseState, action);
-      } catch (err) {
-        console.error(`Error applying action '${action.type}':`, err);
-        return baseState;
-      }
-    } else {
-      console.warn(`Unknown action type: ${(action as any).type}`);
-      return baseState;
-    }
+    return ModularGameStateDerivation.applyAction(currentState, action);
   }
 
   /**
@@ -0,0 +1,59 @@
+import type { GameConfig, GameState, Land, PooledLand } from './GameState';
+
+/**
+ * Shown when someone tries to place land while the pool is empty
+ */
+export const EMPTY_LAND_POOL_MESSAGE = 'No land tiles left in the community pool';
+
+/**
+ * Land tiles that are not on the board. Setup placement and the Builder draw
+ * from the pool, and removed tiles go back into it.
+ */
+export const LandPoolUtils = {
+  /**
+   * Number of tiles in the pool when the game starts: the mode's
+   * landPoolSize, or enough for every player's setup placement
+   */
+  getStartingSize(config: GameConfig, playerCount: number): number {
+    return config.landPoolSize ?? config.landsPerPlayer * playerCount;
+  },
+
+  /**
+   * Create the starting pool. Tile IDs only depend on their index,
+   * so every client derives the same pool.
+   */
+  create(config: GameConfig, playerCount: number): PooledLand[] {
+    return Array.from({ length: LandPoolUtils.getStartingSize(config, playerCount) }, (_, index) => ({
+      id: `pooled_land_${index + 1}`,
+      ownerId: null
+    }));
+  },
+
+  /**
+   * Find a tile in the pool
+   */
+  find(state: GameState, landId: string): PooledLand | undefined {
+    return state.landPool.find(tile => tile.id === landId);
+  },
+
+  /**
+   * Get the pool without the given tile
+   */
+  take(state: GameState, landId: string): PooledLand[] {
+    return state.landPool.filter(tile => tile.id !== landId);
+  },
+
+  /**
+   * Get the pool with a tile that left the board added back
+   */
+  put(state: GameState, land: Land): PooledLand[] {
+    return [...state.landPool, { id: land.id, ownerId: land.ownerId }];
+  },
+
+  /**
+   * Check if there is nothing left to place
+   */
+  isEmpty(state: GameState): boolean {
+    return state.landPool.length === 0;
+  }
+};
@@ -1,7 +1,76 @@
 import type { InitialGameState, GameState } from './GameState';
-import type { BaseGameAction } from './BaseActions';
-import { ActionRegistry } from './ActionRegistry';
+import { ActionUtils, type BaseGameAction, type EndTurnAction } from './BaseActions';
+import { ActionRegistry, type ActionContext } from './ActionRegistry';
+import type { GameEvent, ActionEvents } from './GameEvents';
+import { SimulationContextUtils, type SimulationContext } from './SimulationContext';
 import { CoreActionHandlers } from './CoreActionHandlers';
+import { StandardPieceModules } from '../pieces/StandardPieceModules';
+import { PhaseController } from './PhaseController';
+import type { DerivationCache } from './DerivationCache';
+
+/**
+ * How strict derivation reacts to an action that is rejected
+ * - 'stop': stop at the first rejected action
+ * - 'skip': leave the rejected action out and keep going
+ */
+export type InvalidActionPolicy = 'stop' | 'skip';
+
+/**
+ * Look up the state from right before an earlier action
+ */
+export type SnapshotLookup = (actionId: string) => GameState | undefined;
+
+/**
+ * Options shared by every derivation entry point
+ */
+export interface DerivationOptions {
+  /** Registry to derive against (defaults to the shared default registry) */
+  registry?: ActionRegistry;
+  /** States from before earlier actions, for actions that rewind the game */
+  snapshotBefore?: SnapshotLookup;
+  /** Called with the events of every successfully applied action */
+  onEvents?: (entry: ActionEvents) => void;
+  /** Simulation nesting the actions are applied in (defaults to the real game) */
+  simulation?: SimulationContext;
+}
+
+/**
+ * Options for strict derivation
+ */
+export interface StrictDerivationOptions extends DerivationOptions {
+  /** What to do when an action is rejected (defaults to 'stop') */
+  onInvalid?: InvalidActionPolicy;
+}
+
+/**
+ * An action that strict derivation refused to apply
+ */
+export interface RejectedAction {
+  /** Position of the action in the action log */
+  index: number;
+  /** ID of the rejected action */
+  actionId: string;
+  /** Type of the rejected action */
+  actionType: string;
+  /** Why the action was rejected */
+  reason: string;
+  /** State right before the rejected action (the last good state) */
+  lastValidState: GameState;
+}
+
+/**
+ * Report produced by strict derivation
+ */
+export interface StrictDerivationResult {
+  /** Final state (the last good state when derivation stopped early) */
+  state: GameState;
+  /** True if every action was applied */
+  valid: boolean;
+  /** Number of actions that were applied */
+  appliedCount: number;
+  /** Every rejected action, in log order */
+  rejections: RejectedAction[];
+}
 
 /**
  * Engine for deriving current game state from initial state + action history
@@ -11,32 +80,30 @@ export class GameStateDerivation {
   private static initialized = false;
 
   /**
-   * Initialize the derivation engine with core action handlers
+   * Initialize the derivation engine with core action handlers and the standard pieces
    */
   static initialize(): void {
     if (GameStateDerivation.initialized) {
       return;
     }
 
-    // Register all core action handlers
+    // Register all core action handlers and the standard piece modules
     CoreActionHandlers.registerAll();
+    StandardPieceModules.registerAll();
     
     GameStateDerivation.initialized = true;
-    console.log('GameStateDerivation initialized with core actions');
+    console.log('GameStateDerivation initialized with core actions and standard pieces');
   }
 
   /**
-   * Derive the complete current game state from initial state and actions
+   * Create the state every derivation starts from
    */
-  static deriveState(initialState: InitialGameState, actions: BaseGameAction[]): GameState {
-    // Ensure initialization
-    GameStateDerivation.initialize();
-
-    // Start with base state from initial configuration
-    let state: GameState = {
+  static createBaseState(initialState: InitialGameState): GameState {
+    return {
       id: initialState.id,
       createdAt: initialState.createdAt,
-      updatedAt: Date.now(),
+      // Derived from the game data only, so every client derives identical states
+      updatedAt: initialState.createdAt,
       phase: 'setup',
       config: initialState.config,
       players: [],
@@ -46,13 +113,70 @@ export class GameStateDerivation {
       citadels: [],
       graveyard: [],
       communityPool: [],
-      winnerId: null
+      landPool: [],
+      winnerId: null,
+      turnHistory: [],
+      pendingTakeback: null
     };
+  }
+
+  /**
+   * Derive the complete current game state from initial state and actions
+   */
+  static deriveState(
+    initialState: InitialGameState,
+    actions: BaseGameAction[],
+    options: DerivationOptions = {}
+  ): GameState {
+    // Ensure initialization
+    GameStateDerivation.initialize();
+
+    // Start with base state from initial configuration
+    return GameStateDerivation.applyActions(GameStateDerivation.createBaseState(initialState), actions, options);
+  }
+
+  /**
+   * Derive the current game state together with the domain events of every
+   * applied action, in log order. Actions that were later taken back keep
+   * their events - the takeback itself is part of the log.
+   */
+  static deriveStateWithEvents(
+    initialState: InitialGameState,
+    actions: BaseGameAction[],
+    options: DerivationOptions = {}
+  ): { state: GameState; events: ActionEvents[] } {
+    const events: ActionEvents[] = [];
+    const state = GameStateDerivation.deriveState(initialState, actions, {
+      ...options,
+      onEvents: entry => {
+        events.push(entry);
+        options.onEvents?.(entry);
+      }
+    });
+
+    return { state, events };
+  }
+
+  /**
+   * Apply actions in chronological order to an already derived state.
+   * Snapshots of earlier actions come from options.snapshotBefore, for
+   * actions that rewind the game to before actions not in this batch.
+   */
+  static applyActions(
+    startState: GameState,
+    actions: BaseGameAction[],
+    options: DerivationOptions = {}
+  ): GameState {
+    GameStateDerivation.initialize();
+
+    let state = startState;
+    const lookup = GameStateDerivation.createSnapshotTracker(options.snapshotBefore);
 
     // Apply each action in chronological order using registered handlers
     for (const action of actions) {
+      lookup.record(action, state);
       try {
-        state = GameStateDerivation.applyAction(state, action);
+        state = GameStateDerivation.applyAction(state, action, { ...options, snapshotBefore: lookup.find });
       } catch (error) {
         console.error(`Failed to apply action ${action.type}:`, error);
         // Continue with next action rather than breaking the entire derivation
@@ -62,50 +186,338 @@ export class GameStateDerivation {
     return state;
   }
 
+  /**
+   * Derive state while validating every action before applying it.
+   * Unlike deriveState, nothing is silently ignored: actions that fail
+   * validation, have no handler or throw are reported as rejections.
+   * Use this for untrusted logs (server side, imported games).
+   */
+  static deriveStateStrict(
+    initialState: InitialGameState,
+    actions: BaseGameAction[],
+    options: StrictDerivationOptions = {}
+  ): StrictDerivationResult {
+    GameStateDerivation.initialize();
+
+    const { onInvalid = 'stop', ...derivationOptions } = options;
+    const rejections: RejectedAction[] = [];
+    let state = GameStateDerivation.createBaseState(initialState);
+    const lookup = GameStateDerivation.createSnapshotTracker(options.snapshotBefore);
+
+    for (let index = 0; index < actions.length; index++) {
+      const action = actions[index];
+      lookup.record(action, state);
+      const result = GameStateDerivation.tryApplyAction(state, action, {
+        ...derivationOptions,
+        snapshotBefore: lookup.find
+      });
+
+      if (result.valid) {
+        state = result.state;
+        continue;
+      }
+
+      rejections.push({
+        index,
+        actionId: action.id,
+        actionType: action.type,
+        reason: result.reason,
+        lastValidState: state
+      });
+
+      if (onInvalid === 'stop') {
+        break;
+      }
+    }
+
+    return {
+      state,
+      valid: rejections.length === 0,
+      appliedCount: onInvalid === 'stop' && rejections.length > 0
+        ? rejections[0].index
+        : actions.length - rejections.length,
+      rejections
+    };
+  }
+
+  /**
+   * Validate and apply a single action without swallowing any errors
+   */
+  static tryApplyAction(
+    currentState: GameState,
+    action: BaseGameAction,
+    options: DerivationOptions = {}
+  ): { valid: true; state: GameState } | { valid: false; reason: string } {
+    try {
+      const registry = GameStateDerivation.getRegistry(options);
+      const validation = registry.validateAction(currentState, action, registry.createContext(options.simulation));
+      if (validation !== true) {
+        return { valid: false, reason: typeof validation === 'string' ? validation : 'Action is not valid' };
+      }
+
+      return { valid: true, state: GameStateDerivation.applyRegisteredAction(currentState, action, options) };
+    } catch (error) {
+      return { valid: false, reason: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
   /**
    * Apply a single action to the current state using the action registry
    */
-  static applyAction(currentState: GameState, action: BaseGameAction): GameState {
+  static applyAction(currentState: GameState, action: BaseGameAction, options: DerivationOptions = {}): GameState {
+    try {
+      return GameStateDerivation.applyRegisteredAction(currentState, action, options);
+    } catch (error) {
+      console.warn(`Unknown action type or handler error: ${action.type}`, error);
+      // Return unchanged state for unknown actions
+      return { ...currentState, updatedAt: action.timestamp };
+    }
+  }
+
+  /**
+   * Apply a single action and return the domain events it emitted
+   */
+  static applyActionWithEvents(
+    currentState: GameState,
+    action: BaseGameAction,
+    options: DerivationOptions = {}
+  ): { state: GameState; events: GameEvent[] } {
+    let events: GameEvent[] = [];
+    const state = GameStateDerivation.applyAction(currentState, action, {
+      ...options,
+      onEvents: entry => {
+        events = entry.events;
+        options.onEvents?.(entry);
+      }
+    });
+
+    return { state, events };
+  }
+
+  /**
+   * Apply an action through its registered handler, throwing if there is
+   * no handler or the handler fails. Events are only reported once the
+   * action has been applied successfully.
+   */
+  private static applyRegisteredAction(
+    currentState: GameState,
+    action: BaseGameAction,
+    options: DerivationOptions
+  ): GameState {
+    const registry = GameStateDerivation.getRegistry(options);
+    const definition = registry.getDefinition(action.type);
+
+    // Rewinding actions (takebacks) are handled on the state from before their target
+    let state = currentState;
+    const rewindTargetId = definition?.rewindTo?.(currentState, action);
+    if (rewindTargetId) {
+      const snapshot = options.snapshotBefore?.(rewindTargetId);
+      if (!snapshot) {
+        throw new Error(`Cannot rewind to action ${rewindTargetId}: it is not in the action history`);
+      }
+      state = snapshot;
+    }
+
     // Always update the timestamp
     const baseState = {
-      ...currentState,
+      ...state,
       updatedAt: action.timestamp
     };
 
-    // Use the action registry to apply the action
-    try {
-      return ActionRegistry.applyAction(baseState, action);
-    } catch (error) {
-      console.warn(`Unknown action type or handler error: ${action.type}`, error);
-      return baseState; // Return unchanged state for unknown actions
+    const events: GameEvent[] = [];
+    const context: ActionContext = {
+      ...registry.createContext(options.simulation),
+      emit: event => events.push(event)
+    };
+
+    // Use the action registry to apply the action, then let the phase
+    // controller move the game along
+    const appliedState = GameStateDerivation.applyAutoEndTurn(
+      baseState,
+      registry.applyAction(baseState, action, context),
+      action,
+      registry,
+      context
+    );
+    const advancedState = PhaseController.advance(baseState, appliedState, action.playerId);
+    const newState = GameStateDerivation.applyWinConditions(advancedState, registry);
+
+    GameStateDerivation.emitFlowEvents(baseState, newState, events);
+    options.onEvents?.({ actionId: action.id, actionType: action.type, events });
+
+    return definition?.meta ? newState : GameStateDerivation.recordTurn(newState, action);
+  }
+
+  /**
+   * Pass the turn after a main action under the auto end turn rule. Rules that
+   * block end-turn (like an Assassin without a target) hold the turn back; it
+   * then passes after the first action of the same player that resolves them.
+   */
+  private static applyAutoEndTurn(
+    previousState: GameState,
+    state: GameState,
+    action: BaseGameAction,
+    registry: ActionRegistry,
+    context: ActionContext
+  ): GameState {
+    if (!state.config.autoEndTurn) {
+      return state;
+    }
+
+    const { pendingAutoEndTurn: _pending, ...settled } = state;
+    if (state.currentPlayerId !== previousState.currentPlayerId) {
+      return settled;
+    }
+
+    const heldBack = previousState.pendingAutoEndTurn === true && action.playerId === state.currentPlayerId;
+    if (!registry.isMainAction(action) && !heldBack) {
+      return state;
+    }
+
+    if (!GameStateDerivation.canEndTurn(state, action.playerId, registry, context)) {
+      return { ...state, pendingAutoEndTurn: true };
+    }
+
+    return PhaseController.endTurnAfterMainAction(settled, action.playerId);
+  }
+
+  /**
+   * Check if the player could end their turn themselves
+   */
+  private static canEndTurn(state: GameState, playerId: string, registry: ActionRegistry, context: ActionContext): boolean {
+    const endTurn: EndTurnAction = { ...ActionUtils.createBase('end-turn', playerId), type: 'end-turn' };
+    return registry.checkInvariants(state, endTurn, context) === true;
+  }
+
+  /**
+   * Emit the events for turn and game flow changes that no handler reported,
+   * such as the phase controller passing the turn or a win condition ending the game
+   */
+  private static emitFlowEvents(previousState: GameState, state: GameState, events: GameEvent[]): void {
+    const turnPassed =
+      previousState.currentPlayerId !== null &&
+      state.currentPlayerId !== previousState.currentPlayerId &&
+      state.phase !== 'finished';
+
+    if (turnPassed && !events.some(event => event.type === 'TurnEnded')) {
+      events.push({ type: 'TurnEnded', playerId: previousState.currentPlayerId!, nextPlayerId: state.currentPlayerId });
+    }
+
+    if (previousState.phase !== 'finished' && state.phase === 'finished') {
+      events.push({ type: 'GameFinished', winnerId: state.winnerId });
+    }
+  }
+
+  /**
+   * Finish the game as soon as one of the registry's win conditions has a winner
+   */
+  private static applyWinConditions(state: GameState, registry: ActionRegistry): GameState {
+    if (state.phase === 'finished') {
+      return state;
+    }
+
+    const winnerId = registry.checkWinConditions(state);
+    if (!winnerId) {
+      return state;
+    }
+
+    return {
+      ...state,
+      phase: 'finished',
+      winnerId,
+      currentPlayerId: null
+    };
+  }
+
+  /**
+   * Add an action to the turn history, starting a new turn whenever a
+   * different player acts
+   */
+  private static recordTurn(state: GameState, action: BaseGameAction): GameState {
+    const turnHistory = state.turnHistory ?? [];
+    const lastTurn = turnHistory[turnHistory.length - 1];
+
+    if (lastTurn?.playerId === action.playerId) {
+      return {
+        ...state,
+        turnHistory: [
+          ...turnHistory.slice(0, -1),
+          { ...lastTurn, actionIds: [...lastTurn.actionIds, action.id] }
+        ]
+      };
     }
+
+    return {
+      ...state,
+      turnHistory: [...turnHistory, { playerId: action.playerId, actionIds: [action.id] }]
+    };
+  }
+
+  private static getRegistry(options: DerivationOptions): ActionRegistry {
+    return options.registry ?? ActionRegistry.default;
+  }
+
+  /**
+   * Keep track of the state before each applied action so rewinding
+   * actions can return to it
+   */
+  private static createSnapshotTracker(fallback?: SnapshotLookup) {
+    const snapshots = new Map<string, GameState>();
+
+    return {
+      record(action: BaseGameAction, stateBefore: GameState): void {
+        snapshots.set(action.id, stateBefore);
+      },
+      find(actionId: string): GameState | undefined {
+        return snapshots.get(actionId) ?? fallback?.(actionId);
+      }
+    };
   }
 
   /**
    * Validate an action before applying it
    */
-  static validateAction(currentState: GameState, action: BaseGameAction): boolean | string {
+  static validateAction(
+    currentState: GameState,
+    action: BaseGameAction,
+    registry: ActionRegistry = ActionRegistry.default
+  ): boolean | string {
     GameStateDerivation.initialize();
     
-    return ActionRegistry.validateAction(currentState, action);
+    return registry.validateAction(currentState, action);
+  }
+
+  /**
+   * Get every legal action a player can take in the current state,
+   * optionally limited to the actions of a single piece
+   */
+  static getLegalActions(
+    currentState: GameState,
+    playerId: string,
+    pieceId?: string,
+    registry: ActionRegistry = ActionRegistry.default
+  ): BaseGameAction[] {
+    GameStateDerivation.initialize();
+
+    return registry.getLegalActions(currentState, playerId, pieceId);
   }
 
   /**
    * Check if an action type is supported
    */
-  static isActionSupported(actionType: string): boolean {
+  static isActionSupported(actionType: string, registry: ActionRegistry = ActionRegistry.default): boolean {
     GameStateDerivation.initialize();
     
-    return ActionRegistry.isRegistered(actionType);
+    return registry.isRegistered(actionType);
   }
 
   /**
    * Get all supported action types
    */
-  static getSupportedActionTypes(): string[] {
+  static getSupportedActionTypes(registry: ActionRegistry = ActionRegistry.default): string[] {
     GameStateDerivation.initialize();
     
-    return ActionRegistry.getRegisteredTypes();
+    return registry.getRegisteredTypes();
   }
 }
 
@@ -114,27 +526,20 @@ export class GameStateDerivation {
  */
 export const DerivationUtils = {
   /**
-   * Get the current state efficiently, with optional caching
+   * Get the current state efficiently, with optional checkpoint caching.
+   * A cache always derives against the registry it was created with.
    */
   getCurrentState(
     initialState: InitialGameState, 
     actions: BaseGameAction[], 
-    cache?: Map<number, GameState>
+    cache?: DerivationCache,
+    registry?: ActionRegistry
   ): GameState {
-    // Simple caching based on action count
-    const actionCount = actions.length;
-    
-    if (cache?.has(actionCount)) {
-      return cache.get(actionCount)!;
-    }
-
-    const state = GameStateDerivation.deriveState(initialState, actions);
-    
     if (cache) {
-      cache.set(actionCount, state);
+      return cache.getState(initialState, actions);
     }
 
-    return state;
+    return GameStateDerivation.deriveState(initialState, actions, { registry });
   },
 
   /**
@@ -142,59 +547,51 @@ export const DerivationUtils = {
    */
   validateActionSequence(
     initialState: InitialGameState, 
-    actions: BaseGameAction[]
+    actions: BaseGameAction[],
+    registry?: ActionRegistry
   ): { valid: boolean; errors: string[] } {
-    const errors: string[] = [];
-    let currentState = GameStateDerivation.deriveState(initialState, []);
-
-    for (let i = 0; i < actions.length; i++) {
-      const action = actions[i];
-      const validation = GameStateDerivation.validateAction(currentState, action);
-      
-      if (validation !== true) {
-        errors.push(`Action ${i} (${action.type}): ${validation || 'Invalid'}`);
-      } else {
-        // Apply the action to continue validation with updated state
-        currentState = GameStateDerivation.applyAction(currentState, action);
-      }
-    }
+    const result = GameStateDerivation.deriveStateStrict(initialState, actions, { onInvalid: 'skip', registry });
 
     return {
-      valid: errors.length === 0,
-      errors
+      valid: result.valid,
+      errors: result.rejections.map(r => `Action ${r.index} (${r.actionType}): ${r.reason}`)
     };
   },
 
   /**
-   * Simulate applying an action without modifying the actual game state
+   * Simulate applying an action without modifying the actual game state.
+   * Validators and handlers that simulate should pass on their own context's
+   * registry and simulation, so nesting stops at the simulation depth limit.
    */
   simulateAction(
     currentState: GameState, 
-    action: BaseGameAction
+    action: BaseGameAction,
+    options: DerivationOptions = {}
   ): { newState: GameState; valid: boolean; error?: string } {
-    try {
-      const validation = GameStateDerivation.validateAction(currentState, action);
-      
-      if (validation !== true) {
-        return {
-          newState: currentState,
-          valid: false,
-          error: typeof validation === 'string' ? validation : 'Action is not valid'
-        };
-      }
+    const parent = options.simulation ?? SimulationContextUtils.create();
+    const simulation = SimulationContextUtils.enter(parent);
 
-      const newState = GameStateDerivation.applyAction(currentState, action);
-      
+    if (!simulation) {
       return {
-        newState,
-        valid: true
+        newState: currentState,
+        valid: false,
+        error: `Simulation depth limit of ${parent.maxDepth} reached`
       };
-    } catch (error) {
+    }
+
+    const result = GameStateDerivation.tryApplyAction(currentState, action, { ...options, simulation });
+
+    if (!result.valid) {
       return {
         newState: currentState,
         valid: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: result.reason
       };
     }
+
+    return {
+      newState: result.state,
+      valid: true
+    };
   }
 };
@@ -0,0 +1,216 @@
+import type { GameState, GamePhase, GameConfig, Player } from './GameState';
+
+/**
+ * Setup phases in the order they are played, after 'setup' and before 'battle'
+ */
+export const SETUP_PHASES: GamePhase[] = ['land-placement', 'citadel-placement', 'piece-selection'];
+
+/**
+ * Number of citadels each player places during citadel placement
+ */
+export const CITADELS_PER_PLAYER = 1;
+
+/**
+ * Drives the game through its phases based on the game configuration.
+ * Runs after every applied action, so handlers only need to change the board
+ * and never have to know which phase comes next or whose turn it is.
+ */
+export class PhaseController {
+  /**
+   * Get the phase that follows the given phase
+   */
+  static getNextPhase(phase: GamePhase): GamePhase {
+    switch (phase) {
+      case 'land-placement':
+        return 'citadel-placement';
+      case 'citadel-placement':
+        return 'piece-selection';
+      case 'piece-selection':
+        return 'battle';
+      default:
+        return phase;
+    }
+  }
+
+  /**
+   * Check if a phase is one of the turn-based setup phases
+   */
+  static isSetupPhase(phase: GamePhase): boolean {
+    return SETUP_PHASES.includes(phase);
+  }
+
+  /**
+   * Count how many phase actions a player has completed in the current phase
+   */
+  static getPlayerProgress(state: GameState, playerId: string): number {
+    switch (state.phase) {
+      case 'land-placement':
+        return state.lands.filter(land => land.ownerId === playerId).length;
+      case 'citadel-placement':
+        return state.citadels.filter(citadel => citadel.ownerId === playerId).length;
+      case 'piece-selection': {
+        const player = state.players.find(p => p.id === playerId);
+        return player?.personalStash.length ?? 0;
+      }
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Get how many phase actions each player must complete in the given phase
+   */
+  static getPlayerQuota(config: GameConfig, phase: GamePhase): number {
+    switch (phase) {
+      case 'land-placement':
+        return config.landsPerPlayer;
+      case 'citadel-placement':
+        return CITADELS_PER_PLAYER;
+      case 'piece-selection':
+        return config.personalPiecesPerPlayer;
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Get the number of pieces the community pool must hold before battle
+   */
+  static getCommunityPoolQuota(state: GameState): number {
+    return state.config.communityPiecesPerPlayer * state.players.length;
+  }
+
+  /**
+   * Check if a player still has something to do in the current setup phase
+   */
+  static hasPlayerRemainingWork(state: GameState, playerId: string): boolean {
+    // Nobody can place land once the land pool has run out
+    if (state.phase === 'land-placement' && state.landPool.length === 0) {
+      return false;
+    }
+
+    const quota = PhaseController.getPlayerQuota(state.config, state.phase);
+    if (PhaseController.getPlayerProgress(state, playerId) < quota) {
+      return true;
+    }
+
+    // The community pool is shared, so anyone can still add to it
+    return state.phase === 'piece-selection' &&
+      state.communityPool.length < PhaseController.getCommunityPoolQuota(state);
+  }
+
+  /**
+   * Check if every player has finished the current setup phase
+   */
+  static isPhaseComplete(state: GameState): boolean {
+    if (!PhaseController.isSetupPhase(state.phase)) {
+      return false;
+    }
+
+    return state.players.every(player => !PhaseController.hasPlayerRemainingWork(state, player.id));
+  }
+
+  /**
+   * Get players sorted by turn order
+   */
+  static getPlayersInTurnOrder(state: GameState): Player[] {
+    return [...state.players].sort((a, b) => a.turnOrder - b.turnOrder);
+  }
+
+  /**
+   * Find the next player in turn order after the given player who still has
+   * work to do in the current phase (wraps around, may return the same player)
+   */
+  static getNextPlayerWithWork(state: GameState, afterPlayerId: string | null): string | null {
+    const players = PhaseController.getPlayersInTurnOrder(state);
+    const startIndex = players.findIndex(p => p.id === afterPlayerId);
+
+    for (let offset = 1; offset <= players.length; offset++) {
+      const player = players[(startIndex + offset) % players.length];
+      if (PhaseController.hasPlayerRemainingWork(state, player.id)) {
+        return player.id;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Move the game into the given phase, skipping any setup phase that is
+   * already complete (for example when landsPerPlayer is 0)
+   */
+  static enterPhase(state: GameState, phase: GamePhase): GameState {
+    let nextState: GameState = { ...state, phase };
+
+    while (PhaseController.isPhaseComplete(nextState)) {
+      nextState = { ...nextState, phase: PhaseController.getNextPhase(nextState.phase) };
+    }
+
+    const firstPlayerId = PhaseController.getPlayersInTurnOrder(nextState)[0]?.id ?? null;
+
+    if (nextState.phase === 'battle') {
+      return { ...nextState, currentPlayerId: firstPlayerId };
+    }
+
+    // Find the first player in turn order who has work to do in this phase
+    const lastPlayerId = PhaseController.getPlayersInTurnOrder(nextState).at(-1)?.id ?? null;
+    return {
+      ...nextState,
+      currentPlayerId: PhaseController.getNextPlayerWithWork(nextState, lastPlayerId) ?? firstPlayerId
+    };
+  }
+
+  /**
+   * Auto end turn rule: pass the turn to the next player in turn order once
+   * the acting player has made their main action in battle. Does nothing if
+   * the rule is off or the turn already passed.
+   */
+  static endTurnAfterMainAction(state: GameState, actingPlayerId: string): GameState {
+    if (!state.config.autoEndTurn || state.phase !== 'battle' || state.currentPlayerId !== actingPlayerId) {
+      return state;
+    }
+
+    const players = PhaseController.getPlayersInTurnOrder(state);
+    const currentIndex = players.findIndex(p => p.id === actingPlayerId);
+
+    return {
+      ...state,
+      currentPlayerId: players[(currentIndex + 1) % players.length]?.id ?? null
+    };
+  }
+
+  /**
+   * Advance phase and turn after an action has been applied.
+   * During setup phases each completed placement or selection passes the turn
+   * to the next player who still has work to do; when nobody has any left the
+   * game moves on to the next phase.
+   */
+  static advance(previousState: GameState, state: GameState, actingPlayerId: string): GameState {
+    // Entering the first setup phase (start-game)
+    if (previousState.phase === 'setup' && PhaseController.isSetupPhase(state.phase)) {
+      return PhaseController.enterPhase(state, state.phase);
+    }
+
+    if (!PhaseController.isSetupPhase(state.phase) || state.phase !== previousState.phase) {
+      return state;
+    }
+
+    if (PhaseController.isPhaseComplete(state)) {
+      return PhaseController.enterPhase(state, PhaseController.getNextPhase(state.phase));
+    }
+
+    // Only pass the turn when the acting player actually made progress
+    const madeProgress =
+      PhaseController.getPlayerProgress(state, actingPlayerId) > PhaseController.getPlayerProgress(previousState, actingPlayerId) ||
+      state.communityPool.length > previousState.communityPool.length;
+
+    if (!madeProgress) {
+      return state;
+    }
+
+    return {
+      ...state,
+      currentPlayerId: PhaseController.getNextPlayerWithWork(state, actingPlayerId)
+    };
+  }
+}
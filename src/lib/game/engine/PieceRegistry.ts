@@ -0,0 +1,165 @@
+import type { FoundationLayer } from '../board/Board';
+import type { MovementPattern } from '../board/MovementPatterns';
+import { STANDARD_PIECES } from './StandardPieces';
+
+/**
+ * Board layer a piece occupies: foundation pieces (turtles) carry other
+ * pieces like land does, everything else stands on the piece layer
+ */
+export type PieceLayer = 'foundation' | 'piece';
+
+/**
+ * Everything the engine needs to know about a piece type.
+ * Piece modules declare one and register it, so adding a piece never
+ * requires editing core files.
+ */
+export interface PieceDefinition {
+  /** Unique piece type id, stored in Piece.type */
+  type: string;
+
+  /** Name shown to players */
+  displayName: string;
+
+  /** Board layer the piece occupies */
+  layer: PieceLayer;
+
+  /** Foundations the piece may be placed on ('water' means no foundation) */
+  placement: FoundationLayer[];
+
+  /** Initial piece.state for new pieces of this type */
+  defaultState?: Record<string, unknown>;
+
+  /** Action types pieces of this type can perform */
+  actionTypes?: string[];
+
+  /**
+   * How the piece moves and captures with move-piece and capture-piece.
+   * Without patterns the core actions fall back to one orthogonal step.
+   */
+  movement?: MovementPattern[];
+
+  /** Whether the piece moves onto the square of what it captures */
+  capturesByLanding?: boolean;
+
+  /** Human-readable description for debugging */
+  description?: string;
+}
+
+/**
+ * Registry of piece types for a ruleset.
+ * The default registry holds the standard pieces and belongs to the default
+ * action registry; other action registries start from a copy of it.
+ */
+export class PieceRegistry {
+  static readonly default = new PieceRegistry(STANDARD_PIECES);
+
+  private definitions = new Map<string, PieceDefinition>();
+
+  /**
+   * Create a registry, optionally pre-filled with piece definitions
+   */
+  constructor(definitions: PieceDefinition[] = []) {
+    for (const definition of definitions) {
+      this.definitions.set(definition.type, definition);
+    }
+  }
+
+  /**
+   * Create an independent copy of this registry
+   */
+  clone(): PieceRegistry {
+    return new PieceRegistry(Array.from(this.definitions.values()));
+  }
+
+  /**
+   * Register a piece type, replacing any definition with the same type id
+   */
+  register(definition: PieceDefinition): void {
+    this.definitions.set(definition.type, definition);
+  }
+
+  /**
+   * Remove a piece type, returning whether it was registered
+   */
+  unregister(type: string): boolean {
+    return this.definitions.delete(type);
+  }
+
+  /**
+   * Get the definition of a piece type
+   */
+  get(type: string): PieceDefinition | undefined {
+    return this.definitions.get(type);
+  }
+
+  /**
+   * Check if a piece type is registered
+   */
+  has(type: string): boolean {
+    return this.definitions.has(type);
+  }
+
+  /**
+   * Get all registered piece type ids
+   */
+  getTypes(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  /**
+   * Get the layer of a piece type (unknown types stand on the piece layer)
+   */
+  getLayer(type: string): PieceLayer {
+    return this.definitions.get(type)?.layer ?? 'piece';
+  }
+
+  /**
+   * Check if pieces of a type act as a foundation for other pieces
+   */
+  isFoundation(type: string): boolean {
+    return this.getLayer(type) === 'foundation';
+  }
+
+  /**
+   * Check if a piece type may be placed on a foundation
+   */
+  canBePlacedOn(type: string, foundation: FoundationLayer): boolean {
+    return this.definitions.get(type)?.placement.includes(foundation) ?? false;
+  }
+
+  /**
+   * Get the name shown to players (the type id for unknown types)
+   */
+  getDisplayName(type: string): string {
+    return this.definitions.get(type)?.displayName ?? type;
+  }
+
+  /**
+   * Create the initial state for a new piece, or undefined if the type has none
+   */
+  createDefaultState(type: string): Record<string, unknown> | undefined {
+    const defaultState = this.definitions.get(type)?.defaultState;
+    return defaultState ? structuredClone(defaultState) : undefined;
+  }
+
+  /**
+   * Get the action types pieces of a type can perform
+   */
+  getActionTypes(type: string): string[] {
+    return this.definitions.get(type)?.actionTypes ?? [];
+  }
+
+  /**
+   * Get the movement patterns of a piece type, if it declares any
+   */
+  getMovement(type: string): MovementPattern[] | undefined {
+    return this.definitions.get(type)?.movement;
+  }
+
+  /**
+   * Check if pieces of a type move onto the square of what they capture
+   */
+  capturesByLanding(type: string): boolean {
+    return this.definitions.get(type)?.capturesByLanding ?? false;
+  }
+}
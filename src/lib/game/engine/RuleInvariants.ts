@@ -0,0 +1,43 @@
+import type { GameState } from './GameState';
+import type { BaseGameAction } from './BaseActions';
+import type { RuleInvariant, ValidationContext } from './ActionRegistry';
+import { PieceRegistry } from './PieceRegistry';
+import { Board } from '../board/Board';
+import { PathfindingUtils } from '../board/PathfindingUtils';
+
+/**
+ * Check if all citadels in a state are connected through land or turtles
+ */
+function areCitadelsConnected(state: GameState, pieces: PieceRegistry = PieceRegistry.default): boolean {
+  const board = new Board(state.lands, state.pieces, state.citadels, pieces);
+  return PathfindingUtils.areCitadelsConnected(
+    state.citadels.map(citadel => citadel.position),
+    board
+  );
+}
+
+/**
+ * Core rule: no action may disconnect citadels that were connected.
+ * Citadels that aren't connected yet (e.g. during setup) don't block anything.
+ */
+const citadelsConnected: RuleInvariant = {
+  id: 'citadels-connected',
+  description: 'Citadels must stay orthogonally connected through land or turtles',
+  check: (nextState: GameState, previousState: GameState, _action: BaseGameAction, context: ValidationContext): true | string => {
+    const pieces = context.registry.pieces;
+    if (!areCitadelsConnected(previousState, pieces) || areCitadelsConnected(nextState, pieces)) {
+      return true;
+    }
+
+    return 'Action would disconnect the citadels';
+  }
+};
+
+/**
+ * Built-in invariants. Game modes register the ones they use on their
+ * action registry, alongside any invariants of their own.
+ */
+export const RuleInvariants = {
+  areCitadelsConnected,
+  citadelsConnected
+};
@@ -0,0 +1,57 @@
+/**
+ * How deep simulations may nest by default
+ */
+export const DEFAULT_MAX_SIMULATION_DEPTH = 3;
+
+/**
+ * Tracks "what if" simulations started while checking or applying actions.
+ * A validator that simulates a move runs the simulated action's validator,
+ * which may simulate again - the depth limit keeps that from recursing forever.
+ */
+export interface SimulationContext {
+  /** How many simulations deep we are (0 for the real game) */
+  readonly depth: number;
+  /** Deepest nesting allowed; simulations beyond it are refused */
+  readonly maxDepth: number;
+  /** True inside a simulation - validators can skip expensive recursive checks */
+  readonly isSimulating: boolean;
+}
+
+/**
+ * Utilities for creating and nesting simulation contexts
+ */
+export const SimulationContextUtils = {
+  /**
+   * Create the context for the real game (not inside any simulation)
+   */
+  create(maxDepth: number = DEFAULT_MAX_SIMULATION_DEPTH): SimulationContext {
+    return {
+      depth: 0,
+      maxDepth: Math.max(0, maxDepth),
+      isSimulating: false
+    };
+  },
+
+  /**
+   * Check if another simulation may be started from this context
+   */
+  canNest(context: SimulationContext): boolean {
+    return context.depth < context.maxDepth;
+  },
+
+  /**
+   * Get the context for a simulation started from this context,
+   * or null if the depth limit has been reached
+   */
+  enter(context: SimulationContext): SimulationContext | null {
+    if (!SimulationContextUtils.canNest(context)) {
+      return null;
+    }
+
+    return {
+      depth: context.depth + 1,
+      maxDepth: context.maxDepth,
+      isSimulating: true
+    };
+  }
+};
@@ -0,0 +1,67 @@
+import type { PieceDefinition } from './PieceRegistry';
+
+/**
+ * Board layer and placement of the standard pieces, so every ruleset knows them.
+ * Piece modules (like SoldierPiece) replace these with their full definition,
+ * movement included, when they are loaded.
+ */
+export const STANDARD_PIECES: PieceDefinition[] = [
+  {
+    type: 'soldier',
+    displayName: 'Soldier',
+    layer: 'piece',
+    placement: ['land', 'turtle'],
+    actionTypes: ['move-piece', 'capture-piece']
+  },
+  {
+    type: 'bird',
+    displayName: 'Bird',
+    layer: 'piece',
+    placement: ['land', 'turtle'],
+    actionTypes: ['move-piece', 'capture-piece']
+  },
+  {
+    type: 'rabbit',
+    displayName: 'Rabbit',
+    layer: 'piece',
+    placement: ['land', 'turtle'],
+    actionTypes: ['move-piece', 'capture-piece']
+  },
+  {
+    type: 'turtle',
+    displayName: 'Turtle',
+    layer: 'foundation',
+    placement: ['water'],
+    defaultState: {},
+    actionTypes: ['move-piece', 'capture-piece'],
+    description: 'Swims in water and carries a piece on its back'
+  },
+  {
+    type: 'builder',
+    displayName: 'Builder',
+    layer: 'piece',
+    placement: ['land', 'turtle'],
+    actionTypes: ['move-piece']
+  },
+  {
+    type: 'bomber',
+    displayName: 'Bomber',
+    layer: 'piece',
+    placement: ['land', 'turtle'],
+    actionTypes: ['move-piece', 'capture-piece']
+  },
+  {
+    type: 'necromancer',
+    displayName: 'Necromancer',
+    layer: 'piece',
+    placement: ['land', 'turtle'],
+    actionTypes: ['move-piece', 'capture-piece']
+  },
+  {
+    type: 'assassin',
+    displayName: 'Assassin',
+    layer: 'piece',
+    placement: ['land', 'turtle'],
+    actionTypes: ['move-piece', 'capture-piece']
+  }
+];
@@ -0,0 +1,36 @@
+import type { GameState, Citadel } from './GameState';
+import type { WinCondition } from './ActionRegistry';
+
+/**
+ * Get the IDs of players who still have at least one citadel on the board
+ */
+function getPlayersWithCitadels(state: GameState): string[] {
+  const owners = new Set(state.citadels.map((citadel: Citadel) => citadel.ownerId));
+  return state.players.filter(player => owners.has(player.id)).map(player => player.id);
+}
+
+/**
+ * Standard rule: once battle has started, the last player with a citadel wins
+ */
+const lastCitadelStanding: WinCondition = {
+  id: 'last-citadel-standing',
+  description: 'The last player with a citadel wins',
+  gameModes: ['standard'],
+  check: (state: GameState): string | null => {
+    if (state.phase !== 'battle' || state.players.length < 2) {
+      return null;
+    }
+
+    const survivors = getPlayersWithCitadels(state);
+    return survivors.length === 1 ? survivors[0] : null;
+  }
+};
+
+/**
+ * Built-in win conditions. Game modes register the ones they use on their
+ * action registry, alongside any conditions of their own.
+ */
+export const WinConditions = {
+  getPlayersWithCitadels,
+  lastCitadelStanding
+};
@@ -59,8 +59,8 @@ export function startLandPlacementExample(gameDoc: GameDocument) {
   const startAction = ActionFactory.createStartGameAction(hostId);
   
   // Players place their lands
-  const aliceLandAction = ActionFactory.createPlaceLandAction(hostId, 0, 0);
-  const bobLandAction = ActionFactory.createPlaceLandAction('player_bob_456', 2, 0);
+  const aliceLandAction = ActionFactory.createPlaceLandAction(hostId, 0, 0, 'pooled_land_1');
+  const bobLandAction = ActionFactory.createPlaceLandAction('player_bob_456', 2, 0, 'pooled_land_2');
   
   // Add actions to history
   gameDoc.actions.push(startAction, aliceLandAction, bobLandAction);
@@ -0,0 +1,30 @@
+import { ActionRegistry } from '../engine/ActionRegistry';
+import { SoldierPiece } from './basic/Soldier';
+import { BirdPiece } from './basic/Bird';
+import { RabbitPiece } from './basic/Rabbit';
+import { TurtlePiece } from './complex/Turtle';
+import { BuilderPiece } from './complex/Builder';
+import { BomberPiece } from './complex/Bomber';
+import { NecromancerPiece } from './complex/Necromancer';
+import { AssassinPiece } from './complex/Assassin';
+
+/**
+ * The piece modules behind STANDARD_PIECES. Their movement patterns and piece
+ * actions only exist once they are registered, so the engine registers them
+ * all in one place instead of relying on which modules happen to be imported.
+ */
+export class StandardPieceModules {
+  /**
+   * Register the movement and actions of every standard piece
+   */
+  static registerAll(registry: ActionRegistry = ActionRegistry.default): void {
+    SoldierPiece.registerActions(registry);
+    BirdPiece.registerActions(registry);
+    RabbitPiece.registerActions(registry);
+    TurtlePiece.registerActions(registry);
+    BuilderPiece.registerActions(registry);
+    BomberPiece.registerActions(registry);
+    NecromancerPiece.registerActions(registry);
+    AssassinPiece.registerActions(registry);
+  }
+}
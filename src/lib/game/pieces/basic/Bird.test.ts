@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { BIRD_PIECE } from './Bird';
+import { ActionRegistry } from '../../engine/ActionRegistry';
+import { CoreActionHandlers } from '../../engine/CoreActionHandlers';
+import { GameStateDerivation } from '../../engine/ModularGameStateDerivation';
+import { ActionUtils } from '../../engine/BaseActions';
+import type { Land, Piece } from '../../engine/GameState';
+import { ALICE, BOB, createPiece, createBattleState, getMoveTargets, getCaptureTargets } from '../../tests/PieceTestUtils';
+
+/**
+ * Row 0 from x = 0 to 6 with water at (3,0), and column 0 down to y = 3
+ */
+const LANDS: Land[] = [
+  ...[0, 1, 2, 4, 5, 6].map(x => ({ id: `l${x}_0`, position: { x, y: 0 }, ownerId: ALICE })),
+  ...[1, 2, 3].map(y => ({ id: `l0_${y}`, position: { x: 0, y }, ownerId: ALICE }))
+];
+
+const piece = (id: string, ownerId: string, x: number, y: number, type = 'bird'): Piece =>
+  createPiece(id, ownerId, x, y, type);
+
+describe('BirdPiece', () => {
+  beforeEach(() => {
+    ActionRegistry.clear();
+    CoreActionHandlers.registerAll();
+  });
+
+  it('registers its movement with the piece registry', () => {
+    expect(ActionRegistry.default.pieces.get('bird')).toBe(BIRD_PIECE);
+  });
+
+  describe('Movement', () => {
+    it('flies any distance horizontally or vertically, over water', () => {
+      const state = createBattleState(LANDS, [piece('b1', ALICE, 0, 0)]);
+
+      expect(getMoveTargets(state, 'b1')).toEqual(['0,1', '0,2', '0,3', '1,0', '2,0', '4,0', '5,0', '6,0']);
+    });
+
+    it('does not land in water or move diagonally', () => {
+      const state = createBattleState(LANDS, [piece('b1', ALICE, 0, 0)]);
+
+      expect(GameStateDerivation.validateAction(state, ActionUtils.createMoveAction(ALICE, 'b1', 0, 0, 3, 0)))
+        .toBe('Bird cannot move to (3, 0)');
+      expect(GameStateDerivation.validateAction(state, ActionUtils.createMoveAction(ALICE, 'b1', 0, 0, 1, 1)))
+        .toBe('Bird cannot move to (1, 1)');
+    });
+
+    it('is blocked by pieces in its way', () => {
+      const state = createBattleState(LANDS, [piece('b1', ALICE, 0, 0), piece('s1', ALICE, 2, 0, 'soldier')]);
+
+      expect(getMoveTargets(state, 'b1')).toEqual(['0,1', '0,2', '0,3', '1,0']);
+      expect(GameStateDerivation.validateAction(state, ActionUtils.createMoveAction(ALICE, 'b1', 0, 0, 5, 0)))
+        .toBe('Bird cannot move to (5, 0)');
+    });
+
+    it('applies a long move', () => {
+      const state = createBattleState(LANDS, [piece('b1', ALICE, 0, 0)]);
+      const next = GameStateDerivation.applyAction(state, ActionUtils.createMoveAction(ALICE, 'b1', 0, 0, 6, 0));
+
+      expect(next.pieces[0].position).toEqual({ x: 6, y: 0 });
+    });
+  });
+
+  describe('Capture', () => {
+    it('captures the first enemy in its path by landing on it', () => {
+      const state = createBattleState(LANDS, [piece('b1', ALICE, 0, 0), piece('e1', BOB, 5, 0), piece('e2', BOB, 6, 0)]);
+
+      expect(getCaptureTargets(state, 'b1')).toEqual(['e1']);
+
+      const next = GameStateDerivation.applyAction(state, ActionUtils.createCaptureAction(ALICE, 'b1', 'e1', 5, 0));
+      expect(next.pieces.find(p => p.id === 'b1')!.position).toEqual({ x: 5, y: 0 });
+      expect(next.graveyard.map(p => p.id)).toEqual(['e1']);
+    });
+
+    it('cannot capture past a blocking piece', () => {
+      const state = createBattleState(LANDS, [piece('b1', ALICE, 0, 0), piece('e1', BOB, 0, 1), piece('e2', BOB, 0, 3)]);
+
+      expect(getCaptureTargets(state, 'b1')).toEqual(['e1']);
+      expect(GameStateDerivation.validateAction(state, ActionUtils.createCaptureAction(ALICE, 'b1', 'e2', 0, 3)))
+        .toBe('Bird cannot reach that target');
+    });
+
+    it('captures a citadel at the end of its flight', () => {
+      const state = createBattleState(LANDS, [piece('b1', ALICE, 0, 3)], [{ id: 'c2', position: { x: 0, y: 0 }, ownerId: BOB }]);
+
+      expect(getCaptureTargets(state, 'b1')).toEqual(['c2']);
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { ActionRegistry } from '../../engine/ActionRegistry';
+import type { PieceDefinition } from '../../engine/PieceRegistry';
+import { MovementUtils } from '../../board/MovementPatterns';
+
+/**
+ * Bird piece type: flies any distance horizontally or vertically, over water
+ * but not over pieces, and captures the first piece in its way by landing on it.
+ * move-piece and capture-piece validate and generate its moves from `movement`.
+ */
+export const BIRD_PIECE: PieceDefinition = {
+  type: 'bird',
+  displayName: 'Bird',
+  layer: 'piece',
+  placement: ['land', 'turtle'],
+  actionTypes: ['move-piece', 'capture-piece'],
+  movement: [MovementUtils.slide('orthogonal', ['pieces'])],
+  capturesByLanding: true,
+  description: 'Moves any distance orthogonally and captures by landing'
+};
+
+/**
+ * Bird piece implementation
+ */
+export class BirdPiece {
+  /**
+   * Register the Bird piece type
+   */
+  static registerActions(registry: ActionRegistry = ActionRegistry.default): void {
+    registry.pieces.register(BIRD_PIECE);
+  }
+}
+
+// Auto-register when the piece is imported
+BirdPiece.registerActions();
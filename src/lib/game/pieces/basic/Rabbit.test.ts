@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { RABBIT_PIECE } from './Rabbit';
+import { ActionRegistry } from '../../engine/ActionRegistry';
+import { CoreActionHandlers } from '../../engine/CoreActionHandlers';
+import { GameStateDerivation } from '../../engine/ModularGameStateDerivation';
+import { ActionUtils } from '../../engine/BaseActions';
+import type { Land, Piece } from '../../engine/GameState';
+import { ALICE, BOB, createPiece, createBattleState, getMoveTargets, getCaptureTargets } from '../../tests/PieceTestUtils';
+
+/**
+ * Row 0 from x = 0 to 4 with water at (3,0), and (2,1)
+ */
+const LANDS: Land[] = [
+  ...[0, 1, 2, 4].map(x => ({ id: `l${x}_0`, position: { x, y: 0 }, ownerId: ALICE })),
+  { id: 'l2_1', position: { x: 2, y: 1 }, ownerId: ALICE }
+];
+
+const piece = (id: string, ownerId: string, x: number, y: number, type = 'rabbit'): Piece =>
+  createPiece(id, ownerId, x, y, type);
+
+describe('RabbitPiece', () => {
+  beforeEach(() => {
+    ActionRegistry.clear();
+    CoreActionHandlers.registerAll();
+  });
+
+  it('registers its movement with the piece registry', () => {
+    expect(ActionRegistry.default.pieces.get('rabbit')).toBe(RABBIT_PIECE);
+  });
+
+  describe('Movement', () => {
+    it('steps one square or jumps two', () => {
+      const state = createBattleState(LANDS, [piece('r1', ALICE, 0, 0)]);
+
+      expect(getMoveTargets(state, 'r1')).toEqual(['1,0', '2,0']);
+    });
+
+    it('jumps over water and over pieces', () => {
+      const state = createBattleState(LANDS, [piece('r1', ALICE, 2, 0), piece('s1', ALICE, 1, 0, 'soldier')]);
+
+      expect(getMoveTargets(state, 'r1')).toEqual(['0,0', '2,1', '4,0']);
+    });
+
+    it('does not land in water or move diagonally', () => {
+      const state = createBattleState(LANDS, [piece('r1', ALICE, 1, 0)]);
+
+      expect(GameStateDerivation.validateAction(state, ActionUtils.createMoveAction(ALICE, 'r1', 1, 0, 3, 0)))
+        .toBe('Rabbit cannot move to (3, 0)');
+      expect(GameStateDerivation.validateAction(state, ActionUtils.createMoveAction(ALICE, 'r1', 1, 0, 2, 1)))
+        .toBe('Rabbit cannot move to (2, 1)');
+    });
+  });
+
+  describe('Capture', () => {
+    it('captures by jumping onto a piece', () => {
+      const state = createBattleState(LANDS, [piece('r1', ALICE, 2, 0), piece('e1', BOB, 4, 0)]);
+      const next = GameStateDerivation.applyAction(state, ActionUtils.createCaptureAction(ALICE, 'r1', 'e1', 4, 0));
+
+      expect(next.pieces).toEqual([piece('r1', ALICE, 4, 0)]);
+      expect(next.graveyard.map(p => p.id)).toEqual(['e1']);
+    });
+
+    it('does not capture with a one-square step', () => {
+      const state = createBattleState(LANDS, [piece('r1', ALICE, 0, 0), piece('e1', BOB, 1, 0)]);
+
+      expect(getCaptureTargets(state, 'r1')).toEqual([]);
+      expect(getMoveTargets(state, 'r1')).toEqual(['2,0']);
+      expect(GameStateDerivation.validateAction(state, ActionUtils.createCaptureAction(ALICE, 'r1', 'e1', 1, 0)))
+        .toBe('Rabbit cannot reach that target');
+    });
+
+    it('jumps over one enemy to capture another', () => {
+      const state = createBattleState(LANDS, [piece('r1', ALICE, 0, 0), piece('e1', BOB, 1, 0), piece('e2', BOB, 2, 0)]);
+
+      expect(getCaptureTargets(state, 'r1')).toEqual(['e2']);
+    });
+
+    it('captures a citadel by jumping onto it', () => {
+      const citadels = [
+        { id: 'c1', position: { x: 2, y: 1 }, ownerId: ALICE },
+        { id: 'c2', position: { x: 4, y: 0 }, ownerId: BOB }
+      ];
+      const state = createBattleState(LANDS, [piece('r1', ALICE, 2, 0)], citadels);
+
+      expect(getCaptureTargets(state, 'r1')).toEqual(['c2']);
+
+      const next = GameStateDerivation.applyAction(state, ActionUtils.createCaptureAction(ALICE, 'r1', 'c2', 4, 0));
+      expect(next.winnerId).toBe(ALICE);
+    });
+
+    it('does not capture an adjacent citadel', () => {
+      const state = createBattleState(LANDS, [piece('r1', ALICE, 0, 0)], [{ id: 'c2', position: { x: 1, y: 0 }, ownerId: BOB }]);
+
+      expect(getCaptureTargets(state, 'r1')).toEqual([]);
+    });
+  });
+});
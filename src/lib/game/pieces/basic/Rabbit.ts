@@ -0,0 +1,37 @@
+import { ActionRegistry } from '../../engine/ActionRegistry';
+import type { PieceDefinition } from '../../engine/PieceRegistry';
+import { MovementUtils } from '../../board/MovementPatterns';
+
+/**
+ * Rabbit piece type: steps one square or jumps two, over pieces and water.
+ * Only the jump captures, and it can take citadels.
+ * move-piece and capture-piece validate and generate its moves from `movement`.
+ */
+export const RABBIT_PIECE: PieceDefinition = {
+  type: 'rabbit',
+  displayName: 'Rabbit',
+  layer: 'piece',
+  placement: ['land', 'turtle'],
+  actionTypes: ['move-piece', 'capture-piece'],
+  movement: [
+    MovementUtils.moveOnly(MovementUtils.step('orthogonal', 1)),
+    MovementUtils.jump(2, true, 'orthogonal')
+  ],
+  capturesByLanding: true,
+  description: 'Moves one square or jumps two, capturing only by jumping'
+};
+
+/**
+ * Rabbit piece implementation
+ */
+export class RabbitPiece {
+  /**
+   * Register the Rabbit piece type
+   */
+  static registerActions(registry: ActionRegistry = ActionRegistry.default): void {
+    registry.pieces.register(RABBIT_PIECE);
+  }
+}
+
+// Auto-register when the piece is imported
+RabbitPiece.registerActions();
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { SOLDIER_PIECE } from './Soldier';
+import { ActionRegistry } from '../../engine/ActionRegistry';
+import { CoreActionHandlers } from '../../engine/CoreActionHandlers';
+import { GameStateDerivation } from '../../engine/ModularGameStateDerivation';
+import { ActionUtils } from '../../engine/BaseActions';
+import type { Land, Piece } from '../../engine/GameState';
+import { ALICE, BOB, createPiece, createBattleState, getMoveTargets, getCaptureTargets } from '../../tests/PieceTestUtils';
+
+/**
+ * 3x3 island from (0,0) to (2,2) with the soldier in the middle
+ */
+const ISLAND: Land[] = [0, 1, 2].flatMap(x => [0, 1, 2].map(y => ({
+  id: `l${x}_${y}`,
+  position: { x, y },
+  ownerId: ALICE
+})));
+
+const piece = (id: string, ownerId: string, x: number, y: number, type = 'soldier'): Piece =>
+  createPiece(id, ownerId, x, y, type);
+
+describe('SoldierPiece', () => {
+  beforeEach(() => {
+    ActionRegistry.clear();
+    CoreActionHandlers.registerAll();
+  });
+
+  it('registers its movement with the piece registry', () => {
+    expect(ActionRegistry.default.pieces.get('soldier')).toBe(SOLDIER_PIECE);
+  });
+
+  describe('Movement', () => {
+    it('moves one square in all eight directions', () => {
+      const state = createBattleState(ISLAND, [piece('s1', ALICE, 1, 1)]);
+
+      expect(getMoveTargets(state, 's1')).toEqual(['0,0', '0,1', '0,2', '1,0', '1,2', '2,0', '2,1', '2,2']);
+    });
+
+    it('does not move two squares', () => {
+      const state = createBattleState(ISLAND, [piece('s1', ALICE, 0, 0)]);
+      const action = ActionUtils.createMoveAction(ALICE, 's1', 0, 0, 2, 0);
+
+      expect(GameStateDerivation.validateAction(state, action)).toBe('Soldier cannot move to (2, 0)');
+    });
+
+    it('does not move into water or onto friendly pieces', () => {
+      const state = createBattleState(ISLAND, [piece('s1', ALICE, 2, 1), piece('s2', ALICE, 1, 1)]);
+
+      expect(getMoveTargets(state, 's1')).toEqual(['1,0', '1,2', '2,0', '2,2']);
+      expect(GameStateDerivation.validateAction(state, ActionUtils.createMoveAction(ALICE, 's1', 2, 1, 3, 1)))
+        .toBe('Soldier cannot move to (3, 1)');
+    });
+
+    it('steps onto a turtle\'s back', () => {
+      const turtle = piece('t1', ALICE, 3, 1, 'turtle');
+      const state = createBattleState(ISLAND, [piece('s1', ALICE, 2, 1), turtle]);
+
+      expect(getMoveTargets(state, 's1')).toContain('3,1');
+    });
+  });
+
+  describe('Capture', () => {
+    it('captures an adjacent enemy by landing on it', () => {
+      const state = createBattleState(ISLAND, [piece('s1', ALICE, 1, 1), piece('e1', BOB, 2, 2)]);
+      const next = GameStateDerivation.applyAction(state, ActionUtils.createCaptureAction(ALICE, 's1', 'e1', 2, 2));
+
+      expect(next.pieces).toEqual([piece('s1', ALICE, 2, 2)]);
+      expect(next.graveyard.map(p => p.id)).toEqual(['e1']);
+    });
+
+    it('cannot move onto an enemy without capturing it', () => {
+      const state = createBattleState(ISLAND, [piece('s1', ALICE, 1, 1), piece('e1', BOB, 2, 1)]);
+
+      expect(getMoveTargets(state, 's1')).not.toContain('2,1');
+      expect(getCaptureTargets(state, 's1')).toEqual(['e1']);
+    });
+
+    it('cannot capture pieces out of reach or at the wrong square', () => {
+      const state = createBattleState(ISLAND, [piece('s1', ALICE, 0, 0), piece('e1', BOB, 2, 2)]);
+
+      expect(getCaptureTargets(state, 's1')).toEqual([]);
+      expect(GameStateDerivation.validateAction(state, ActionUtils.createCaptureAction(ALICE, 's1', 'e1', 2, 2)))
+        .toBe('Soldier cannot reach that target');
+      expect(GameStateDerivation.validateAction(state, ActionUtils.createCaptureAction(ALICE, 's1', 'e1', 1, 1)))
+        .toBe('Target is not at the capture position');
+    });
+
+    it('does not capture friendly pieces', () => {
+      const state = createBattleState(ISLAND, [piece('s1', ALICE, 1, 1), piece('s2', ALICE, 1, 2)]);
+
+      expect(getCaptureTargets(state, 's1')).toEqual([]);
+      expect(GameStateDerivation.validateAction(state, ActionUtils.createCaptureAction(ALICE, 's1', 's2', 1, 2)))
+        .toBe('Cannot capture your own piece');
+    });
+
+    it('captures an adjacent enemy citadel and wins', () => {
+      const citadels = [
+        { id: 'c1', position: { x: 0, y: 0 }, ownerId: ALICE },
+        { id: 'c2', position: { x: 2, y: 2 }, ownerId: BOB }
+      ];
+      const state = createBattleState(ISLAND, [piece('s1', ALICE, 1, 1)], citadels);
+
+      expect(getCaptureTargets(state, 's1')).toEqual(['c2']);
+
+      const next = GameStateDerivation.applyAction(state, ActionUtils.createCaptureAction(ALICE, 's1', 'c2', 2, 2));
+      expect(next.citadels.map(c => c.id)).toEqual(['c1']);
+      expect(next.pieces[0].position).toEqual({ x: 2, y: 2 });
+      expect(next.winnerId).toBe(ALICE);
+    });
+  });
+});
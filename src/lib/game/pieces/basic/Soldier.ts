@@ -0,0 +1,33 @@
+import { ActionRegistry } from '../../engine/ActionRegistry';
+import type { PieceDefinition } from '../../engine/PieceRegistry';
+import { MovementUtils } from '../../board/MovementPatterns';
+
+/**
+ * Soldier piece type: one square in any direction, capturing what it lands on.
+ * move-piece and capture-piece validate and generate its moves from `movement`.
+ */
+export const SOLDIER_PIECE: PieceDefinition = {
+  type: 'soldier',
+  displayName: 'Soldier',
+  layer: 'piece',
+  placement: ['land', 'turtle'],
+  actionTypes: ['move-piece', 'capture-piece'],
+  movement: [MovementUtils.step('any', 1)],
+  capturesByLanding: true,
+  description: 'Moves one square orthogonally or diagonally and captures by landing'
+};
+
+/**
+ * Soldier piece implementation
+ */
+export class SoldierPiece {
+  /**
+   * Register the Soldier piece type
+   */
+  static registerActions(registry: ActionRegistry = ActionRegistry.default): void {
+    registry.pieces.register(SOLDIER_PIECE);
+  }
+}
+
+// Auto-register when the piece is imported
+SoldierPiece.registerActions();
@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { AssassinPiece, AssassinActionFactory, ASSASSIN_PIECE, type AssassinMoveAction } from './Assassin';
+import { ActionRegistry } from '../../engine/ActionRegistry';
+import { CoreActionHandlers } from '../../engine/CoreActionHandlers';
+import { GameFactory, ActionFactory } from '../../engine/GameFactory';
+import { GameStateDerivation } from '../../engine/ModularGameStateDerivation';
+import { ActionUtils, type MovePieceAction } from '../../engine/BaseActions';
+import { CoordinateUtils } from '../../board/Coordinate';
+import type { GameState, Land, Piece } from '../../engine/GameState';
+
+const ALICE = 'player_alice';
+const BOB = 'player_bob';
+
+/**
+ * Land everywhere from (0,0) to (5,3)
+ */
+const LANDS: Land[] = Array.from({ length: 24 }, (_, i) => ({
+  id: `l${i}`,
+  position: { x: i % 6, y: Math.floor(i / 6) },
+  ownerId: ALICE
+}));
+
+const piece = (id: string, ownerId: string, x: number, y: number, type = 'soldier'): Piece =>
+  ({ id, type, ownerId, position: { x, y } });
+
+const assassin = (x: number, y: number, targetId: string | null = null): Piece =>
+  ({ ...piece('a1', ALICE, x, y, 'assassin'), state: { targetId } });
+
+function createBattleState(pieces: Piece[]): GameState {
+  const initialState = GameFactory.createInitialGameState(ALICE);
+  const players = [
+    { ...GameFactory.createPlayer('Alice', true, 0), id: ALICE },
+    { ...GameFactory.createPlayer('Bob', false, 1), id: BOB }
+  ];
+
+  return {
+    ...GameFactory.createGameState(initialState, players),
+    phase: 'battle',
+    currentPlayerId: ALICE,
+    lands: LANDS,
+    pieces
+  };
+}
+
+const destinations = (state: GameState) => GameStateDerivation.getLegalActions(state, ALICE, 'a1')
+  .filter((a): a is MovePieceAction | AssassinMoveAction => a.type === 'move-piece' || a.type === 'assassin-move')
+  .map(a => CoordinateUtils.toKey(a.toPosition))
+  .sort();
+
+describe('AssassinPiece', () => {
+  beforeEach(() => {
+    ActionRegistry.clear();
+    CoreActionHandlers.registerAll();
+    AssassinPiece.registerActions();
+  });
+
+  it('registers with its actions and starts without a target', () => {
+    expect(ActionRegistry.default.pieces.get('assassin')).toBe(ASSASSIN_PIECE);
+    expect(ActionRegistry.isRegistered('assassin-move')).toBe(true);
+    expect(ActionRegistry.isRegistered('assassin-declare-target')).toBe(true);
+    expect(ActionRegistry.isRegistered('assassin-capture')).toBe(true);
+    expect(ActionRegistry.default.pieces.createDefaultState('assassin')).toEqual({ targetId: null });
+  });
+
+  describe('Movement', () => {
+    it('steps one square orthogonally when nothing is around', () => {
+      const state = createBattleState([assassin(2, 1, 'e1'), piece('e1', BOB, 5, 3)]);
+
+      expect(destinations(state)).toEqual(['1,1', '2,0', '2,2', '3,1']);
+    });
+
+    it('moves through a chain of pieces touching orthogonally or diagonally', () => {
+      // a1 (0,0) -> s1 (1,0) -> e1 (2,1) diagonally -> s2 (3,2) diagonally
+      const state = createBattleState([
+        assassin(0, 0, 'e1'),
+        piece('s1', ALICE, 1, 0),
+        piece('e1', BOB, 2, 1),
+        piece('s2', ALICE, 3, 2)
+      ]);
+
+      expect(destinations(state)).toEqual([
+        '0,1', '1,1', '1,2', '2,0', '2,2', '2,3', '3,0', '3,1', '3,3', '4,1', '4,2', '4,3'
+      ]);
+    });
+
+    it('counts pieces touching it diagonally as part of the chain, without capturing them', () => {
+      const state = createBattleState([assassin(0, 0, 'e1'), piece('e1', BOB, 1, 1)]);
+      const next = GameStateDerivation.applyAction(state, AssassinActionFactory.createMoveAction(ALICE, 'a1', 2, 2));
+
+      expect(destinations(state)).toEqual(['0,1', '0,2', '1,0', '1,2', '2,0', '2,1', '2,2']);
+      expect(next.pieces.map(p => p.id)).toEqual(['a1', 'e1']);
+      expect(GameStateDerivation.validateAction(state, AssassinActionFactory.createMoveAction(ALICE, 'a1', 3, 3)))
+        .toBe('Assassin cannot move to (3, 3)');
+    });
+
+    it('leaves every piece of the chain in place', () => {
+      const state = createBattleState([assassin(0, 0, 'e1'), piece('s1', ALICE, 1, 0), piece('e1', BOB, 2, 0)]);
+      const next = GameStateDerivation.applyAction(state, AssassinActionFactory.createMoveAction(ALICE, 'a1', 3, 1));
+
+      expect(next.pieces.map(p => [p.id, CoordinateUtils.toKey(p.position!)])).toEqual([
+        ['a1', '3,1'], ['s1', '1,0'], ['e1', '2,0']
+      ]);
+    });
+  });
+
+  describe('Target', () => {
+    it('declares an enemy piece on the board as its target', () => {
+      const state = createBattleState([assassin(0, 0), piece('s1', ALICE, 1, 0), piece('e1', BOB, 3, 3)]);
+      const declarations = GameStateDerivation.getLegalActions(state, ALICE, 'a1')
+        .filter(a => a.type === 'assassin-declare-target');
+
+      expect(declarations).toEqual([expect.objectContaining({ targetPieceId: 'e1' })]);
+      expect(GameStateDerivation.validateAction(state, AssassinActionFactory.createDeclareTargetAction(ALICE, 'a1', 's1')))
+        .toBe('Target must be an enemy piece on the board');
+
+      const next = GameStateDerivation.applyAction(state, AssassinActionFactory.createDeclareTargetAction(ALICE, 'a1', 'e1'));
+      expect(AssassinPiece.getTargetId(next.pieces.find(p => p.id === 'a1')!)).toBe('e1');
+      expect(GameStateDerivation.validateAction(next, AssassinActionFactory.createDeclareTargetAction(ALICE, 'a1', 'e1')))
+        .toBe('Assassin already has a target');
+    });
+
+    it('blocks ending the turn until a target is declared', () => {
+      const state = createBattleState([assassin(0, 0), piece('e1', BOB, 3, 3)]);
+
+      expect(GameStateDerivation.validateAction(state, ActionFactory.createEndTurnAction(ALICE)))
+        .toBe('Assassin must declare a target before ending the turn');
+      expect(GameStateDerivation.getLegalActions(state, ALICE).some(a => a.type === 'end-turn')).toBe(false);
+
+      const declared = GameStateDerivation.applyAction(state, AssassinActionFactory.createDeclareTargetAction(ALICE, 'a1', 'e1'));
+      expect(GameStateDerivation.validateAction(declared, ActionFactory.createEndTurnAction(ALICE))).toBe(true);
+    });
+
+    it('does not block the turn when there is no enemy piece to name', () => {
+      const state = createBattleState([assassin(0, 0)]);
+
+      expect(GameStateDerivation.validateAction(state, ActionFactory.createEndTurnAction(ALICE))).toBe(true);
+    });
+  });
+
+  describe('Capture', () => {
+    it('captures only its declared target', () => {
+      const state = createBattleState([assassin(0, 0, 'e2'), piece('e1', BOB, 1, 0), piece('e2', BOB, 0, 1)]);
+      const captures = GameStateDerivation.getLegalActions(state, ALICE, 'a1')
+        .filter(a => a.type === 'assassin-capture' || a.type === 'capture-piece');
+
+      expect(captures).toEqual([expect.objectContaining({ type: 'assassin-capture', targetPieceId: 'e2' })]);
+      expect(GameStateDerivation.validateAction(state, AssassinActionFactory.createCaptureAction(ALICE, 'a1', 'e1', 1, 0)))
+        .toBe('Assassin can only capture its declared target');
+      expect(GameStateDerivation.validateAction(state, ActionUtils.createCaptureAction(ALICE, 'a1', 'e1', 1, 0)))
+        .not.toBe(true);
+    });
+
+    it('reaches its target through a chain and must then declare a new one', () => {
+      const state = createBattleState([
+        assassin(0, 0, 'e1'),
+        piece('s1', ALICE, 1, 1),
+        piece('e1', BOB, 3, 1),
+        piece('e2', BOB, 5, 3)
+      ]);
+      const next = GameStateDerivation.applyAction(state, AssassinActionFactory.createCaptureAction(ALICE, 'a1', 'e1', 3, 1));
+      const a1 = next.pieces.find(p => p.id === 'a1')!;
+
+      expect(a1.position).toEqual({ x: 3, y: 1 });
+      expect(AssassinPiece.getTargetId(a1)).toBeNull();
+      expect(next.graveyard.map(p => p.id)).toEqual(['e1']);
+      expect(AssassinPiece.needsTarget(next, a1)).toBe(true);
+      expect(GameStateDerivation.validateAction(next, ActionFactory.createEndTurnAction(ALICE)))
+        .toBe('Assassin must declare a target before ending the turn');
+    });
+
+    it('cannot capture a target out of reach', () => {
+      const state = createBattleState([assassin(0, 0, 'e1'), piece('e1', BOB, 3, 3)]);
+
+      expect(GameStateDerivation.validateAction(state, AssassinActionFactory.createCaptureAction(ALICE, 'a1', 'e1', 3, 3)))
+        .toBe('Assassin cannot reach its target');
+    });
+  });
+
+  describe('Auto end turn', () => {
+    const autoEndTurn = (state: GameState): GameState => ({ ...state, config: { ...state.config, autoEndTurn: true } });
+
+    it('keeps the turn after placing an Assassin until it has a target, then passes it', () => {
+      const base = createBattleState([piece('e1', BOB, 5, 3)]);
+      const state = autoEndTurn({
+        ...base,
+        citadels: [{ id: 'c1', position: { x: 0, y: 0 }, ownerId: ALICE }, { id: 'c2', position: { x: 5, y: 0 }, ownerId: BOB }],
+        players: base.players.map(p =>
+          p.id === ALICE ? { ...p, personalStash: [{ id: 'a1', type: 'assassin', ownerId: ALICE, position: null, state: { targetId: null } }] } : p
+        )
+      });
+
+      const placed = GameStateDerivation.applyAction(state, ActionFactory.createPlacePieceAction(ALICE, 'a1', 1, 0));
+      expect(placed.currentPlayerId).toBe(ALICE);
+
+      const declared = GameStateDerivation.applyAction(placed, AssassinActionFactory.createDeclareTargetAction(ALICE, 'a1', 'e1'));
+      expect(declared.currentPlayerId).toBe(BOB);
+      expect(declared.pendingAutoEndTurn).toBeUndefined();
+    });
+
+    it('keeps the turn after a capture until a new target is declared', () => {
+      const state = autoEndTurn(createBattleState([assassin(0, 0, 'e1'), piece('e1', BOB, 1, 0), piece('e2', BOB, 5, 3)]));
+      const capture = AssassinActionFactory.createCaptureAction(ALICE, 'a1', 'e1', 1, 0);
+
+      const captured = GameStateDerivation.applyAction(state, capture);
+      expect(captured.currentPlayerId).toBe(ALICE);
+      expect(GameStateDerivation.applyAction(captured, AssassinActionFactory.createDeclareTargetAction(ALICE, 'a1', 'e2'))
+        .currentPlayerId).toBe(BOB);
+
+      const captureAndDeclare = ActionUtils.createCompoundAction(ALICE, [
+        capture,
+        AssassinActionFactory.createDeclareTargetAction(ALICE, 'a1', 'e2')
+      ]);
+      expect(GameStateDerivation.applyAction(state, captureAndDeclare).currentPlayerId).toBe(BOB);
+    });
+  });
+});
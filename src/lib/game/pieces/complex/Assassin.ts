@@ -0,0 +1,414 @@
+import { ActionUtils, type BaseGameAction } from '../../engine/BaseActions';
+import type { GameState, Piece } from '../../engine/GameState';
+import {
+  ActionRegistry,
+  defineAction,
+  type ActionHandler,
+  type ActionValidator,
+  type ActionGenerator,
+  type RuleInvariant
+} from '../../engine/ActionRegistry';
+import { CoreActionHandlers } from '../../engine/CoreActionHandlers';
+import { SchemaUtils } from '../../engine/ActionSchema';
+import { PieceRegistry, type PieceDefinition } from '../../engine/PieceRegistry';
+import { Board } from '../../board/Board';
+import { CoordinateUtils, type Coordinate } from '../../board/Coordinate';
+import { MovementUtils } from '../../board/MovementPatterns';
+import { PathfindingUtils } from '../../board/PathfindingUtils';
+import { TurtleUtils } from '../../board/TurtleUtils';
+
+/**
+ * The Assassin names the one enemy piece it may capture
+ */
+export interface AssassinDeclareTargetAction extends BaseGameAction {
+  type: 'assassin-declare-target';
+  assassinId: string;
+  targetPieceId: string;
+}
+
+/**
+ * The Assassin slips through a chain of connected pieces onto a free square
+ */
+export interface AssassinMoveAction extends BaseGameAction {
+  type: 'assassin-move';
+  assassinId: string;
+  toPosition: Coordinate;
+}
+
+/**
+ * The Assassin captures its declared target by moving onto it
+ */
+export interface AssassinCaptureAction extends BaseGameAction {
+  type: 'assassin-capture';
+  assassinId: string;
+  targetPieceId: string;
+  position: Coordinate;
+}
+
+/**
+ * Assassin piece type: steps one square orthogonally (move-piece) and
+ * captures nothing but its declared target
+ */
+export const ASSASSIN_PIECE: PieceDefinition = {
+  type: 'assassin',
+  displayName: 'Assassin',
+  layer: 'piece',
+  placement: ['land', 'turtle'],
+  defaultState: { targetId: null },
+  actionTypes: ['move-piece', 'assassin-move', 'assassin-capture', 'assassin-declare-target'],
+  movement: [MovementUtils.moveOnly(MovementUtils.step('orthogonal', 1))],
+  description: 'Moves through connected pieces and hunts a declared target'
+};
+
+/**
+ * Players have to name a target for each of their Assassins before passing the turn
+ */
+const TARGET_DECLARED: RuleInvariant = {
+  id: 'assassin-target-declared',
+  description: 'Assassins without a target must declare one before the turn ends',
+  check: (nextState: GameState, previousState: GameState, action: BaseGameAction): true | string => {
+    if (action.type !== 'end-turn') {
+      return true;
+    }
+
+    const waiting = previousState.pieces.some(p =>
+      p.type === 'assassin' && p.ownerId === action.playerId && p.position && AssassinPiece.needsTarget(previousState, p)
+    );
+    return waiting ? 'Assassin must declare a target before ending the turn' : true;
+  }
+};
+
+/**
+ * Assassin piece implementation
+ */
+export class AssassinPiece {
+  /**
+   * Register the Assassin piece type, its actions and its end-of-turn rule
+   */
+  static registerActions(registry: ActionRegistry = ActionRegistry.default): void {
+    registry.pieces.register(ASSASSIN_PIECE);
+
+    defineAction<AssassinDeclareTargetAction>(
+      'assassin-declare-target',
+      AssassinPiece.handleDeclareTarget,
+      {
+        description: 'Assassin names the enemy piece it hunts',
+        allowedPieceTypes: ['assassin'],
+        validator: AssassinPiece.validateDeclareTarget,
+        generator: AssassinPiece.generateDeclareTarget,
+        schema: SchemaUtils.object({
+          assassinId: SchemaUtils.string(),
+          targetPieceId: SchemaUtils.string()
+        })
+      },
+      registry
+    );
+
+    defineAction<AssassinMoveAction>(
+      'assassin-move',
+      AssassinPiece.handleMove,
+      {
+        description: 'Assassin moves through a chain of connected pieces',
+        allowedPieceTypes: ['assassin'],
+        validator: AssassinPiece.validateMove,
+        generator: AssassinPiece.generateMove,
+        mainAction: true,
+        schema: SchemaUtils.object({
+          assassinId: SchemaUtils.string(),
+          toPosition: SchemaUtils.coordinate()
+        })
+      },
+      registry
+    );
+
+    defineAction<AssassinCaptureAction>(
+      'assassin-capture',
+      AssassinPiece.handleCapture,
+      {
+        description: 'Assassin captures its declared target',
+        allowedPieceTypes: ['assassin'],
+        validator: AssassinPiece.validateCapture,
+        generator: AssassinPiece.generateCapture,
+        mainAction: true,
+        schema: SchemaUtils.object({
+          assassinId: SchemaUtils.string(),
+          targetPieceId: SchemaUtils.string(),
+          position: SchemaUtils.coordinate()
+        })
+      },
+      registry
+    );
+
+    registry.registerInvariant(TARGET_DECLARED);
+  }
+
+  /**
+   * Get the ID of the Assassin's declared target
+   */
+  static getTargetId(assassin: Piece): string | null {
+    return typeof assassin.state?.targetId === 'string' ? assassin.state.targetId : null;
+  }
+
+  /**
+   * Check if an Assassin still has to declare a target: it has none, or its
+   * target left the board, while there is an enemy piece to name
+   */
+  static needsTarget(state: GameState, assassin: Piece): boolean {
+    const targetId = AssassinPiece.getTargetId(assassin);
+    if (targetId && state.pieces.some(p => p.id === targetId && p.position)) {
+      return false;
+    }
+
+    return state.pieces.some(p => p.position && p.ownerId !== assassin.ownerId);
+  }
+
+  /**
+   * Get the squares an Assassin can move to: one step orthogonally, or any
+   * distance through pieces touching orthogonally or diagonally, stepping off
+   * the chain onto a free square
+   */
+  static getDestinations(assassin: Piece, board: Board, pieces: PieceRegistry = PieceRegistry.default): Coordinate[] {
+    const start = assassin.position!;
+    const isStart = (coord: Coordinate) => CoordinateUtils.equals(coord, start);
+    const isChainPiece = (coord: Coordinate) => !isStart(coord) && board.getPiece(coord) !== null;
+
+    return PathfindingUtils.findReachableArea(start, board, {
+      allowDiagonal: true,
+      isValidMove: (from, to) => {
+        // Free squares end the move
+        if (!isStart(from) && !isChainPiece(from)) {
+          return false;
+        }
+
+        if (isChainPiece(to)) {
+          return true;
+        }
+
+        // Without a chain, the Assassin only steps orthogonally
+        return MovementUtils.canStandOn(assassin, to, board, pieces) &&
+          (!isStart(from) || CoordinateUtils.areOrthogonallyAdjacent(from, to));
+      }
+    }).filter(coord => !isStart(coord) && !isChainPiece(coord));
+  }
+
+  /**
+   * Check the phase, turn and Assassin shared by all Assassin actions
+   */
+  private static findAssassin(
+    state: GameState,
+    action: AssassinDeclareTargetAction | AssassinMoveAction | AssassinCaptureAction
+  ): Piece | string {
+    if (state.phase !== 'battle') {
+      return 'Assassin actions are only possible during battle phase';
+    }
+
+    if (state.currentPlayerId !== action.playerId) {
+      return 'Not your turn';
+    }
+
+    const assassin = state.pieces.find(p => p.id === action.assassinId && p.type === 'assassin');
+    if (!assassin?.position) {
+      return 'Assassin not found or not on board';
+    }
+
+    if (assassin.ownerId !== action.playerId) {
+      return 'Not your piece';
+    }
+
+    return assassin;
+  }
+
+  /**
+   * Get the player's Assassins on the board, optionally limited to one
+   */
+  private static getAssassins(state: GameState, playerId: string, pieceId?: string): Piece[] {
+    return CoreActionHandlers.getPiecesOnBoard(state, playerId, pieceId).filter(piece => piece.type === 'assassin');
+  }
+
+  /**
+   * Move the Assassin and update what the turtles carry
+   */
+  private static moveAssassin(state: GameState, assassin: Piece, to: Coordinate, targetId: string | null, pieces: PieceRegistry): GameState {
+    return {
+      ...state,
+      pieces: TurtleUtils.syncCarriedPieces(
+        state.pieces.map(p => (p.id === assassin.id ? { ...p, position: to, state: { ...p.state, targetId } } : p)),
+        pieces
+      )
+    };
+  }
+
+  private static handleDeclareTarget: ActionHandler<AssassinDeclareTargetAction> = (state: GameState, action) => {
+    return {
+      ...state,
+      pieces: state.pieces.map(p =>
+        p.id === action.assassinId ? { ...p, state: { ...p.state, targetId: action.targetPieceId } } : p
+      )
+    };
+  };
+
+  private static validateDeclareTarget: ActionValidator<AssassinDeclareTargetAction> = (state: GameState, action) => {
+    const assassin = AssassinPiece.findAssassin(state, action);
+    if (typeof assassin === 'string') {
+      return assassin;
+    }
+
+    if (!AssassinPiece.needsTarget(state, assassin)) {
+      return 'Assassin already has a target';
+    }
+
+    const target = state.pieces.find(p => p.id === action.targetPieceId);
+    if (!target?.position || target.ownerId === action.playerId) {
+      return 'Target must be an enemy piece on the board';
+    }
+
+    return true;
+  };
+
+  private static generateDeclareTarget: ActionGenerator<AssassinDeclareTargetAction> = (state: GameState, playerId, pieceId) => {
+    return AssassinPiece.getAssassins(state, playerId, pieceId)
+      .filter(assassin => AssassinPiece.needsTarget(state, assassin))
+      .flatMap(assassin => state.pieces
+        .filter(target => target.position && target.ownerId !== playerId)
+        .map(target => AssassinActionFactory.createDeclareTargetAction(playerId, assassin.id, target.id))
+      );
+  };
+
+  private static handleMove: ActionHandler<AssassinMoveAction> = (state: GameState, action, context) => {
+    const assassin = state.pieces.find(p => p.id === action.assassinId);
+    if (!assassin) {
+      return state;
+    }
+
+    context.emit({ type: 'PieceMoved', pieceId: assassin.id, from: assassin.position, to: action.toPosition });
+    return AssassinPiece.moveAssassin(state, assassin, action.toPosition, AssassinPiece.getTargetId(assassin), context.registry.pieces);
+  };
+
+  private static validateMove: ActionValidator<AssassinMoveAction> = (state: GameState, action, context) => {
+    const assassin = AssassinPiece.findAssassin(state, action);
+    if (typeof assassin === 'string') {
+      return assassin;
+    }
+
+    const board = new Board(state.lands, state.pieces, state.citadels, context.registry.pieces);
+    if (!AssassinPiece.getDestinations(assassin, board, context.registry.pieces).some(c => CoordinateUtils.equals(c, action.toPosition))) {
+      return `Assassin cannot move to (${action.toPosition.x}, ${action.toPosition.y})`;
+    }
+
+    return true;
+  };
+
+  /**
+   * Propose the chain moves; single orthogonal steps are left to move-piece
+   */
+  private static generateMove: ActionGenerator<AssassinMoveAction> = (
+    state: GameState,
+    playerId,
+    pieceId,
+    context = ActionRegistry.default.createContext()
+  ) => {
+    const board = new Board(state.lands, state.pieces, state.citadels, context.registry.pieces);
+
+    return AssassinPiece.getAssassins(state, playerId, pieceId).flatMap(assassin =>
+      AssassinPiece.getDestinations(assassin, board, context.registry.pieces)
+        .filter(coord => !CoordinateUtils.areOrthogonallyAdjacent(assassin.position!, coord))
+        .map(coord => AssassinActionFactory.createMoveAction(playerId, assassin.id, coord.x, coord.y))
+    );
+  };
+
+  /**
+   * Capture the target and take its square; the Assassin then needs a new target
+   */
+  private static handleCapture: ActionHandler<AssassinCaptureAction> = (state: GameState, action, context) => {
+    const captured = CoreActionHandlers.removeCaptured(state, action.targetPieceId, action.assassinId, action.position, context);
+    const assassin = captured.pieces.find(p => p.id === action.assassinId);
+    if (captured === state || !assassin) {
+      return captured;
+    }
+
+    context.emit({ type: 'PieceMoved', pieceId: assassin.id, from: assassin.position, to: action.position });
+    return AssassinPiece.moveAssassin(captured, assassin, action.position, null, context.registry.pieces);
+  };
+
+  private static validateCapture: ActionValidator<AssassinCaptureAction> = (state: GameState, action, context) => {
+    const assassin = AssassinPiece.findAssassin(state, action);
+    if (typeof assassin === 'string') {
+      return assassin;
+    }
+
+    if (AssassinPiece.getTargetId(assassin) !== action.targetPieceId) {
+      return 'Assassin can only capture its declared target';
+    }
+
+    const target = state.pieces.find(p => p.id === action.targetPieceId);
+    if (!target?.position || !CoordinateUtils.equals(target.position, action.position)) {
+      return 'Target is not at the capture position';
+    }
+
+    if (!AssassinPiece.canReachTarget(state, assassin, target, context.registry.pieces)) {
+      return 'Assassin cannot reach its target';
+    }
+
+    return true;
+  };
+
+  private static generateCapture: ActionGenerator<AssassinCaptureAction> = (
+    state: GameState,
+    playerId,
+    pieceId,
+    context = ActionRegistry.default.createContext()
+  ) => {
+    return AssassinPiece.getAssassins(state, playerId, pieceId).flatMap(assassin => {
+      const target = state.pieces.find(p => p.id === AssassinPiece.getTargetId(assassin) && p.position);
+      if (!target || !AssassinPiece.canReachTarget(state, assassin, target, context.registry.pieces)) {
+        return [];
+      }
+
+      return [AssassinActionFactory.createCaptureAction(playerId, assassin.id, target.id, target.position!.x, target.position!.y)];
+    });
+  };
+
+  /**
+   * The Assassin reaches its target if it could move onto the target's square were it empty
+   */
+  private static canReachTarget(state: GameState, assassin: Piece, target: Piece, pieces: PieceRegistry): boolean {
+    const board = new Board(state.lands, state.pieces.filter(p => p.id !== target.id), state.citadels, pieces);
+    return AssassinPiece.getDestinations(assassin, board, pieces).some(c => CoordinateUtils.equals(c, target.position!));
+  }
+}
+
+/**
+ * Factory functions for creating Assassin actions
+ */
+export const AssassinActionFactory = {
+  createDeclareTargetAction(playerId: string, assassinId: string, targetPieceId: string): AssassinDeclareTargetAction {
+    return {
+      ...ActionUtils.createBase('assassin-declare-target', playerId, assassinId),
+      type: 'assassin-declare-target',
+      assassinId,
+      targetPieceId
+    };
+  },
+
+  createMoveAction(playerId: string, assassinId: string, x: number, y: number): AssassinMoveAction {
+    return {
+      ...ActionUtils.createBase('assassin-move', playerId, assassinId),
+      type: 'assassin-move',
+      assassinId,
+      toPosition: { x, y }
+    };
+  },
+
+  createCaptureAction(playerId: string, assassinId: string, targetPieceId: string, x: number, y: number): AssassinCaptureAction {
+    return {
+      ...ActionUtils.createBase('assassin-capture', playerId, assassinId),
+      type: 'assassin-capture',
+      assassinId,
+      targetPieceId,
+      position: { x, y }
+    };
+  }
+};
+
+// Auto-register actions when the piece is imported
+AssassinPiece.registerActions();
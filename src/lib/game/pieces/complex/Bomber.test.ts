@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { BomberPiece, BomberActionFactory, BOMBER_PIECE } from './Bomber';
+import { ActionRegistry } from '../../engine/ActionRegistry';
+import { CoreActionHandlers } from '../../engine/CoreActionHandlers';
+import { GameFactory } from '../../engine/GameFactory';
+import { GameStateDerivation } from '../../engine/ModularGameStateDerivation';
+import { ActionUtils, type MovePieceAction } from '../../engine/BaseActions';
+import { CoordinateUtils } from '../../board/Coordinate';
+import type { Citadel, GameState, Land, Piece } from '../../engine/GameState';
+
+const ALICE = 'player_alice';
+const BOB = 'player_bob';
+
+/**
+ * Land everywhere from (0,0) to (9,2)
+ */
+const LANDS: Land[] = Array.from({ length: 30 }, (_, i) => ({
+  id: `l${i}`,
+  position: { x: i % 10, y: Math.floor(i / 10) },
+  ownerId: ALICE
+}));
+
+const piece = (id: string, ownerId: string, x: number, y: number, type = 'soldier'): Piece =>
+  ({ id, type, ownerId, position: { x, y } });
+
+const bomber = (id: string, ownerId: string, x: number, y: number): Piece => piece(id, ownerId, x, y, 'bomber');
+
+function createBattleState(pieces: Piece[], citadels: Citadel[] = []): GameState {
+  const initialState = GameFactory.createInitialGameState(ALICE);
+  const players = [
+    { ...GameFactory.createPlayer('Alice', true, 0), id: ALICE },
+    { ...GameFactory.createPlayer('Bob', false, 1), id: BOB }
+  ];
+
+  return {
+    ...GameFactory.createGameState(initialState, players),
+    phase: 'battle',
+    currentPlayerId: ALICE,
+    lands: LANDS,
+    citadels,
+    pieces
+  };
+}
+
+const sacrifice = (bomberId: string) => BomberActionFactory.createSacrificeAction(ALICE, bomberId);
+
+describe('BomberPiece', () => {
+  beforeEach(() => {
+    ActionRegistry.clear();
+    CoreActionHandlers.registerAll();
+    BomberPiece.registerActions();
+  });
+
+  it('registers with its sacrifice action', () => {
+    expect(ActionRegistry.default.pieces.get('bomber')).toBe(BOMBER_PIECE);
+    expect(ActionRegistry.isRegistered('bomber-sacrifice')).toBe(true);
+  });
+
+  describe('Movement and capture', () => {
+    it('steps one square orthogonally', () => {
+      const state = createBattleState([bomber('b1', ALICE, 1, 1)]);
+      const moves = GameStateDerivation.getLegalActions(state, ALICE, 'b1')
+        .filter((a): a is MovePieceAction => a.type === 'move-piece')
+        .map(a => CoordinateUtils.toKey(a.toPosition))
+        .sort();
+
+      expect(moves).toEqual(['0,1', '1,0', '1,2', '2,1']);
+    });
+
+    it('captures orthogonally adjacent pieces only', () => {
+      const state = createBattleState([bomber('b1', ALICE, 1, 1), piece('e1', BOB, 2, 1), piece('e2', BOB, 2, 2)]);
+      const captures = GameStateDerivation.getLegalActions(state, ALICE, 'b1').filter(a => a.type === 'capture-piece');
+
+      expect(captures).toEqual([expect.objectContaining({ capturedPieceId: 'e1' })]);
+      expect(GameStateDerivation.validateAction(state, ActionUtils.createCaptureAction(ALICE, 'b1', 'e2', 2, 2)))
+        .toBe('Bomber cannot reach that target');
+    });
+  });
+
+  describe('Sacrifice', () => {
+    it('destroys all eight neighbours and itself', () => {
+      const around = CoordinateUtils.getAllAdjacent({ x: 1, y: 1 }).map((c, i) => piece(`e${i}`, BOB, c.x, c.y));
+      const state = createBattleState([bomber('b1', ALICE, 1, 1), ...around, piece('far', BOB, 3, 1)]);
+      const next = GameStateDerivation.applyAction(state, sacrifice('b1'));
+
+      expect(next.pieces.map(p => p.id)).toEqual(['far']);
+      expect(next.graveyard).toHaveLength(9);
+    });
+
+    it('destroys enemy citadels in range', () => {
+      const state = createBattleState(
+        [bomber('b1', ALICE, 4, 1)],
+        [{ id: 'c1', position: { x: 0, y: 0 }, ownerId: ALICE }, { id: 'c2', position: { x: 5, y: 2 }, ownerId: BOB }]
+      );
+      const { state: next, events } = GameStateDerivation.applyActionWithEvents(state, sacrifice('b1'));
+
+      expect(next.citadels.map(c => c.id)).toEqual(['c1']);
+      expect(next.winnerId).toBe(ALICE);
+      expect(events.map(e => e.type)).toEqual(['BomberExploded', 'PieceCaptured', 'CitadelDestroyed', 'GameFinished']);
+    });
+
+    it('refuses to explode in range of its own citadel', () => {
+      const state = createBattleState(
+        [bomber('b1', ALICE, 1, 1)],
+        [{ id: 'c1', position: { x: 0, y: 0 }, ownerId: ALICE }]
+      );
+
+      expect(GameStateDerivation.validateAction(state, sacrifice('b1')))
+        .toBe('Bomber cannot explode in range of your own citadel');
+      expect(GameStateDerivation.getLegalActions(state, ALICE, 'b1').some(a => a.type === 'bomber-sacrifice')).toBe(false);
+    });
+
+    it('refuses when the chain reaction would reach its own citadel', () => {
+      const state = createBattleState(
+        [bomber('b1', ALICE, 5, 1), bomber('b2', BOB, 3, 1), bomber('b3', BOB, 4, 1)],
+        [{ id: 'c1', position: { x: 2, y: 0 }, ownerId: ALICE }]
+      );
+
+      expect(GameStateDerivation.validateAction(state, sacrifice('b1')))
+        .toBe('Bomber cannot explode in range of your own citadel');
+    });
+
+    it('only lets the owner set off a Bomber on their turn', () => {
+      const state = createBattleState([bomber('b1', BOB, 1, 1)]);
+
+      expect(GameStateDerivation.validateAction(state, sacrifice('b1'))).toBe('Not your piece');
+      expect(GameStateDerivation.validateAction({ ...state, currentPlayerId: BOB }, sacrifice('b1'))).toBe('Not your turn');
+    });
+
+    it('takes a turtle and its passenger down together', () => {
+      const state = createBattleState([
+        bomber('b1', ALICE, 9, 1),
+        { ...piece('t1', BOB, 10, 1, 'turtle'), state: { carriedPieceId: 's1' } },
+        piece('s1', BOB, 10, 1)
+      ]);
+      const next = GameStateDerivation.applyAction(state, sacrifice('b1'));
+
+      expect(next.pieces).toEqual([]);
+      expect(next.graveyard.map(p => p.id)).toEqual(['b1', 't1', 's1']);
+    });
+  });
+
+  describe('Chain reaction', () => {
+    it('sets off a long line of Bombers, one after the other', () => {
+      const line = [0, 1, 2, 3, 4, 5, 6, 7, 8].map(x => bomber(`b${x}`, ALICE, x, 0));
+      const state = createBattleState([...line, piece('e1', BOB, 9, 1), piece('safe', BOB, 9, 2)]);
+
+      expect(BomberPiece.getBlast(state, 'b0')).toEqual({
+        bomberIds: line.map(b => b.id),
+        pieceIds: ['e1'],
+        citadelIds: []
+      });
+
+      const next = GameStateDerivation.applyAction(state, sacrifice('b0'));
+      expect(next.pieces.map(p => p.id)).toEqual(['safe']);
+      expect(next.graveyard).toHaveLength(10);
+    });
+
+    it('explodes every Bomber once when they form a loop', () => {
+      const ring = [
+        bomber('b1', ALICE, 1, 0), bomber('b2', ALICE, 2, 0),
+        bomber('b3', BOB, 2, 1), bomber('b4', BOB, 1, 1)
+      ];
+      const state = createBattleState(ring);
+      const { state: next, events } = GameStateDerivation.applyActionWithEvents(state, sacrifice('b1'));
+
+      expect(BomberPiece.getBlast(state, 'b1')?.bomberIds.sort()).toEqual(['b1', 'b2', 'b3', 'b4']);
+      expect(next.graveyard.map(p => p.id).sort()).toEqual(['b1', 'b2', 'b3', 'b4']);
+      expect(events.filter(e => e.type === 'BomberExploded')).toHaveLength(4);
+    });
+
+    it('sets off enemy Bombers and hits friendly pieces alike', () => {
+      const state = createBattleState([
+        bomber('b1', ALICE, 0, 1),
+        bomber('e1', BOB, 1, 1),
+        piece('own', ALICE, 2, 2),
+        bomber('b2', ALICE, 2, 1),
+        piece('enemy', BOB, 3, 0),
+        piece('safe', ALICE, 6, 1)
+      ]);
+      const next = GameStateDerivation.applyAction(state, sacrifice('b1'));
+
+      expect(next.pieces.map(p => p.id)).toEqual(['safe']);
+      expect(next.graveyard.map(p => p.id)).toEqual(['b1', 'e1', 'b2', 'own', 'enemy']);
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { ActionUtils, type BaseGameAction } from '../../engine/BaseActions';
+import type { GameState, Piece } from '../../engine/GameState';
+import {
+  ActionRegistry,
+  defineAction,
+  type ActionHandler,
+  type ActionValidator,
+  type ActionGenerator
+} from '../../engine/ActionRegistry';
+import { CoreActionHandlers } from '../../engine/CoreActionHandlers';
+import { SchemaUtils } from '../../engine/ActionSchema';
+import type { PieceDefinition } from '../../engine/PieceRegistry';
+import { CoordinateUtils } from '../../board/Coordinate';
+import { MovementUtils } from '../../board/MovementPatterns';
+
+/**
+ * A Bomber sacrifices itself, destroying everything around it.
+ * The blast is worked out from the board, never sent by the client.
+ */
+export interface BomberSacrificeAction extends BaseGameAction {
+  type: 'bomber-sacrifice';
+  bomberId: string;
+}
+
+/**
+ * Everything a sacrifice destroys
+ */
+export interface BomberBlast {
+  /** Bombers that explode, in the order the chain reaction reaches them */
+  bomberIds: string[];
+  /** Other pieces caught in the blasts */
+  pieceIds: string[];
+  /** Citadels caught in the blasts */
+  citadelIds: string[];
+}
+
+/**
+ * Bomber piece type: steps one square orthogonally and captures what it lands on
+ */
+export const BOMBER_PIECE: PieceDefinition = {
+  type: 'bomber',
+  displayName: 'Bomber',
+  layer: 'piece',
+  placement: ['land', 'turtle'],
+  actionTypes: ['move-piece', 'capture-piece', 'bomber-sacrifice'],
+  movement: [MovementUtils.step('orthogonal', 1)],
+  capturesByLanding: true,
+  description: 'Explodes to destroy everything around it, setting off other Bombers'
+};
+
+/**
+ * Bomber piece implementation
+ */
+export class BomberPiece {
+  /**
+   * Register the Bomber piece type and its sacrifice action
+   */
+  static registerActions(registry: ActionRegistry = ActionRegistry.default): void {
+    registry.pieces.register(BOMBER_PIECE);
+
+    defineAction<BomberSacrificeAction>(
+      'bomber-sacrifice',
+      BomberPiece.handleSacrifice,
+      {
+        description: 'Bomber explodes, destroying all eight neighbouring squares',
+        allowedPieceTypes: ['bomber'],
+        validator: BomberPiece.validateSacrifice,
+        generator: BomberPiece.generateSacrifice,
+        mainAction: true,
+        schema: SchemaUtils.object({
+          bomberId: SchemaUtils.string()
+        })
+      },
+      registry
+    );
+  }
+
+  /**
+   * Work out what a Bomber's sacrifice destroys. Every Bomber caught in a
+   * blast explodes in turn; the chain is walked breadth first and each
+   * Bomber explodes once, so loops of Bombers end.
+   */
+  static getBlast(state: GameState, bomberId: string): BomberBlast | null {
+    const first = state.pieces.find(p => p.id === bomberId && p.type === 'bomber' && p.position);
+    if (!first) {
+      return null;
+    }
+
+    const exploded = new Set<string>([first.id]);
+    const queue: Piece[] = [first];
+    const bomberIds: string[] = [];
+    const pieceIds = new Set<string>();
+    const citadelIds = new Set<string>();
+
+    while (queue.length > 0) {
+      const bomber = queue.shift()!;
+      bomberIds.push(bomber.id);
+
+      for (const coord of CoordinateUtils.getAllAdjacent(bomber.position!)) {
+        for (const piece of state.pieces.filter(p => p.position && CoordinateUtils.equals(p.position, coord))) {
+          if (piece.type === 'bomber') {
+            if (!exploded.has(piece.id)) {
+              exploded.add(piece.id);
+              queue.push(piece);
+            }
+          } else {
+            pieceIds.add(piece.id);
+          }
+        }
+
+        for (const citadel of state.citadels.filter(c => CoordinateUtils.equals(c.position, coord))) {
+          citadelIds.add(citadel.id);
+        }
+      }
+    }
+
+    return { bomberIds, pieceIds: [...pieceIds], citadelIds: [...citadelIds] };
+  }
+
+  private static handleSacrifice: ActionHandler<BomberSacrificeAction> = (state: GameState, action, context) => {
+    const blast = BomberPiece.getBlast(state, action.bomberId);
+    if (!blast) {
+      return state;
+    }
+
+    let nextState = state;
+
+    for (const bomberId of blast.bomberIds) {
+      const bomber = nextState.pieces.find(p => p.id === bomberId);
+      if (!bomber?.position) {
+        continue;
+      }
+
+      context.emit({ type: 'BomberExploded', bomberId, ownerId: bomber.ownerId, position: bomber.position });
+      nextState = CoreActionHandlers.removeCaptured(nextState, bomberId, action.bomberId, bomber.position, context);
+    }
+
+    // Turtles take their passengers along, so a passenger may already be gone
+    for (const targetId of [...blast.pieceIds, ...blast.citadelIds]) {
+      const target = nextState.pieces.find(p => p.id === targetId) ?? nextState.citadels.find(c => c.id === targetId);
+      if (target?.position) {
+        nextState = CoreActionHandlers.removeCaptured(nextState, targetId, action.bomberId, target.position, context);
+      }
+    }
+
+    return nextState;
+  };
+
+  private static validateSacrifice: ActionValidator<BomberSacrificeAction> = (state: GameState, action) => {
+    if (state.phase !== 'battle') {
+      return 'Bomber actions are only possible during battle phase';
+    }
+
+    if (state.currentPlayerId !== action.playerId) {
+      return 'Not your turn';
+    }
+
+    const bomber = state.pieces.find(p => p.id === action.bomberId && p.type === 'bomber');
+    if (!bomber?.position) {
+      return 'Bomber not found or not on board';
+    }
+
+    if (bomber.ownerId !== action.playerId) {
+      return 'Not your piece';
+    }
+
+    const blast = BomberPiece.getBlast(state, bomber.id)!;
+    if (state.citadels.some(c => c.ownerId === action.playerId && blast.citadelIds.includes(c.id))) {
+      return 'Bomber cannot explode in range of your own citadel';
+    }
+
+    return true;
+  };
+
+  private static generateSacrifice: ActionGenerator<BomberSacrificeAction> = (state: GameState, playerId, pieceId) => {
+    return CoreActionHandlers.getPiecesOnBoard(state, playerId, pieceId)
+      .filter(piece => piece.type === 'bomber')
+      .map(bomber => BomberActionFactory.createSacrificeAction(playerId, bomber.id));
+  };
+}
+
+/**
+ * Factory functions for creating Bomber actions
+ */
+export const BomberActionFactory = {
+  createSacrificeAction(playerId: string, bomberId: string): BomberSacrificeAction {
+    return {
+      ...ActionUtils.createBase('bomber-sacrifice', playerId, bomberId),
+      type: 'bomber-sacrifice',
+      bomberId
+    };
+  }
+};
+
+// Auto-register actions when the piece is imported
+BomberPiece.registerActions();
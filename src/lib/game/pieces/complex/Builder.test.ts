@@ -0,0 +1,230 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import {
+  BuilderPiece,
+  BuilderActionFactory,
+  BUILDER_PIECE,
+  type BuilderMoveLandAction,
+  type BuilderPlaceLandAction,
+  type BuilderRemoveLandAction
+} from './Builder';
+import { ActionRegistry } from '../../engine/ActionRegistry';
+import { CoreActionHandlers } from '../../engine/CoreActionHandlers';
+import { GameFactory } from '../../engine/GameFactory';
+import { GameStateDerivation } from '../../engine/ModularGameStateDerivation';
+import { ActionUtils, type MovePieceAction } from '../../engine/BaseActions';
+import { CoordinateUtils } from '../../board/Coordinate';
+import type { GameState, Land, Piece } from '../../engine/GameState';
+
+const ALICE = 'player_alice';
+const BOB = 'player_bob';
+
+/**
+ * Citadels at (0,0) and (2,0), joined by the land at (1,0), plus a spare
+ * tile at (1,1) for the builder to stand on; everything else is water
+ */
+const LANDS: Land[] = [
+  { id: 'l1', position: { x: 0, y: 0 }, ownerId: ALICE },
+  { id: 'l2', position: { x: 1, y: 0 }, ownerId: ALICE },
+  { id: 'l3', position: { x: 2, y: 0 }, ownerId: BOB },
+  { id: 'l4', position: { x: 1, y: 1 }, ownerId: ALICE }
+];
+
+const piece = (id: string, ownerId: string, x: number, y: number, type = 'soldier'): Piece =>
+  ({ id, type, ownerId, position: { x, y } });
+
+const builder = (x = 1, y = 1): Piece => piece('b1', ALICE, x, y, 'builder');
+
+function createBattleState(pieces: Piece[], overrides: Partial<GameState> = {}): GameState {
+  const initialState = GameFactory.createInitialGameState(ALICE);
+  const players = [
+    { ...GameFactory.createPlayer('Alice', true, 0), id: ALICE },
+    { ...GameFactory.createPlayer('Bob', false, 1), id: BOB }
+  ];
+
+  return {
+    ...GameFactory.createGameState(initialState, players),
+    phase: 'battle',
+    currentPlayerId: ALICE,
+    lands: LANDS,
+    landPool: [{ id: 'pool1', ownerId: null }, { id: 'pool2', ownerId: null }],
+    citadels: [
+      { id: 'c1', position: { x: 0, y: 0 }, ownerId: ALICE },
+      { id: 'c2', position: { x: 2, y: 0 }, ownerId: BOB }
+    ],
+    pieces,
+    ...overrides
+  };
+}
+
+const landAt = (state: GameState, x: number, y: number) =>
+  state.lands.find(l => CoordinateUtils.equals(l.position, { x, y }));
+
+describe('BuilderPiece', () => {
+  beforeEach(() => {
+    ActionRegistry.clear();
+    CoreActionHandlers.registerAll();
+    BuilderPiece.registerActions();
+  });
+
+  it('steps one square orthogonally', () => {
+    expect(ActionRegistry.default.pieces.get('builder')).toBe(BUILDER_PIECE);
+
+    const state = createBattleState([builder(1, 0)]);
+    const moves = GameStateDerivation.getLegalActions(state, ALICE, 'b1')
+      .filter((a): a is MovePieceAction => a.type === 'move-piece')
+      .map(a => CoordinateUtils.toKey(a.toPosition))
+      .sort();
+
+    // The citadels block (0,0) and (2,0)
+    expect(moves).toEqual(['1,1']);
+    expect(GameStateDerivation.validateAction(state, ActionUtils.createMoveAction(ALICE, 'b1', 1, 0, 2, 1)))
+      .toBe('Builder cannot move to (2, 1)');
+  });
+
+  describe('Place land', () => {
+    it('places a tile from the community pool orthogonally next to it', () => {
+      const state = createBattleState([builder()]);
+      const next = GameStateDerivation.applyAction(state, BuilderActionFactory.createPlaceLandAction(ALICE, 'b1', 'pool1', 1, 2));
+
+      expect(landAt(next, 1, 2)).toEqual({ id: 'pool1', position: { x: 1, y: 2 }, ownerId: ALICE });
+      expect(next.landPool).toEqual([{ id: 'pool2', ownerId: null }]);
+    });
+
+    it('only offers orthogonal squares and the next pooled tile', () => {
+      const state = createBattleState([builder()]);
+      const placements = GameStateDerivation.getLegalActions(state, ALICE, 'b1')
+        .filter((a): a is BuilderPlaceLandAction => a.type === 'builder-place-land');
+
+      expect(placements.map(a => a.landId)).toEqual(['pool1', 'pool1', 'pool1']);
+      expect(placements.map(a => CoordinateUtils.toKey(a.position)).sort()).toEqual(['0,1', '1,2', '2,1']);
+      expect(GameStateDerivation.validateAction(state, BuilderActionFactory.createPlaceLandAction(ALICE, 'b1', 'pool1', 2, 2)))
+        .toBe('Can only place land orthogonally next to the builder');
+    });
+
+    it('needs a tile in the pool', () => {
+      const state = createBattleState([builder()], { landPool: [] });
+
+      expect(GameStateDerivation.validateAction(state, BuilderActionFactory.createPlaceLandAction(ALICE, 'b1', 'pool1', 1, 2)))
+        .toBe('No land tiles left in the community pool');
+      expect(GameStateDerivation.getLegalActions(state, ALICE, 'b1').some(a => a.type === 'builder-place-land')).toBe(false);
+      expect(GameStateDerivation.validateAction(createBattleState([builder()]), BuilderActionFactory.createPlaceLandAction(ALICE, 'b1', 'other', 1, 2)))
+        .toBe('Land tile is not in the community pool');
+    });
+
+    it('sinks a turtle and its passenger when placed on them', () => {
+      const state = createBattleState([
+        builder(),
+        { ...piece('t1', BOB, 1, 2, 'turtle'), state: { carriedPieceId: 's1' } },
+        piece('s1', BOB, 1, 2)
+      ]);
+      const { state: next, events } = GameStateDerivation.applyActionWithEvents(
+        state,
+        BuilderActionFactory.createPlaceLandAction(ALICE, 'b1', 'pool1', 1, 2)
+      );
+
+      expect(next.pieces.map(p => p.id)).toEqual(['b1']);
+      expect(next.graveyard.map(p => p.id)).toEqual(['t1', 's1']);
+      expect(landAt(next, 1, 2)?.id).toBe('pool1');
+      expect(events.map(e => e.type)).toEqual(['LandPlaced', 'PieceCaptured', 'PieceCaptured']);
+    });
+  });
+
+  describe('Move land', () => {
+    it('moves an adjacent tile, and what stands on it, one square orthogonally', () => {
+      const state = createBattleState([builder(1, 0), piece('s1', BOB, 1, 1)]);
+      const next = GameStateDerivation.applyAction(
+        state,
+        BuilderActionFactory.createMoveLandAction(ALICE, 'b1', 'l4', 1, 1, 2, 1)
+      );
+
+      expect(landAt(next, 2, 1)?.id).toBe('l4');
+      expect(next.pieces.find(p => p.id === 's1')?.position).toEqual({ x: 2, y: 1 });
+    });
+
+    it('rejects targets that are not orthogonally next to the tile', () => {
+      const state = createBattleState([builder(1, 0)]);
+
+      expect(GameStateDerivation.validateAction(state, BuilderActionFactory.createMoveLandAction(ALICE, 'b1', 'l4', 1, 1, 2, 2)))
+        .toBe('Land can only move to a square orthogonally next to it');
+      expect(GameStateDerivation.validateAction(state, BuilderActionFactory.createMoveLandAction(ALICE, 'b1', 'l4', 1, 1, 1, 3)))
+        .toBe('Land can only move to a square orthogonally next to it');
+      expect(GameStateDerivation.validateAction(state, BuilderActionFactory.createMoveLandAction(ALICE, 'b1', 'l4', 0, 1, 0, 2)))
+        .toBe('Land tile is not at the given position');
+    });
+
+    it('only works tiles orthogonally next to the builder', () => {
+      const state = createBattleState([builder(1, 0)], {
+        lands: [...LANDS, { id: 'l5', position: { x: 2, y: 1 }, ownerId: ALICE }]
+      });
+
+      expect(GameStateDerivation.validateAction(state, BuilderActionFactory.createMoveLandAction(ALICE, 'b1', 'l5', 2, 1, 3, 1)))
+        .toBe('Builder must be orthogonally next to land to move it');
+    });
+
+    it('sinks a turtle in the way', () => {
+      const state = createBattleState([builder(1, 0), piece('t1', BOB, 2, 1, 'turtle')]);
+      const next = GameStateDerivation.applyAction(
+        state,
+        BuilderActionFactory.createMoveLandAction(ALICE, 'b1', 'l4', 1, 1, 2, 1)
+      );
+
+      expect(next.graveyard.map(p => p.id)).toEqual(['t1']);
+      expect(landAt(next, 2, 1)?.id).toBe('l4');
+    });
+  });
+
+  describe('Remove land', () => {
+    it('returns the tile to the pool and sends what stood on it to the graveyard', () => {
+      const state = createBattleState([builder(1, 0), piece('s1', BOB, 1, 1)]);
+      const next = GameStateDerivation.applyAction(state, BuilderActionFactory.createRemoveLandAction(ALICE, 'b1', 'l4', 1, 1));
+
+      expect(landAt(next, 1, 1)).toBeUndefined();
+      expect(next.landPool).toContainEqual({ id: 'l4', ownerId: ALICE });
+      expect(next.graveyard.map(p => p.id)).toEqual(['s1']);
+    });
+
+    it('sends the builder to the graveyard when it removes its own tile', () => {
+      const state = createBattleState([builder()]);
+      const next = GameStateDerivation.applyAction(state, BuilderActionFactory.createRemoveLandAction(ALICE, 'b1', 'l4', 1, 1));
+
+      expect(next.pieces).toEqual([]);
+      expect(next.graveyard).toEqual([{ ...builder(), position: null }]);
+    });
+
+    it('keeps citadel tiles and diagonal tiles out of reach', () => {
+      const state = createBattleState([builder(1, 0)], {
+        lands: [...LANDS, { id: 'l5', position: { x: 2, y: 1 }, ownerId: ALICE }]
+      });
+
+      expect(GameStateDerivation.validateAction(state, BuilderActionFactory.createRemoveLandAction(ALICE, 'b1', 'l1', 0, 0)))
+        .toBe('Cannot remove land with a citadel on it');
+      expect(GameStateDerivation.validateAction(state, BuilderActionFactory.createRemoveLandAction(ALICE, 'b1', 'l5', 2, 1)))
+        .toBe('Builder must be on or orthogonally next to land to remove it');
+    });
+  });
+
+  describe('Citadel connectivity', () => {
+    it('cannot cut the citadels apart', () => {
+      const state = createBattleState([builder()]);
+
+      expect(GameStateDerivation.validateAction(state, BuilderActionFactory.createRemoveLandAction(ALICE, 'b1', 'l2', 1, 0)))
+        .toBe('Action would disconnect the citadels');
+      expect(GameStateDerivation.validateAction(state, BuilderActionFactory.createMoveLandAction(ALICE, 'b1', 'l2', 1, 0, 1, -1)))
+        .toBe('Action would disconnect the citadels');
+      expect(GameStateDerivation.getLegalActions(state, ALICE, 'b1')
+        .filter((a): a is BuilderRemoveLandAction | BuilderMoveLandAction =>
+          a.type === 'builder-remove-land' || a.type === 'builder-move-land')
+        .some(a => a.landId === 'l2')).toBe(false);
+    });
+  });
+
+  it('only acts on its owner\'s turn in battle', () => {
+    const action = BuilderActionFactory.createPlaceLandAction(ALICE, 'b1', 'pool1', 1, 2);
+
+    expect(GameStateDerivation.validateAction(createBattleState([builder()], { currentPlayerId: BOB }), action))
+      .toBe('Not your turn');
+    expect(GameStateDerivation.validateAction(createBattleState([builder()], { phase: 'piece-selection' }), action))
+      .toBe('Builder actions are only possible during battle phase');
+  });
+});
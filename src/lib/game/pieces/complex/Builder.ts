@@ -0,0 +1,517 @@
+import { ActionUtils, type BaseGameAction } from '../../engine/BaseActions';
+import type { GameState, Piece } from '../../engine/GameState';
+import { ActionRegistry, defineAction, type ActionContext } from '../../engine/ActionRegistry';
+import { CoreActionHandlers } from '../../engine/CoreActionHandlers';
+import { SchemaUtils } from '../../engine/ActionSchema';
+import { LandPoolUtils, EMPTY_LAND_POOL_MESSAGE } from '../../engine/LandPool';
+import type { PieceDefinition } from '../../engine/PieceRegistry';
+import { CoordinateUtils, type Coordinate } from '../../board/Coordinate';
+import { MovementUtils } from '../../board/MovementPatterns';
+import { TurtleUtils } from '../../board/TurtleUtils';
+
+/**
+ * The Builder places, moves and removes land tiles orthogonally next to it.
+ * Removals and moves that would cut the citadels apart are vetoed by the
+ * citadels-connected invariant on the registry.
+ */
+
+// Define custom actions for the Builder piece
+export interface BuilderPlaceLandAction extends BaseGameAction {
+  type: 'builder-place-land';
+  builderId: string;
+  landId: string;
+  position: Coordinate;
+}
+
+export interface BuilderMoveLandAction extends BaseGameAction {
+  type: 'builder-move-land';
+  builderId: string;
+  landId: string;
+  fromPosition: Coordinate;
+  toPosition: Coordinate;
+}
+
+export interface BuilderRemoveLandAction extends BaseGameAction {
+  type: 'builder-remove-land';
+  builderId: string;
+  landId: string;
+  position: Coordinate;
+}
+
+/**
+ * Builder piece type: steps one square orthogonally and never captures by moving
+ */
+export const BUILDER_PIECE: PieceDefinition = {
+  type: 'builder',
+  displayName: 'Builder',
+  layer: 'piece',
+  placement: ['land', 'turtle'],
+  actionTypes: ['move-piece', 'builder-place-land', 'builder-move-land', 'builder-remove-land'],
+  movement: [MovementUtils.moveOnly(MovementUtils.step('orthogonal', 1))],
+  description: 'Places, moves and removes land tiles'
+};
+
+/**
+ * Squares next to the Builder that it can work land on
+ */
+const BUILDER_REACH = MovementUtils.step('orthogonal', 1);
+
+/**
+ * Builder piece implementation
+ */
+export class BuilderPiece {
+  /**
+   * Register the Builder piece type and all Builder-specific actions
+   */
+  static registerActions(registry: ActionRegistry = ActionRegistry.default): void {
+    registry.pieces.register(BUILDER_PIECE);
+
+    // Register place land action
+    defineAction<BuilderPlaceLandAction>(
+      'builder-place-land',
+      BuilderPiece.handlePlaceLand,
+      {
+        description: 'Builder places a land tile from the community pool',
+        allowedPieceTypes: ['builder'],
+        validator: BuilderPiece.validatePlaceLand,
+        generator: BuilderPiece.generatePlaceLand,
+        mainAction: true,
+        schema: SchemaUtils.object({
+          builderId: SchemaUtils.string(),
+          landId: SchemaUtils.string(),
+          position: SchemaUtils.coordinate()
+        })
+      },
+      registry
+    );
+
+    // Register move land action
+    defineAction<BuilderMoveLandAction>(
+      'builder-move-land',
+      BuilderPiece.handleMoveLand,
+      {
+        description: 'Builder moves an existing land tile',
+        allowedPieceTypes: ['builder'],
+        validator: BuilderPiece.validateMoveLand,
+        generator: BuilderPiece.generateMoveLand,
+        mainAction: true,
+        schema: SchemaUtils.object({
+          builderId: SchemaUtils.string(),
+          landId: SchemaUtils.string(),
+          fromPosition: SchemaUtils.coordinate(),
+          toPosition: SchemaUtils.coordinate()
+        })
+      },
+      registry
+    );
+
+    // Register remove land action
+    defineAction<BuilderRemoveLandAction>(
+      'builder-remove-land',
+      BuilderPiece.handleRemoveLand,
+      {
+        description: 'Builder removes a land tile and returns it to the community pool',
+        allowedPieceTypes: ['builder'],
+        validator: BuilderPiece.validateRemoveLand,
+        generator: BuilderPiece.generateRemoveLand,
+        mainAction: true,
+        schema: SchemaUtils.object({
+          builderId: SchemaUtils.string(),
+          landId: SchemaUtils.string(),
+          position: SchemaUtils.coordinate()
+        })
+      },
+      registry
+    );
+  }
+
+  /**
+   * Get the player's builders on the board, optionally limited to one builder
+   */
+  private static getBuilders(state: GameState, playerId: string, pieceId?: string): Piece[] {
+    return state.pieces.filter(p =>
+      p.type === 'builder' &&
+      p.ownerId === playerId &&
+      p.position &&
+      (!pieceId || p.id === pieceId)
+    );
+  }
+
+  /**
+   * Check the phase, turn and builder shared by all builder actions
+   */
+  private static validateBuilder(
+    state: GameState,
+    action: BuilderPlaceLandAction | BuilderMoveLandAction | BuilderRemoveLandAction
+  ): Piece | string {
+    if (state.phase !== 'battle') {
+      return 'Builder actions are only possible during battle phase';
+    }
+
+    if (state.currentPlayerId !== action.playerId) {
+      return 'Not your turn';
+    }
+
+    const builder = state.pieces.find(p =>
+      p.id === action.builderId && p.type === 'builder' && p.ownerId === action.playerId
+    );
+
+    if (!builder) {
+      return 'Builder not found or not owned by player';
+    }
+
+    if (!builder.position) {
+      return 'Builder is not on the board';
+    }
+
+    return builder;
+  }
+
+  /**
+   * Check if a square is orthogonally next to the builder
+   */
+  private static isNextTo(builderPos: Coordinate, position: Coordinate): boolean {
+    return MovementUtils.isWithinReach(BUILDER_REACH, builderPos, position);
+  }
+
+  /**
+   * Check if a square has land on it
+   */
+  private static hasLand(state: GameState, position: Coordinate): boolean {
+    return state.lands.some(l => CoordinateUtils.equals(l.position, position));
+  }
+
+  /**
+   * Check if a square has a citadel on it
+   */
+  private static hasCitadel(state: GameState, position: Coordinate): boolean {
+    return state.citadels.some(c => CoordinateUtils.equals(c.position, position));
+  }
+
+  /**
+   * Send the foundation pieces (turtles) in the water at a position to the
+   * graveyard, together with the piece they carry
+   */
+  private static sinkFoundations(
+    state: GameState,
+    position: Coordinate,
+    builderId: string,
+    context: ActionContext
+  ): GameState {
+    return state.pieces
+      .filter(p => p.position && CoordinateUtils.equals(p.position, position))
+      .filter(p => context.registry.pieces.isFoundation(p.type))
+      .reduce((next, foundation) => CoreActionHandlers.removeCaptured(next, foundation.id, builderId, position, context), state);
+  }
+
+  /**
+   * Handle placing a land tile from the community pool
+   */
+  private static handlePlaceLand = (
+    state: GameState,
+    action: BuilderPlaceLandAction,
+    context: ActionContext
+  ): GameState => {
+    const builder = state.pieces.find(p =>
+      p.id === action.builderId && p.ownerId === action.playerId
+    );
+
+    if (!builder?.position || !BuilderPiece.isNextTo(builder.position, action.position)) {
+      return state;
+    }
+
+    const tile = LandPoolUtils.find(state, action.landId);
+    if (!tile || BuilderPiece.hasLand(state, action.position)) {
+      return state;
+    }
+
+    const newLand = {
+      id: tile.id,
+      position: action.position,
+      ownerId: action.playerId
+    };
+
+    context.emit({ type: 'LandPlaced', landId: newLand.id, position: newLand.position });
+
+    // Land dropped onto a turtle sinks it
+    const sunk = BuilderPiece.sinkFoundations(state, action.position, builder.id, context);
+
+    return {
+      ...sunk,
+      lands: [...sunk.lands, newLand],
+      landPool: LandPoolUtils.take(sunk, tile.id)
+    };
+  };
+
+  private static validatePlaceLand = (state: GameState, action: BuilderPlaceLandAction): boolean | string => {
+    const builder = BuilderPiece.validateBuilder(state, action);
+    if (typeof builder === 'string') {
+      return builder;
+    }
+
+    if (!BuilderPiece.isNextTo(builder.position!, action.position)) {
+      return 'Can only place land orthogonally next to the builder';
+    }
+
+    if (BuilderPiece.hasLand(state, action.position)) {
+      return 'Position already has land';
+    }
+
+    if (LandPoolUtils.isEmpty(state)) {
+      return EMPTY_LAND_POOL_MESSAGE;
+    }
+
+    if (!LandPoolUtils.find(state, action.landId)) {
+      return 'Land tile is not in the community pool';
+    }
+
+    return true;
+  };
+
+  /**
+   * Propose placing the next pooled tile on each square next to a builder
+   */
+  private static generatePlaceLand = (state: GameState, playerId: string, pieceId?: string): BuilderPlaceLandAction[] => {
+    const tile = state.landPool[0];
+    if (!tile) {
+      return [];
+    }
+
+    return BuilderPiece.getBuilders(state, playerId, pieceId).flatMap(builder =>
+      CoordinateUtils.getOrthogonalAdjacent(builder.position!)
+        .filter(coord => !BuilderPiece.hasLand(state, coord))
+        .map(coord => BuilderActionFactory.createPlaceLandAction(playerId, builder.id, tile.id, coord.x, coord.y))
+    );
+  };
+
+  /**
+   * Handle moving an existing land tile
+   */
+  private static handleMoveLand = (
+    state: GameState,
+    action: BuilderMoveLandAction,
+    context: ActionContext
+  ): GameState => {
+    // Find the land to move
+    const land = state.lands.find(l => l.id === action.landId);
+    if (!land) {
+      return state; // Land not found
+    }
+
+    context.emit({ type: 'LandMoved', landId: land.id, from: land.position, to: action.toPosition });
+
+    // Land moved onto a turtle sinks it
+    const sunk = BuilderPiece.sinkFoundations(state, action.toPosition, action.builderId, context);
+
+    const updatedLands = sunk.lands.map(l =>
+      l.id === action.landId
+        ? { ...l, position: action.toPosition }
+        : l
+    );
+
+    // Move any pieces that were on the land
+    const updatedPieces = sunk.pieces.map(p => {
+      if (p.position && CoordinateUtils.equals(p.position, land.position)) {
+        context.emit({ type: 'PieceMoved', pieceId: p.id, from: p.position, to: action.toPosition });
+        return { ...p, position: action.toPosition };
+      }
+      return p;
+    });
+
+    return {
+      ...sunk,
+      lands: updatedLands,
+      pieces: TurtleUtils.syncCarriedPieces(updatedPieces, context.registry.pieces)
+    };
+  };
+
+  private static validateMoveLand = (state: GameState, action: BuilderMoveLandAction): boolean | string => {
+    const builder = BuilderPiece.validateBuilder(state, action);
+    if (typeof builder === 'string') {
+      return builder;
+    }
+
+    const land = state.lands.find(l => l.id === action.landId);
+    if (!land) {
+      return 'Land tile not found';
+    }
+
+    if (!CoordinateUtils.equals(land.position, action.fromPosition)) {
+      return 'Land tile is not at the given position';
+    }
+
+    if (!BuilderPiece.isNextTo(builder.position!, land.position)) {
+      return 'Builder must be orthogonally next to land to move it';
+    }
+
+    if (!CoordinateUtils.areOrthogonallyAdjacent(land.position, action.toPosition)) {
+      return 'Land can only move to a square orthogonally next to it';
+    }
+
+    if (BuilderPiece.hasLand(state, action.toPosition)) {
+      return 'Target position already has land';
+    }
+
+    if (BuilderPiece.hasCitadel(state, land.position)) {
+      return 'Cannot move land with a citadel on it';
+    }
+
+    return true;
+  };
+
+  /**
+   * Propose moving each land next to a builder onto the water next to that land
+   */
+  private static generateMoveLand = (state: GameState, playerId: string, pieceId?: string): BuilderMoveLandAction[] => {
+    return BuilderPiece.getBuilders(state, playerId, pieceId).flatMap(builder =>
+      state.lands
+        .filter(land => BuilderPiece.isNextTo(builder.position!, land.position))
+        .filter(land => !BuilderPiece.hasCitadel(state, land.position))
+        .flatMap(land => CoordinateUtils.getOrthogonalAdjacent(land.position)
+          .filter(coord => !BuilderPiece.hasLand(state, coord))
+          .map(coord => BuilderActionFactory.createMoveLandAction(
+            playerId, builder.id, land.id, land.position.x, land.position.y, coord.x, coord.y
+          ))
+        )
+    );
+  };
+
+  /**
+   * Handle removing a land tile. Whatever stands on it, the builder
+   * included, goes to the graveyard and the tile returns to the pool.
+   */
+  private static handleRemoveLand = (
+    state: GameState,
+    action: BuilderRemoveLandAction,
+    context: ActionContext
+  ): GameState => {
+    const land = state.lands.find(l => l.id === action.landId);
+    if (!land) {
+      return state;
+    }
+
+    const piecesOnLand = state.pieces.filter(p =>
+      p.position && CoordinateUtils.equals(p.position, land.position)
+    );
+
+    context.emit({ type: 'LandRemoved', landId: land.id, position: land.position });
+    for (const piece of piecesOnLand) {
+      context.emit({
+        type: 'PieceCaptured',
+        pieceId: piece.id,
+        pieceType: piece.type,
+        ownerId: piece.ownerId,
+        position: land.position,
+        capturedBy: action.builderId
+      });
+    }
+
+    return {
+      ...state,
+      lands: state.lands.filter(l => l.id !== land.id),
+      landPool: LandPoolUtils.put(state, land),
+      pieces: state.pieces.filter(p => !piecesOnLand.includes(p)),
+      graveyard: [...state.graveyard, ...piecesOnLand.map(p => ({ ...p, position: null }))]
+    };
+  };
+
+  private static validateRemoveLand = (state: GameState, action: BuilderRemoveLandAction): boolean | string => {
+    const builder = BuilderPiece.validateBuilder(state, action);
+    if (typeof builder === 'string') {
+      return builder;
+    }
+
+    const land = state.lands.find(l => l.id === action.landId);
+    if (!land) {
+      return 'Land tile not found';
+    }
+
+    if (!CoordinateUtils.equals(land.position, action.position)) {
+      return 'Land tile is not at the given position';
+    }
+
+    // The builder may also pull the tile out from under itself
+    if (!CoordinateUtils.equals(builder.position!, land.position) && !BuilderPiece.isNextTo(builder.position!, land.position)) {
+      return 'Builder must be on or orthogonally next to land to remove it';
+    }
+
+    if (BuilderPiece.hasCitadel(state, land.position)) {
+      return 'Cannot remove land with a citadel on it';
+    }
+
+    return true;
+  };
+
+  private static generateRemoveLand = (state: GameState, playerId: string, pieceId?: string): BuilderRemoveLandAction[] => {
+    return BuilderPiece.getBuilders(state, playerId, pieceId).flatMap(builder =>
+      state.lands
+        .filter(land =>
+          CoordinateUtils.equals(builder.position!, land.position) || BuilderPiece.isNextTo(builder.position!, land.position)
+        )
+        .filter(land => !BuilderPiece.hasCitadel(state, land.position))
+        .map(land => BuilderActionFactory.createRemoveLandAction(
+          playerId, builder.id, land.id, land.position.x, land.position.y
+        ))
+    );
+  };
+}
+
+/**
+ * Factory functions for creating Builder actions
+ * These can be used by the UI or other systems
+ */
+export const BuilderActionFactory = {
+  createPlaceLandAction(
+    playerId: string,
+    builderId: string,
+    landId: string,
+    x: number,
+    y: number
+  ): BuilderPlaceLandAction {
+    return {
+      ...ActionUtils.createBase('builder-place-land', playerId, builderId),
+      type: 'builder-place-land',
+      builderId,
+      landId,
+      position: { x, y }
+    };
+  },
+
+  createMoveLandAction(
+    playerId: string,
+    builderId: string,
+    landId: string,
+    fromX: number,
+    fromY: number,
+    toX: number,
+    toY: number
+  ): BuilderMoveLandAction {
+    return {
+      ...ActionUtils.createBase('builder-move-land', playerId, builderId),
+      type: 'builder-move-land',
+      builderId,
+      landId,
+      fromPosition: { x: fromX, y: fromY },
+      toPosition: { x: toX, y: toY }
+    };
+  },
+
+  createRemoveLandAction(
+    playerId: string,
+    builderId: string,
+    landId: string,
+    x: number,
+    y: number
+  ): BuilderRemoveLandAction {
+    return {
+      ...ActionUtils.createBase('builder-remove-land', playerId, builderId),
+      type: 'builder-remove-land',
+      builderId,
+      landId,
+      position: { x, y }
+    };
+  }
+};
+
+// Auto-register actions when the piece is imported
+BuilderPiece.registerActions();
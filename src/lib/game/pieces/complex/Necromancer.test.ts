@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { NecromancerPiece, NecromancerActionFactory, NECROMANCER_PIECE, type NecromancerResurrectAction } from './Necromancer';
+import { ActionRegistry } from '../../engine/ActionRegistry';
+import { CoreActionHandlers } from '../../engine/CoreActionHandlers';
+import { GameFactory, ActionFactory } from '../../engine/GameFactory';
+import { GameStateDerivation } from '../../engine/ModularGameStateDerivation';
+import { ActionUtils, type MovePieceAction } from '../../engine/BaseActions';
+import { CoordinateUtils } from '../../board/Coordinate';
+import { TurtleUtils } from '../../board/TurtleUtils';
+import type { GameState, Land, Piece } from '../../engine/GameState';
+
+const ALICE = 'player_alice';
+const BOB = 'player_bob';
+
+/**
+ * Land from (0,0) to (2,1); everything else is water
+ */
+const LANDS: Land[] = [0, 1, 2].flatMap(x => [0, 1].map(y => ({ id: `l${x}_${y}`, position: { x, y }, ownerId: ALICE })));
+
+const piece = (id: string, ownerId: string, x: number, y: number, type = 'soldier'): Piece =>
+  ({ id, type, ownerId, position: { x, y } });
+
+const dead = (id: string, ownerId: string, type = 'soldier'): Piece => ({ id, type, ownerId, position: null });
+
+function createBattleState(pieces: Piece[], graveyard: Piece[] = []): GameState {
+  const initialState = GameFactory.createInitialGameState(ALICE);
+  const players = [
+    { ...GameFactory.createPlayer('Alice', true, 0), id: ALICE },
+    { ...GameFactory.createPlayer('Bob', false, 1), id: BOB }
+  ];
+
+  return {
+    ...GameFactory.createGameState(initialState, players),
+    phase: 'battle',
+    currentPlayerId: ALICE,
+    lands: LANDS,
+    pieces,
+    graveyard
+  };
+}
+
+const necromancer = (origin?: Piece['origin']): Piece => ({ ...piece('n1', ALICE, 1, 0, 'necromancer'), origin });
+
+const stashOf = (state: GameState, playerId: string) => state.players.find(p => p.id === playerId)!.personalStash;
+
+describe('NecromancerPiece', () => {
+  beforeEach(() => {
+    ActionRegistry.clear();
+    CoreActionHandlers.registerAll();
+    NecromancerPiece.registerActions();
+  });
+
+  it('registers with its resurrect action', () => {
+    expect(ActionRegistry.default.pieces.get('necromancer')).toBe(NECROMANCER_PIECE);
+    expect(ActionRegistry.isRegistered('necromancer-resurrect')).toBe(true);
+  });
+
+  it('steps one square orthogonally and captures by landing', () => {
+    const state = createBattleState([necromancer(), piece('e1', BOB, 1, 1), piece('e2', BOB, 2, 1)]);
+    const actions = GameStateDerivation.getLegalActions(state, ALICE, 'n1');
+    const moves = actions
+      .filter((a): a is MovePieceAction => a.type === 'move-piece')
+      .map(a => CoordinateUtils.toKey(a.toPosition))
+      .sort();
+
+    expect(moves).toEqual(['0,0', '2,0']);
+    expect(actions.filter(a => a.type === 'capture-piece')).toEqual([expect.objectContaining({ capturedPieceId: 'e1' })]);
+
+    const next = GameStateDerivation.applyAction(state, ActionUtils.createCaptureAction(ALICE, 'n1', 'e1', 1, 1));
+    expect(next.pieces.find(p => p.id === 'n1')?.position).toEqual({ x: 1, y: 1 });
+  });
+
+  it('remembers where selected pieces came from', () => {
+    const state = { ...createBattleState([]), phase: 'piece-selection' as const };
+    const personal = GameStateDerivation.applyAction(state, ActionFactory.createSelectPieceAction(ALICE, 'necromancer'));
+    const community = GameStateDerivation.applyAction(
+      { ...state, currentPlayerId: ALICE },
+      ActionFactory.createSelectPieceAction(ALICE, 'necromancer', 'community')
+    );
+
+    expect(stashOf(personal, ALICE)[0].origin).toEqual({ source: 'personal', playerId: ALICE });
+    expect(community.communityPool[0].origin).toEqual({ source: 'community' });
+  });
+
+  describe('Resurrect', () => {
+    it('swaps itself for a graveyard piece, which joins its side', () => {
+      const state = createBattleState([necromancer({ source: 'personal', playerId: ALICE })], [dead('s1', BOB)]);
+      const next = GameStateDerivation.applyAction(state, NecromancerActionFactory.createResurrectAction(ALICE, 'n1', 's1'));
+
+      expect(next.pieces).toEqual([piece('s1', ALICE, 1, 0)]);
+      expect(next.graveyard).toEqual([]);
+      expect(stashOf(next, ALICE)).toEqual([
+        { id: 'n1', type: 'necromancer', ownerId: ALICE, position: null, origin: { source: 'personal', playerId: ALICE } }
+      ]);
+    });
+
+    it('goes back to the community pool when it came from there', () => {
+      const state = createBattleState([necromancer({ source: 'community' })], [dead('s1', ALICE)]);
+      const next = GameStateDerivation.applyAction(state, NecromancerActionFactory.createResurrectAction(ALICE, 'n1', 's1'));
+
+      expect(next.communityPool).toEqual([
+        { id: 'n1', type: 'necromancer', ownerId: 'community', position: null, origin: { source: 'community' } }
+      ]);
+      expect(stashOf(next, ALICE)).toEqual([]);
+    });
+
+    it('goes back to the stash it was selected into, even under another owner', () => {
+      const state = createBattleState([necromancer({ source: 'personal', playerId: BOB })], [dead('s1', ALICE)]);
+      const next = GameStateDerivation.applyAction(state, NecromancerActionFactory.createResurrectAction(ALICE, 'n1', 's1'));
+
+      expect(stashOf(next, BOB).map(p => [p.id, p.ownerId])).toEqual([['n1', BOB]]);
+      expect(stashOf(next, ALICE)).toEqual([]);
+    });
+
+    it('offers every graveyard piece', () => {
+      const state = createBattleState([necromancer()], [dead('s1', BOB), dead('b1', ALICE, 'bird')]);
+      const resurrections = GameStateDerivation.getLegalActions(state, ALICE, 'n1')
+        .filter((a): a is NecromancerResurrectAction => a.type === 'necromancer-resurrect')
+        .map(a => a.resurrectedPieceId);
+
+      expect(resurrections).toEqual(['s1', 'b1']);
+    });
+
+    it('rejects pieces that are not in the graveyard or cannot stand there', () => {
+      const state = createBattleState([necromancer(), piece('s2', BOB, 0, 0)], [dead('t1', BOB, 'turtle')]);
+
+      expect(GameStateDerivation.validateAction(state, NecromancerActionFactory.createResurrectAction(ALICE, 'n1', 's2')))
+        .toBe('Piece is not in the graveyard');
+      expect(GameStateDerivation.validateAction(state, NecromancerActionFactory.createResurrectAction(ALICE, 'n1', 't1')))
+        .toBe('Turtle cannot take the Necromancer\'s place');
+      expect(GameStateDerivation.validateAction(
+        { ...state, currentPlayerId: BOB },
+        NecromancerActionFactory.createResurrectAction(BOB, 'n1', 't1')
+      )).toBe('Not your piece');
+    });
+
+    it('leaves the revived piece riding the Necromancer\'s turtle', () => {
+      const state = createBattleState(
+        [{ ...piece('t1', BOB, 3, 0, 'turtle'), state: { carriedPieceId: 'n1' } }, { ...necromancer(), position: { x: 3, y: 0 } }],
+        [dead('s1', BOB)]
+      );
+      const next = GameStateDerivation.applyAction(state, NecromancerActionFactory.createResurrectAction(ALICE, 'n1', 's1'));
+
+      expect(TurtleUtils.getCarriedPieceId(next.pieces.find(p => p.id === 't1')!)).toBe('s1');
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { ActionUtils, type BaseGameAction } from '../../engine/BaseActions';
+import type { GameState, Piece, PieceOrigin, Player } from '../../engine/GameState';
+import {
+  ActionRegistry,
+  defineAction,
+  type ActionHandler,
+  type ActionValidator,
+  type ActionGenerator
+} from '../../engine/ActionRegistry';
+import { CoreActionHandlers } from '../../engine/CoreActionHandlers';
+import { SchemaUtils } from '../../engine/ActionSchema';
+import type { PieceDefinition, PieceRegistry } from '../../engine/PieceRegistry';
+import { Board } from '../../board/Board';
+import { MovementUtils } from '../../board/MovementPatterns';
+import { TurtleUtils } from '../../board/TurtleUtils';
+
+/**
+ * The Necromancer swaps itself for a piece from the graveyard. The revived
+ * piece takes its square and the Necromancer goes back where it came from.
+ */
+export interface NecromancerResurrectAction extends BaseGameAction {
+  type: 'necromancer-resurrect';
+  necromancerId: string;
+  resurrectedPieceId: string;
+}
+
+/**
+ * Necromancer piece type: steps one square orthogonally and captures what it lands on
+ */
+export const NECROMANCER_PIECE: PieceDefinition = {
+  type: 'necromancer',
+  displayName: 'Necromancer',
+  layer: 'piece',
+  placement: ['land', 'turtle'],
+  actionTypes: ['move-piece', 'capture-piece', 'necromancer-resurrect'],
+  movement: [MovementUtils.step('orthogonal', 1)],
+  capturesByLanding: true,
+  description: 'Trades places with a piece from the graveyard'
+};
+
+/**
+ * Necromancer piece implementation
+ */
+export class NecromancerPiece {
+  /**
+   * Register the Necromancer piece type and its resurrect action
+   */
+  static registerActions(registry: ActionRegistry = ActionRegistry.default): void {
+    registry.pieces.register(NECROMANCER_PIECE);
+
+    defineAction<NecromancerResurrectAction>(
+      'necromancer-resurrect',
+      NecromancerPiece.handleResurrect,
+      {
+        description: 'Necromancer trades places with a piece from the graveyard',
+        allowedPieceTypes: ['necromancer'],
+        validator: NecromancerPiece.validateResurrect,
+        generator: NecromancerPiece.generateResurrect,
+        mainAction: true,
+        schema: SchemaUtils.object({
+          necromancerId: SchemaUtils.string(),
+          resurrectedPieceId: SchemaUtils.string()
+        })
+      },
+      registry
+    );
+  }
+
+  /**
+   * Where a piece goes back to when it leaves the board alive.
+   * Pieces without an origin belong to their owner's stash.
+   */
+  static getOrigin(piece: Piece): PieceOrigin {
+    return piece.origin ?? { source: 'personal', playerId: piece.ownerId };
+  }
+
+  /**
+   * Give a piece the piece state it had when it was selected
+   */
+  private static withFreshState(piece: Piece, pieces: PieceRegistry): Piece {
+    const { state: _state, ...rest } = piece;
+    const defaultState = pieces.createDefaultState(piece.type);
+    return defaultState ? { ...rest, state: defaultState } : rest;
+  }
+
+  /**
+   * Send a piece back to its personal stash or the community pool
+   */
+  private static returnToOrigin(state: GameState, piece: Piece, pieces: PieceRegistry): GameState {
+    const origin = NecromancerPiece.getOrigin(piece);
+    const returned: Piece = { ...NecromancerPiece.withFreshState(piece, pieces), position: null, origin };
+
+    if (origin.source === 'community') {
+      return { ...state, communityPool: [...state.communityPool, { ...returned, ownerId: 'community' }] };
+    }
+
+    const ownerId = origin.playerId ?? piece.ownerId;
+    return {
+      ...state,
+      players: state.players.map((player: Player) =>
+        player.id === ownerId
+          ? { ...player, personalStash: [...player.personalStash, { ...returned, ownerId }] }
+          : player
+      )
+    };
+  }
+
+  private static handleResurrect: ActionHandler<NecromancerResurrectAction> = (state: GameState, action, context) => {
+    const necromancer = state.pieces.find(p => p.id === action.necromancerId);
+    const revived = state.graveyard.find(p => p.id === action.resurrectedPieceId);
+    if (!necromancer?.position || !revived) {
+      return state;
+    }
+
+    const pieces = context.registry.pieces;
+    const revivedPiece: Piece = {
+      ...NecromancerPiece.withFreshState(revived, pieces),
+      ownerId: necromancer.ownerId,
+      position: necromancer.position
+    };
+
+    context.emit({
+      type: 'PieceResurrected',
+      pieceId: revivedPiece.id,
+      pieceType: revivedPiece.type,
+      ownerId: revivedPiece.ownerId,
+      position: necromancer.position,
+      necromancerId: necromancer.id
+    });
+
+    const swapped: GameState = {
+      ...state,
+      graveyard: state.graveyard.filter(p => p.id !== revived.id),
+      pieces: TurtleUtils.syncCarriedPieces(
+        state.pieces.map(p => (p.id === necromancer.id ? revivedPiece : p)),
+        pieces
+      )
+    };
+
+    return NecromancerPiece.returnToOrigin(swapped, necromancer, pieces);
+  };
+
+  private static validateResurrect: ActionValidator<NecromancerResurrectAction> = (state: GameState, action, context) => {
+    if (state.phase !== 'battle') {
+      return 'Necromancer actions are only possible during battle phase';
+    }
+
+    if (state.currentPlayerId !== action.playerId) {
+      return 'Not your turn';
+    }
+
+    const necromancer = state.pieces.find(p => p.id === action.necromancerId && p.type === 'necromancer');
+    if (!necromancer?.position) {
+      return 'Necromancer not found or not on board';
+    }
+
+    if (necromancer.ownerId !== action.playerId) {
+      return 'Not your piece';
+    }
+
+    const revived = state.graveyard.find(p => p.id === action.resurrectedPieceId);
+    if (!revived) {
+      return 'Piece is not in the graveyard';
+    }
+
+    // The revived piece takes the Necromancer's square, so it must be able to stand there
+    const pieces = context.registry.pieces;
+    const tile = new Board(state.lands, state.pieces, state.citadels, pieces).getTileInfo(necromancer.position);
+    if (pieces.isFoundation(revived.type) || !pieces.canBePlacedOn(revived.type, tile.foundationLayer)) {
+      return `${pieces.getDisplayName(revived.type)} cannot take the Necromancer's place`;
+    }
+
+    return true;
+  };
+
+  private static generateResurrect: ActionGenerator<NecromancerResurrectAction> = (state: GameState, playerId, pieceId) => {
+    return CoreActionHandlers.getPiecesOnBoard(state, playerId, pieceId)
+      .filter(piece => piece.type === 'necromancer')
+      .flatMap(necromancer => state.graveyard.map(revived =>
+        NecromancerActionFactory.createResurrectAction(playerId, necromancer.id, revived.id)
+      ));
+  };
+}
+
+/**
+ * Factory functions for creating Necromancer actions
+ */
+export const NecromancerActionFactory = {
+  createResurrectAction(playerId: string, necromancerId: string, resurrectedPieceId: string): NecromancerResurrectAction {
+    return {
+      ...ActionUtils.createBase('necromancer-resurrect', playerId, necromancerId),
+      type: 'necromancer-resurrect',
+      necromancerId,
+      resurrectedPieceId
+    };
+  }
+};
+
+// Auto-register actions when the piece is imported
+NecromancerPiece.registerActions();
@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { TurtlePiece, TurtleActionFactory, TURTLE_PIECE } from './Turtle';
+import { SoldierPiece } from '../basic/Soldier';
+import { ActionRegistry } from '../../engine/ActionRegistry';
+import { CoreActionHandlers } from '../../engine/CoreActionHandlers';
+import { GameFactory, ActionFactory } from '../../engine/GameFactory';
+import { GameStateDerivation } from '../../engine/ModularGameStateDerivation';
+import { ActionUtils, type MovePieceAction, type PlacePieceAction } from '../../engine/BaseActions';
+import { Board } from '../../board/Board';
+import { CoordinateUtils } from '../../board/Coordinate';
+import { TurtleUtils } from '../../board/TurtleUtils';
+import type { GameState, Land, Piece } from '../../engine/GameState';
+
+const ALICE = 'player_alice';
+const BOB = 'player_bob';
+
+/**
+ * Land from (0,0) to (2,0) with Alice's citadel at (0,0); everything else is water
+ */
+const LANDS: Land[] = [0, 1, 2].map(x => ({ id: `l${x}`, position: { x, y: 0 }, ownerId: ALICE }));
+
+const piece = (id: string, ownerId: string, x: number, y: number, type = 'soldier'): Piece =>
+  ({ id, type, ownerId, position: { x, y } });
+
+const turtle = (id: string, ownerId: string, x: number, y: number): Piece =>
+  ({ ...piece(id, ownerId, x, y, 'turtle'), state: {} });
+
+function createBattleState(pieces: Piece[], stash: Piece[] = []): GameState {
+  const initialState = GameFactory.createInitialGameState(ALICE);
+  const players = [
+    { ...GameFactory.createPlayer('Alice', true, 0), id: ALICE, personalStash: stash },
+    { ...GameFactory.createPlayer('Bob', false, 1), id: BOB }
+  ];
+
+  return {
+    ...GameFactory.createGameState(initialState, players),
+    phase: 'battle',
+    currentPlayerId: ALICE,
+    lands: LANDS,
+    citadels: [{ id: 'c1', position: { x: 0, y: 0 }, ownerId: ALICE }],
+    pieces
+  };
+}
+
+const find = (state: GameState, id: string) => state.pieces.find(p => p.id === id)!;
+
+describe('TurtlePiece', () => {
+  beforeEach(() => {
+    ActionRegistry.clear();
+    CoreActionHandlers.registerAll();
+    TurtlePiece.registerActions();
+  });
+
+  it('registers as a foundation piece with its own actions', () => {
+    expect(ActionRegistry.default.pieces.get('turtle')).toBe(TURTLE_PIECE);
+    expect(ActionRegistry.isRegistered('turtle-board')).toBe(true);
+    expect(ActionRegistry.isRegistered('turtle-disembark')).toBe(true);
+    expect(ActionRegistry.isRegistered('turtle-attack')).toBe(true);
+  });
+
+  describe('Placement', () => {
+    it('goes into the water next to its owner\'s citadel', () => {
+      const state = createBattleState([], [{ id: 't1', type: 'turtle', ownerId: ALICE, position: null, state: {} }]);
+      const placements = GameStateDerivation.getLegalActions(state, ALICE, 't1')
+        .filter((a): a is PlacePieceAction => a.type === 'place-piece');
+
+      expect(placements.map(p => CoordinateUtils.toKey(p.position)).sort()).toEqual(['-1,0', '0,-1', '0,1']);
+      expect(GameStateDerivation.validateAction(state, ActionFactory.createPlacePieceAction(ALICE, 't1', 1, 1)))
+        .toBe('Turtle must be placed next to your citadel');
+      expect(GameStateDerivation.validateAction(state, ActionFactory.createPlacePieceAction(ALICE, 't1', 1, 0)))
+        .toBe('Turtle cannot be placed on land');
+    });
+  });
+
+  describe('Movement', () => {
+    it('swims one square in any direction through water', () => {
+      const state = createBattleState([turtle('t1', ALICE, 1, 1)]);
+      const moves = GameStateDerivation.getLegalActions(state, ALICE, 't1')
+        .filter((a): a is MovePieceAction => a.type === 'move-piece')
+        .map(a => CoordinateUtils.toKey(a.toPosition))
+        .sort();
+
+      expect(moves).toEqual(['0,1', '0,2', '1,2', '2,1', '2,2']);
+      expect(GameStateDerivation.validateAction(state, ActionUtils.createMoveAction(ALICE, 't1', 1, 1, 1, 3)))
+        .toBe('Turtle cannot move to (1, 3)');
+    });
+
+    it('carries its passenger along', () => {
+      const state = createBattleState([
+        { ...turtle('t1', ALICE, 1, 1), state: { carriedPieceId: 's1' } },
+        piece('s1', BOB, 1, 1)
+      ]);
+      const next = GameStateDerivation.applyAction(state, ActionUtils.createMoveAction(ALICE, 't1', 1, 1, 2, 2));
+
+      expect(find(next, 't1').position).toEqual({ x: 2, y: 2 });
+      expect(find(next, 's1').position).toEqual({ x: 2, y: 2 });
+      expect(TurtleUtils.getCarriedPieceId(find(next, 't1'))).toBe('s1');
+    });
+  });
+
+  describe('Boarding', () => {
+    it('lets an adjacent piece climb onto the turtle\'s back', () => {
+      const state = createBattleState([turtle('t1', BOB, 1, 1), piece('s1', ALICE, 1, 0)]);
+      const next = GameStateDerivation.applyAction(state, TurtleActionFactory.createBoardAction(ALICE, 's1', 't1'));
+      const board = new Board(next.lands, next.pieces, next.citadels);
+
+      expect(find(next, 's1').position).toEqual({ x: 1, y: 1 });
+      expect(TurtleUtils.getCarriedPieceId(find(next, 't1'))).toBe('s1');
+      expect(TurtleUtils.getCarriedPiece(find(next, 't1'), board)?.id).toBe('s1');
+    });
+
+    it('rejects boarding a distant or occupied turtle', () => {
+      const state = createBattleState([
+        turtle('t1', ALICE, 1, 1),
+        turtle('t2', ALICE, 1, 3),
+        piece('s1', ALICE, 1, 0),
+        piece('s2', ALICE, 1, 1)
+      ]);
+
+      expect(GameStateDerivation.validateAction(state, TurtleActionFactory.createBoardAction(ALICE, 's1', 't2')))
+        .toBe('Piece must be orthogonally next to the turtle to board it');
+      expect(GameStateDerivation.validateAction(state, TurtleActionFactory.createBoardAction(ALICE, 's1', 't1')))
+        .toBe('Turtle is already carrying a piece');
+    });
+
+    it('rejects boarding from a diagonal square', () => {
+      const state = createBattleState([turtle('t1', ALICE, 1, 1), piece('s1', ALICE, 2, 0)]);
+
+      expect(GameStateDerivation.validateAction(state, TurtleActionFactory.createBoardAction(ALICE, 's1', 't1')))
+        .toBe('Piece must be orthogonally next to the turtle to board it');
+      expect(GameStateDerivation.getLegalActions(state, ALICE, 's1').some(a => a.type === 'turtle-board')).toBe(false);
+    });
+
+    it('steps off onto adjacent land but not into the water', () => {
+      const state = createBattleState([
+        { ...turtle('t1', ALICE, 1, 1), state: { carriedPieceId: 's1' } },
+        piece('s1', ALICE, 1, 1)
+      ]);
+
+      expect(GameStateDerivation.validateAction(state, TurtleActionFactory.createDisembarkAction(ALICE, 's1', 't1', 2, 2)))
+        .toBe('Soldier cannot step off onto (2, 2)');
+
+      const next = GameStateDerivation.applyAction(state, TurtleActionFactory.createDisembarkAction(ALICE, 's1', 't1', 2, 0));
+      expect(find(next, 's1').position).toEqual({ x: 2, y: 0 });
+      expect(find(next, 't1').state).toEqual({});
+    });
+
+    it('keeps the turtle\'s state in step when pieces walk on and off', () => {
+      const state = createBattleState([turtle('t1', ALICE, 1, 1), piece('s1', ALICE, 1, 0)]);
+
+      const boarded = GameStateDerivation.applyAction(state, ActionUtils.createMoveAction(ALICE, 's1', 1, 0, 1, 1));
+      expect(TurtleUtils.getCarriedPieceId(find(boarded, 't1'))).toBe('s1');
+
+      const left = GameStateDerivation.applyAction(
+        { ...boarded, currentPlayerId: ALICE },
+        ActionUtils.createMoveAction(ALICE, 's1', 1, 1, 0, 0)
+      );
+      expect(TurtleUtils.isCarryingPiece(find(left, 't1'))).toBe(false);
+    });
+  });
+
+  describe('Attack', () => {
+    it('attacks pieces on orthogonally adjacent land', () => {
+      const state = createBattleState([turtle('t1', ALICE, 1, 1), piece('e1', BOB, 1, 0), piece('e2', BOB, 2, 0)]);
+      const attacks = GameStateDerivation.getLegalActions(state, ALICE, 't1').filter(a => a.type === 'turtle-attack');
+
+      expect(attacks).toEqual([expect.objectContaining({ targetId: 'e1' })]);
+      expect(GameStateDerivation.validateAction(state, TurtleActionFactory.createAttackAction(ALICE, 't1', 'e2', 2, 0)))
+        .toBe('Turtle can only attack pieces on adjacent land or on its back');
+      expect(GameStateDerivation.validateAction(state, TurtleActionFactory.createAttackAction(ALICE, 't1', 'e1', 2, 0)))
+        .toBe('Target is not at the capture position');
+
+      const next = GameStateDerivation.applyAction(state, TurtleActionFactory.createAttackAction(ALICE, 't1', 'e1', 1, 0));
+      expect(next.graveyard.map(p => p.id)).toEqual(['e1']);
+      expect(find(next, 't1').position).toEqual({ x: 1, y: 1 });
+    });
+
+    it('attacks an enemy riding on its back', () => {
+      const state = createBattleState([
+        { ...turtle('t1', ALICE, 1, 1), state: { carriedPieceId: 'e1' } },
+        piece('e1', BOB, 1, 1)
+      ]);
+      const next = GameStateDerivation.applyAction(state, TurtleActionFactory.createAttackAction(ALICE, 't1', 'e1', 1, 1));
+
+      expect(next.graveyard.map(p => p.id)).toEqual(['e1']);
+      expect(TurtleUtils.isCarryingPiece(find(next, 't1'))).toBe(false);
+    });
+
+    it('does not attack its own pieces', () => {
+      const state = createBattleState([turtle('t1', ALICE, 1, 1), piece('s1', ALICE, 1, 0)]);
+
+      expect(GameStateDerivation.validateAction(state, TurtleActionFactory.createAttackAction(ALICE, 't1', 's1', 1, 0)))
+        .toBe('Cannot capture your own piece');
+    });
+  });
+
+  it('can be captured by an enemy piece once nothing rides on it', () => {
+    SoldierPiece.registerActions();
+    const state = createBattleState([turtle('t1', BOB, 1, 1), piece('s1', ALICE, 1, 0)]);
+    const capture = ActionUtils.createCaptureAction(ALICE, 's1', 't1', 1, 1);
+
+    expect(GameStateDerivation.getLegalActions(state, ALICE, 's1')).toContainEqual(
+      expect.objectContaining({ type: 'capture-piece', capturedPieceId: 't1' })
+    );
+    expect(GameStateDerivation.validateAction(state, capture)).toBe(true);
+
+    const next = GameStateDerivation.applyAction(state, capture);
+    expect(next.graveyard.map(p => p.id)).toEqual(['t1']);
+    // The square is water again, so the soldier stays where it was
+    expect(find(next, 's1').position).toEqual({ x: 1, y: 0 });
+  });
+
+  it('takes its passenger down with it when captured', () => {
+    const state = createBattleState([
+      { ...turtle('t1', BOB, 1, 1), state: { carriedPieceId: 'e1' } },
+      piece('e1', BOB, 1, 1),
+      piece('b1', ALICE, 1, 0, 'bomber')
+    ]);
+    const next = GameStateDerivation.applyAction(state, ActionUtils.createCaptureAction(ALICE, 'b1', 't1', 1, 1));
+
+    expect(next.pieces.map(p => p.id)).toEqual(['b1']);
+    expect(next.graveyard).toEqual([
+      { ...turtle('t1', BOB, 1, 1), position: null, state: {} },
+      { ...piece('e1', BOB, 1, 1), position: null }
+    ]);
+  });
+});
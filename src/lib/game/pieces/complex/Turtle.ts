@@ -0,0 +1,367 @@
+import { ActionUtils, type BaseGameAction } from '../../engine/BaseActions';
+import type { GameState, Piece } from '../../engine/GameState';
+import {
+  ActionRegistry,
+  defineAction,
+  type ActionHandler,
+  type ActionValidator,
+  type ActionGenerator,
+  type ValidationContext
+} from '../../engine/ActionRegistry';
+import { CoreActionHandlers } from '../../engine/CoreActionHandlers';
+import { SchemaUtils } from '../../engine/ActionSchema';
+import type { PieceDefinition } from '../../engine/PieceRegistry';
+import { Board } from '../../board/Board';
+import { CoordinateUtils, type Coordinate } from '../../board/Coordinate';
+import { MovementUtils } from '../../board/MovementPatterns';
+import { TurtleUtils } from '../../board/TurtleUtils';
+
+/**
+ * A piece climbs onto the back of an orthogonally adjacent turtle
+ */
+export interface TurtleBoardAction extends BaseGameAction {
+  type: 'turtle-board';
+  pieceId: string;
+  turtleId: string;
+}
+
+/**
+ * The piece on a turtle's back steps off onto an adjacent square
+ */
+export interface TurtleDisembarkAction extends BaseGameAction {
+  type: 'turtle-disembark';
+  pieceId: string;
+  turtleId: string;
+  position: Coordinate;
+}
+
+/**
+ * A turtle attacks a piece on orthogonally adjacent land or on its own back
+ */
+export interface TurtleAttackAction extends BaseGameAction {
+  type: 'turtle-attack';
+  turtleId: string;
+  targetId: string;
+  position: Coordinate;
+}
+
+/**
+ * Turtle piece type: swims one square in any direction through water,
+ * carrying the piece on its back along (move-piece handles that)
+ */
+export const TURTLE_PIECE: PieceDefinition = {
+  type: 'turtle',
+  displayName: 'Turtle',
+  layer: 'foundation',
+  placement: ['water'],
+  defaultState: {},
+  actionTypes: ['move-piece', 'turtle-attack'],
+  movement: [MovementUtils.moveOnly(MovementUtils.step('any', 1))],
+  description: 'Swims in water and carries a piece on its back'
+};
+
+/**
+ * Turtle piece implementation
+ */
+export class TurtlePiece {
+  /**
+   * Register the Turtle piece type and its boarding and attack actions
+   */
+  static registerActions(registry: ActionRegistry = ActionRegistry.default): void {
+    registry.pieces.register(TURTLE_PIECE);
+
+    defineAction<TurtleBoardAction>(
+      'turtle-board',
+      TurtlePiece.handleBoard,
+      {
+        description: 'A piece climbs onto an orthogonally adjacent turtle',
+        validator: TurtlePiece.validateBoard,
+        generator: TurtlePiece.generateBoard,
+        mainAction: true,
+        schema: SchemaUtils.object({
+          pieceId: SchemaUtils.string(),
+          turtleId: SchemaUtils.string()
+        })
+      },
+      registry
+    );
+
+    defineAction<TurtleDisembarkAction>(
+      'turtle-disembark',
+      TurtlePiece.handleDisembark,
+      {
+        description: 'The piece on a turtle steps off onto an adjacent square',
+        validator: TurtlePiece.validateDisembark,
+        generator: TurtlePiece.generateDisembark,
+        mainAction: true,
+        schema: SchemaUtils.object({
+          pieceId: SchemaUtils.string(),
+          turtleId: SchemaUtils.string(),
+          position: SchemaUtils.coordinate()
+        })
+      },
+      registry
+    );
+
+    defineAction<TurtleAttackAction>(
+      'turtle-attack',
+      TurtlePiece.handleAttack,
+      {
+        description: 'Turtle attacks a piece on adjacent land or on its back',
+        allowedPieceTypes: ['turtle'],
+        validator: TurtlePiece.validateAttack,
+        generator: TurtlePiece.generateAttack,
+        mainAction: true,
+        schema: SchemaUtils.object({
+          turtleId: SchemaUtils.string(),
+          targetId: SchemaUtils.string(),
+          position: SchemaUtils.coordinate()
+        })
+      },
+      registry
+    );
+  }
+
+  /**
+   * Check the phase and turn shared by all turtle actions
+   */
+  private static validateTurn(state: GameState, action: BaseGameAction): true | string {
+    if (state.phase !== 'battle') {
+      return 'Turtle actions are only possible during battle phase';
+    }
+
+    if (state.currentPlayerId !== action.playerId) {
+      return 'Not your turn';
+    }
+
+    return true;
+  }
+
+  /**
+   * Find a turtle on the board
+   */
+  private static findTurtle(state: GameState, turtleId: string): Piece | undefined {
+    return state.pieces.find(p => p.id === turtleId && p.position && TurtleUtils.isTurtle(p));
+  }
+
+  /**
+   * Move a piece to a new square and update what the turtles carry
+   */
+  private static movePiece(state: GameState, pieceId: string, to: Coordinate, context: ValidationContext): GameState {
+    const pieces = state.pieces.map(p => (p.id === pieceId ? { ...p, position: to } : p));
+    return { ...state, pieces: TurtleUtils.syncCarriedPieces(pieces, context.registry.pieces) };
+  }
+
+  private static handleBoard: ActionHandler<TurtleBoardAction> = (state: GameState, action, context) => {
+    const piece = state.pieces.find(p => p.id === action.pieceId);
+    const turtle = TurtlePiece.findTurtle(state, action.turtleId);
+    if (!piece || !turtle?.position) {
+      return state;
+    }
+
+    context.emit({ type: 'PieceMoved', pieceId: piece.id, from: piece.position, to: turtle.position });
+    return TurtlePiece.movePiece(state, piece.id, turtle.position, context);
+  };
+
+  private static validateBoard: ActionValidator<TurtleBoardAction> = (state: GameState, action, context) => {
+    const turn = TurtlePiece.validateTurn(state, action);
+    if (turn !== true) {
+      return turn;
+    }
+
+    const piece = state.pieces.find(p => p.id === action.pieceId);
+    if (!piece?.position) {
+      return 'Piece not found or not on board';
+    }
+
+    if (piece.ownerId !== action.playerId) {
+      return 'Not your piece';
+    }
+
+    if (!context.registry.pieces.canBePlacedOn(piece.type, 'turtle')) {
+      return `${context.registry.pieces.getDisplayName(piece.type)} cannot ride a turtle`;
+    }
+
+    const turtle = TurtlePiece.findTurtle(state, action.turtleId);
+    if (!turtle?.position) {
+      return 'Turtle not found or not on board';
+    }
+
+    if (!CoordinateUtils.areOrthogonallyAdjacent(piece.position, turtle.position)) {
+      return 'Piece must be orthogonally next to the turtle to board it';
+    }
+
+    const board = new Board(state.lands, state.pieces, state.citadels, context.registry.pieces);
+    if (TurtleUtils.getCarriedPiece(turtle, board)) {
+      return 'Turtle is already carrying a piece';
+    }
+
+    return true;
+  };
+
+  private static generateBoard: ActionGenerator<TurtleBoardAction> = (state: GameState, playerId, pieceId) => {
+    const turtles = state.pieces.filter(p => p.position && TurtleUtils.isTurtle(p));
+
+    return CoreActionHandlers.getPiecesOnBoard(state, playerId, pieceId)
+      .filter(piece => !TurtleUtils.isTurtle(piece))
+      .flatMap(piece => turtles
+        .filter(turtle => CoordinateUtils.areOrthogonallyAdjacent(piece.position!, turtle.position!))
+        .map(turtle => TurtleActionFactory.createBoardAction(playerId, piece.id, turtle.id))
+      );
+  };
+
+  private static handleDisembark: ActionHandler<TurtleDisembarkAction> = (state: GameState, action, context) => {
+    const piece = state.pieces.find(p => p.id === action.pieceId);
+    if (!piece) {
+      return state;
+    }
+
+    context.emit({ type: 'PieceMoved', pieceId: piece.id, from: piece.position, to: action.position });
+    return TurtlePiece.movePiece(state, piece.id, action.position, context);
+  };
+
+  private static validateDisembark: ActionValidator<TurtleDisembarkAction> = (state: GameState, action, context) => {
+    const turn = TurtlePiece.validateTurn(state, action);
+    if (turn !== true) {
+      return turn;
+    }
+
+    const turtle = TurtlePiece.findTurtle(state, action.turtleId);
+    if (!turtle?.position) {
+      return 'Turtle not found or not on board';
+    }
+
+    const board = new Board(state.lands, state.pieces, state.citadels, context.registry.pieces);
+    const passenger = TurtleUtils.getCarriedPiece(turtle, board);
+    if (!passenger || passenger.id !== action.pieceId) {
+      return 'Piece is not on that turtle';
+    }
+
+    if (passenger.ownerId !== action.playerId) {
+      return 'Not your piece';
+    }
+
+    if (!CoordinateUtils.areAdjacent(turtle.position, action.position)) {
+      return 'Can only step off onto a square next to the turtle';
+    }
+
+    if (!MovementUtils.canStandOn(passenger, action.position, board, context.registry.pieces)) {
+      return `${context.registry.pieces.getDisplayName(passenger.type)} cannot step off onto (${action.position.x}, ${action.position.y})`;
+    }
+
+    return true;
+  };
+
+  private static generateDisembark: ActionGenerator<TurtleDisembarkAction> = (
+    state: GameState,
+    playerId,
+    pieceId,
+    context = ActionRegistry.default.createContext()
+  ) => {
+    const board = new Board(state.lands, state.pieces, state.citadels, context.registry.pieces);
+
+    return state.pieces
+      .filter(turtle => turtle.position && TurtleUtils.isTurtle(turtle))
+      .flatMap(turtle => {
+        const passenger = TurtleUtils.getCarriedPiece(turtle, board);
+        if (!passenger || passenger.ownerId !== playerId || (pieceId && passenger.id !== pieceId)) {
+          return [];
+        }
+
+        return CoordinateUtils.getAllAdjacent(turtle.position!).map(coord =>
+          TurtleActionFactory.createDisembarkAction(playerId, passenger.id, turtle.id, coord.x, coord.y)
+        );
+      });
+  };
+
+  private static handleAttack: ActionHandler<TurtleAttackAction> = (state: GameState, action, context) => {
+    return CoreActionHandlers.removeCaptured(state, action.targetId, action.turtleId, action.position, context);
+  };
+
+  private static validateAttack: ActionValidator<TurtleAttackAction> = (state: GameState, action, context) => {
+    const turn = TurtlePiece.validateTurn(state, action);
+    if (turn !== true) {
+      return turn;
+    }
+
+    const turtle = TurtlePiece.findTurtle(state, action.turtleId);
+    if (!turtle) {
+      return 'Turtle not found or not on board';
+    }
+
+    if (turtle.ownerId !== action.playerId) {
+      return 'Not your piece';
+    }
+
+    const board = new Board(state.lands, state.pieces, state.citadels, context.registry.pieces);
+    const target = TurtleUtils.getAttackableTargets(turtle, board).find(p => p.id === action.targetId);
+    if (!target) {
+      return 'Turtle can only attack pieces on adjacent land or on its back';
+    }
+
+    if (target.ownerId === action.playerId) {
+      return 'Cannot capture your own piece';
+    }
+
+    if (!CoordinateUtils.equals(target.position!, action.position)) {
+      return 'Target is not at the capture position';
+    }
+
+    return true;
+  };
+
+  private static generateAttack: ActionGenerator<TurtleAttackAction> = (
+    state: GameState,
+    playerId,
+    pieceId,
+    context = ActionRegistry.default.createContext()
+  ) => {
+    const board = new Board(state.lands, state.pieces, state.citadels, context.registry.pieces);
+
+    return CoreActionHandlers.getPiecesOnBoard(state, playerId, pieceId)
+      .filter(turtle => TurtleUtils.isTurtle(turtle))
+      .flatMap(turtle => TurtleUtils.getAttackableTargets(turtle, board)
+        .filter(target => target.ownerId !== playerId)
+        .map(target => TurtleActionFactory.createAttackAction(
+          playerId, turtle.id, target.id, target.position!.x, target.position!.y
+        ))
+      );
+  };
+}
+
+/**
+ * Factory functions for creating Turtle actions
+ */
+export const TurtleActionFactory = {
+  createBoardAction(playerId: string, pieceId: string, turtleId: string): TurtleBoardAction {
+    return {
+      ...ActionUtils.createBase('turtle-board', playerId, pieceId),
+      type: 'turtle-board',
+      pieceId,
+      turtleId
+    };
+  },
+
+  createDisembarkAction(playerId: string, pieceId: string, turtleId: string, x: number, y: number): TurtleDisembarkAction {
+    return {
+      ...ActionUtils.createBase('turtle-disembark', playerId, pieceId),
+      type: 'turtle-disembark',
+      pieceId,
+      turtleId,
+      position: { x, y }
+    };
+  },
+
+  createAttackAction(playerId: string, turtleId: string, targetId: string, x: number, y: number): TurtleAttackAction {
+    return {
+      ...ActionUtils.createBase('turtle-attack', playerId, turtleId),
+      type: 'turtle-attack',
+      turtleId,
+      targetId,
+      position: { x, y }
+    };
+  }
+};
+
+// Auto-register actions when the piece is imported
+TurtlePiece.registerActions();
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { ActionRegistry } from '../engine/ActionRegistry';
+import { CoreActionHandlers } from '../engine/CoreActionHandlers';
+import { GameFactory, ActionFactory, SerializationUtils } from '../engine/GameFactory';
+import { GameStateDerivation } from '../engine/ModularGameStateDerivation';
+import { SchemaUtils } from '../engine/ActionSchema';
+import { ActionUtils, type BaseGameAction } from '../engine/BaseActions';
+
+const ALICE = 'player_alice';
+const BOB = 'player_bob';
+
+describe('Action Schemas', () => {
+  beforeEach(() => {
+    ActionRegistry.clear();
+    CoreActionHandlers.registerAll();
+  });
+
+  describe('SchemaUtils', () => {
+    const schema = SchemaUtils.object({
+      name: SchemaUtils.string(),
+      position: SchemaUtils.coordinate(),
+      side: SchemaUtils.oneOf(['left', 'right']),
+      tags: SchemaUtils.optional(SchemaUtils.array(SchemaUtils.string()))
+    });
+
+    it('should accept matching values and extra fields', () => {
+      const value = { name: 'a', position: { x: 1, y: -2 }, side: 'left', extra: true };
+      expect(SchemaUtils.validate(schema, value)).toEqual([]);
+    });
+
+    it('should report every bad field with its path', () => {
+      const issues = SchemaUtils.validate(schema, { position: { x: 1.5 }, side: 'up', tags: ['a', 2] });
+
+      expect(issues).toEqual([
+        { path: 'name', message: 'is required' },
+        { path: 'position.x', message: 'expected an integer' },
+        { path: 'position.y', message: 'is required' },
+        { path: 'side', message: 'expected one of "left", "right"' },
+        { path: 'tags[1]', message: 'expected a string' }
+      ]);
+      expect(SchemaUtils.formatIssues(issues.slice(0, 2))).toBe('name is required; position.x expected an integer');
+    });
+
+    it('should reject values that are not objects', () => {
+      expect(SchemaUtils.validate(schema, null)).toEqual([{ path: '', message: 'expected an object' }]);
+      expect(SchemaUtils.validate(schema, [])).toEqual([{ path: '', message: 'expected an object' }]);
+    });
+  });
+
+  describe('Action payloads', () => {
+    const malformedPlacePiece = (): BaseGameAction => {
+      const { position: _position, ...action } = ActionFactory.createPlacePieceAction(ALICE, 'piece_1', 0, 0);
+      return action;
+    };
+
+    it('should check payloads before the validator runs', () => {
+      expect(ActionRegistry.checkPayload(malformedPlacePiece())).toBe('Invalid place-piece action: position is required');
+      const state = GameStateDerivation.createBaseState(GameFactory.createInitialGameState(ALICE));
+      expect(GameStateDerivation.validateAction(state, malformedPlacePiece()))
+        .toBe('Invalid place-piece action: position is required');
+    });
+
+    it('should check the base action fields of every action', () => {
+      const action = { ...ActionUtils.createBase('end-turn', ALICE), timestamp: 'yesterday' };
+      expect(ActionRegistry.checkPayload(action)).toBe('Invalid end-turn action: timestamp expected a number');
+      expect(ActionRegistry.checkPayload('end-turn')).toBe('Invalid unknown action: expected an object');
+    });
+
+    it('should reject malformed actions in strict derivation instead of crashing', () => {
+      const gameDoc = GameFactory.createGameDocument(ALICE);
+      const result = GameStateDerivation.deriveStateStrict(gameDoc.initialState, [
+        ActionFactory.createJoinGameAction(ALICE, 'Alice'),
+        malformedPlacePiece()
+      ]);
+
+      expect(result.rejections).toHaveLength(1);
+      expect(result.rejections[0].reason).toBe('Invalid place-piece action: position is required');
+    });
+  });
+
+  describe('Deserialization', () => {
+    const createStoredGame = () => {
+      const gameDoc = GameFactory.createGameDocument(ALICE);
+      gameDoc.actions.push(
+        ActionFactory.createJoinGameAction(ALICE, 'Alice'),
+        ActionFactory.createJoinGameAction(BOB, 'Bob')
+      );
+      return SerializationUtils.serializeGameDocument(gameDoc);
+    };
+
+    it('should load valid documents', () => {
+      const data = createStoredGame();
+      expect(SerializationUtils.deserializeGameDocument(data).actions).toEqual(data.actions);
+    });
+
+    it('should report malformed actions with their index and fields', () => {
+      const data = createStoredGame();
+      const actions = data.actions as Record<string, unknown>[];
+      actions.push({ ...ActionFactory.createPlaceLandAction(ALICE, 0, 0, 'pooled_land_1'), position: { x: '0', y: 0 } });
+
+      expect(() => SerializationUtils.deserializeGameDocument(data)).toThrow(
+        'Invalid game document: actions[2]: Invalid place-land action: position.x expected an integer'
+      );
+    });
+
+    it('should report a malformed document', () => {
+      const data: Record<string, unknown> = { ...createStoredGame(), actions: 'none' };
+      delete data.version;
+
+      expect(() => SerializationUtils.deserializeGameDocument(data)).toThrow(
+        'Invalid game document: actions expected an array; version is required'
+      );
+    });
+  });
+});
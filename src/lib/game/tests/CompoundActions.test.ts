@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { ActionRegistry } from '../engine/ActionRegistry';
+import { CoreActionHandlers } from '../engine/CoreActionHandlers';
+import { GameFactory } from '../engine/GameFactory';
+import { GameStateDerivation } from '../engine/ModularGameStateDerivation';
+import { SoldierPiece } from '../pieces/basic/Soldier';
+import { ActionUtils } from '../engine/BaseActions';
+import type { GameState } from '../engine/GameState';
+
+const ALICE = 'player_alice';
+const BOB = 'player_bob';
+
+/**
+ * Alice's soldier at (0,1), Bob's soldier at (1,1), citadels at (0,0) and (2,0)
+ */
+function createBattleState(overrides: Partial<GameState> = {}): GameState {
+  const initialState = GameFactory.createInitialGameState(ALICE);
+  const players = [
+    { ...GameFactory.createPlayer('Alice', true, 0), id: ALICE },
+    { ...GameFactory.createPlayer('Bob', false, 1), id: BOB }
+  ];
+
+  return {
+    ...GameFactory.createGameState(initialState, players),
+    phase: 'battle',
+    currentPlayerId: ALICE,
+    lands: [
+      { id: 'l1', position: { x: 0, y: 0 }, ownerId: ALICE },
+      { id: 'l2', position: { x: 1, y: 0 }, ownerId: ALICE },
+      { id: 'l3', position: { x: 2, y: 0 }, ownerId: BOB },
+      { id: 'l4', position: { x: 0, y: 1 }, ownerId: ALICE },
+      { id: 'l5', position: { x: 1, y: 1 }, ownerId: BOB }
+    ],
+    citadels: [
+      { id: 'c1', position: { x: 0, y: 0 }, ownerId: ALICE },
+      { id: 'c2', position: { x: 2, y: 0 }, ownerId: BOB }
+    ],
+    pieces: [
+      { id: 's1', type: 'soldier', ownerId: ALICE, position: { x: 0, y: 1 } },
+      { id: 's2', type: 'soldier', ownerId: BOB, position: { x: 1, y: 1 } }
+    ],
+    ...overrides
+  };
+}
+
+const moveAndCapture = () => ActionUtils.createCompoundAction(ALICE, [
+  ActionUtils.createMoveAction(ALICE, 's1', 0, 1, 1, 0),
+  ActionUtils.createCaptureAction(ALICE, 's1', 's2', 1, 1)
+], 'Move and capture');
+
+describe('Compound Actions', () => {
+  beforeEach(() => {
+    ActionRegistry.clear();
+    CoreActionHandlers.registerAll();
+    SoldierPiece.registerActions();
+  });
+
+  it('should apply all steps as one move', () => {
+    const compound = moveAndCapture();
+    const events: string[] = [];
+
+    const result = GameStateDerivation.tryApplyAction(createBattleState(), compound, {
+      onEvents: entry => events.push(...entry.events.map(e => `${entry.actionType}:${e.type}`))
+    });
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+
+    expect(result.state.pieces.map(p => p.id)).toEqual(['s1']);
+    // Soldiers capture by landing on their target
+    expect(result.state.pieces[0].position).toEqual({ x: 1, y: 1 });
+    expect(result.state.graveyard.map(p => p.id)).toEqual(['s2']);
+    expect(result.state.turnHistory).toEqual([{ playerId: ALICE, actionIds: [compound.id] }]);
+    expect(events).toEqual(['compound:PieceMoved', 'compound:PieceCaptured', 'compound:PieceMoved']);
+  });
+
+  it('should reject the whole move when a step is invalid', () => {
+    const state = createBattleState();
+    const compound = ActionUtils.createCompoundAction(ALICE, [
+      ActionUtils.createMoveAction(ALICE, 's1', 0, 1, 1, 0),
+      ActionUtils.createCaptureAction(ALICE, 's1', 'missing', 1, 1)
+    ]);
+
+    expect(GameStateDerivation.tryApplyAction(state, compound)).toEqual({
+      valid: false,
+      reason: 'Step 2 (capture-piece): Target not found'
+    });
+  });
+
+  it('should validate each step against the state left by the previous steps', () => {
+    const compound = ActionUtils.createCompoundAction(ALICE, [
+      ActionUtils.createCaptureAction(ALICE, 's1', 's2', 1, 1),
+      ActionUtils.createCaptureAction(ALICE, 's1', 's2', 1, 1)
+    ]);
+
+    expect(GameStateDerivation.validateAction(createBattleState(), compound)).toBe('Step 2 (capture-piece): Target not found');
+  });
+
+  it('should reject empty, mixed-player and meta steps', () => {
+    const state = createBattleState();
+
+    expect(GameStateDerivation.validateAction(state, ActionUtils.createCompoundAction(ALICE, [])))
+      .toBe('Compound action has no steps');
+
+    expect(GameStateDerivation.validateAction(state, ActionUtils.createCompoundAction(ALICE, [
+      ActionUtils.createMoveAction(BOB, 's2', 1, 1, 1, 0)
+    ]))).toBe('Step 1 (move-piece): all steps must be taken by the same player');
+
+    expect(GameStateDerivation.validateAction(state, ActionUtils.createCompoundAction(ALICE, [
+      ActionUtils.createRequestTakebackAction(ALICE, 'action_1')
+    ]))).toBe('Step 1 (request-takeback): cannot be part of a compound action');
+  });
+
+  it('should roll back every step when one of them fails', () => {
+    ActionRegistry.registerAction({
+      type: 'explode',
+      handler: () => {
+        throw new Error('Boom');
+      }
+    });
+
+    const state = createBattleState();
+    const compound = ActionUtils.createCompoundAction(ALICE, [
+      ActionUtils.createMoveAction(ALICE, 's1', 0, 1, 1, 0),
+      ActionUtils.createBase('explode', ALICE)
+    ]);
+
+    const newState = GameStateDerivation.applyAction(state, compound);
+    expect(newState.pieces).toEqual(state.pieces);
+    expect(newState.turnHistory).toEqual(state.turnHistory);
+  });
+
+  describe('Auto End Turn', () => {
+    const autoEndTurnState = () => {
+      const state = createBattleState();
+      return { ...state, config: { ...state.config, autoEndTurn: true } };
+    };
+
+    it('should keep the turn after a main action by default', () => {
+      const state = GameStateDerivation.applyAction(
+        createBattleState(),
+        ActionUtils.createMoveAction(ALICE, 's1', 0, 1, 1, 0)
+      );
+
+      expect(state.currentPlayerId).toBe(ALICE);
+    });
+
+    it('should pass the turn after a main action', () => {
+      const state = GameStateDerivation.applyAction(
+        autoEndTurnState(),
+        ActionUtils.createMoveAction(ALICE, 's1', 0, 1, 1, 0)
+      );
+
+      expect(state.currentPlayerId).toBe(BOB);
+      expect(GameStateDerivation.validateAction(state, ActionUtils.createMoveAction(ALICE, 's1', 1, 0, 0, 1)))
+        .toBe('Not your turn');
+    });
+
+    it('should pass the turn once after a compound move', () => {
+      const state = GameStateDerivation.applyAction(autoEndTurnState(), moveAndCapture());
+      expect(state.currentPlayerId).toBe(BOB);
+    });
+
+    it('should not pass the turn twice when the player ends it themselves', () => {
+      const compound = ActionUtils.createCompoundAction(ALICE, [
+        ActionUtils.createMoveAction(ALICE, 's1', 0, 1, 1, 0),
+        ActionUtils.createBase('end-turn', ALICE)
+      ]);
+
+      const state = GameStateDerivation.applyAction(autoEndTurnState(), compound);
+      expect(state.currentPlayerId).toBe(BOB);
+    });
+  });
+});
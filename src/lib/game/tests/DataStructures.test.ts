@@ -88,11 +88,11 @@ describe('Game Data Structures', () => {
 
     it('should create place land action', () => {
       const playerId = 'player_123';
-      const action = ActionFactory.createPlaceLandAction(playerId, 5, 10);
+      const action = ActionFactory.createPlaceLandAction(playerId, 5, 10, 'pooled_land_1');
       
       expect(action.type).toBe('place-land');
       expect(action.position).toEqual({ x: 5, y: 10 });
-      expect(action.landId).toMatch(/^land_/);
+      expect(action.landId).toBe('pooled_land_1');
     });
 
     it('should create move piece action', () => {
@@ -195,7 +195,7 @@ describe('Game Data Structures', () => {
       const actions = [
         ActionFactory.createJoinGameAction('player_alice', 'Alice'),
         ActionFactory.createStartGameAction('player_alice'),
-        ActionFactory.createPlaceLandAction('player_alice', 0, 0)
+        ActionFactory.createPlaceLandAction('player_alice', 0, 0, 'pooled_land_1')
       ];
       
       const derivedState = GameStateDerivation.deriveState(gameDoc.initialState, actions);
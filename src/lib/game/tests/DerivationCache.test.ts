@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { ActionRegistry } from '../engine/ActionRegistry';
+import { CoreActionHandlers } from '../engine/CoreActionHandlers';
+import { DerivationCache } from '../engine/DerivationCache';
+import { GameFactory } from '../engine/GameFactory';
+import { GameStateDerivation, DerivationUtils } from '../engine/ModularGameStateDerivation';
+import type { BaseGameAction } from '../engine/BaseActions';
+import type { GameState } from '../engine/GameState';
+
+interface CountAction extends BaseGameAction {
+  type: 'count';
+  amount: number;
+}
+
+function createCountAction(index: number, amount = 1): CountAction {
+  return {
+    id: `count_${index}_${amount}`,
+    timestamp: index,
+    playerId: 'player_alice',
+    type: 'count',
+    amount
+  };
+}
+
+function createLog(length: number): CountAction[] {
+  return Array.from({ length }, (_, i) => createCountAction(i));
+}
+
+describe('DerivationCache', () => {
+  const gameDoc = GameFactory.createGameDocument('player_alice');
+  let handlerCalls = 0;
+
+  beforeEach(() => {
+    ActionRegistry.clear();
+    CoreActionHandlers.registerAll();
+
+    handlerCalls = 0;
+    ActionRegistry.registerAction<CountAction>({
+      type: 'count',
+      handler: (state: GameState, action: CountAction) => {
+        handlerCalls++;
+        const total = (state.gameSpecificState?.total as number | undefined) ?? 0;
+        return { ...state, gameSpecificState: { total: total + action.amount } };
+      }
+    });
+  });
+
+  it('should derive the same state as a full replay', () => {
+    const cache = new DerivationCache({ checkpointInterval: 4 });
+    const actions = createLog(10);
+
+    const cached = cache.getState(gameDoc.initialState, actions);
+    const full = GameStateDerivation.deriveState(gameDoc.initialState, actions);
+
+    expect(cached.gameSpecificState).toEqual(full.gameSpecificState);
+    expect(cached.gameSpecificState?.total).toBe(10);
+  });
+
+  it('should only replay appended actions', () => {
+    const cache = new DerivationCache({ checkpointInterval: 4 });
+    const actions = createLog(10);
+    cache.getState(gameDoc.initialState, actions);
+
+    handlerCalls = 0;
+    const state = cache.getState(gameDoc.initialState, [...actions, createCountAction(10)]);
+
+    expect(handlerCalls).toBe(1);
+    expect(state.gameSpecificState?.total).toBe(11);
+  });
+
+  it('should not replay anything for an unchanged log', () => {
+    const cache = new DerivationCache();
+    const actions = createLog(5);
+    const first = cache.getState(gameDoc.initialState, actions);
+
+    handlerCalls = 0;
+    const second = cache.getState(gameDoc.initialState, actions);
+
+    expect(handlerCalls).toBe(0);
+    expect(second).toBe(first);
+  });
+
+  it('should not return a stale state for a different log of the same length', () => {
+    const cache = new DerivationCache({ checkpointInterval: 4 });
+    const actions = createLog(6);
+    cache.getState(gameDoc.initialState, actions);
+
+    const rewritten = [...actions.slice(0, 5), createCountAction(5, 100)];
+    const state = cache.getState(gameDoc.initialState, rewritten);
+
+    expect(state.gameSpecificState?.total).toBe(105);
+  });
+
+  it('should resume from the nearest checkpoint and prune checkpoints after an undo', () => {
+    const cache = new DerivationCache({ checkpointInterval: 4 });
+    const actions = createLog(10);
+    cache.getState(gameDoc.initialState, actions);
+
+    expect(cache.getCheckpoints().map(c => c.index)).toEqual([0, 4, 8, 10]);
+
+    // Undo the last three actions and play a different one
+    handlerCalls = 0;
+    const rewritten = [...actions.slice(0, 7), createCountAction(7, 50)];
+    const state = cache.getState(gameDoc.initialState, rewritten);
+
+    expect(state.gameSpecificState?.total).toBe(57);
+    // Resumed from the checkpoint at 4
+    expect(handlerCalls).toBe(4);
+    expect(cache.getCheckpoints().map(c => c.index)).toEqual([0, 4, 8]);
+  });
+
+  it('should keep games with different initial states apart', () => {
+    const cache = new DerivationCache();
+    const otherDoc = GameFactory.createGameDocument('player_bob');
+    const actions = createLog(3);
+
+    const first = cache.getState(gameDoc.initialState, actions);
+    const second = cache.getState(otherDoc.initialState, actions);
+
+    expect(first.id).toBe(gameDoc.initialState.id);
+    expect(second.id).toBe(otherDoc.initialState.id);
+  });
+
+  it('should be used by DerivationUtils.getCurrentState', () => {
+    const cache = new DerivationCache();
+    const actions = createLog(3);
+
+    const state = DerivationUtils.getCurrentState(gameDoc.initialState, actions, cache);
+
+    expect(state.gameSpecificState?.total).toBe(3);
+    expect(cache.size).toBeGreaterThan(0);
+  });
+});
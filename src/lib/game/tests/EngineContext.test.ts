@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { ActionRegistry } from '../engine/ActionRegistry';
+import { CoreActionHandlers } from '../engine/CoreActionHandlers';
+import { GameFactory, ActionFactory } from '../engine/GameFactory';
+import { GameStateDerivation } from '../engine/ModularGameStateDerivation';
+import { EngineContextUtils, SYSTEM_ENGINE_CONTEXT } from '../engine/EngineContext';
+import { BuilderActionFactory } from '../pieces/complex/Builder';
+import { IdUtils } from '../utils/GameUtils';
+
+const ALICE = 'player_alice';
+const BOB = 'player_bob';
+
+/**
+ * Record a short game with whatever engine context is active
+ */
+function recordGame() {
+  const gameDoc = GameFactory.createGameDocument(ALICE, { landsPerPlayer: 2 });
+  const actions = [
+    ActionFactory.createJoinGameAction(ALICE, 'Alice'),
+    ActionFactory.createJoinGameAction(BOB, 'Bob'),
+    ActionFactory.createStartGameAction(ALICE),
+    ActionFactory.createPlaceLandAction(ALICE, 0, 0, 'pooled_land_1'),
+    ActionFactory.createPlaceLandAction(BOB, 1, 0, 'pooled_land_2')
+  ];
+
+  return { gameDoc, actions };
+}
+
+describe('Engine Context', () => {
+  beforeEach(() => {
+    ActionRegistry.clear();
+    CoreActionHandlers.registerAll();
+  });
+
+  afterEach(() => {
+    EngineContextUtils.reset();
+  });
+
+  it('should record identical games from the same seed', () => {
+    const first = EngineContextUtils.run(EngineContextUtils.createSeeded(42), recordGame);
+    const second = EngineContextUtils.run(EngineContextUtils.createSeeded(42), recordGame);
+    const other = EngineContextUtils.run(EngineContextUtils.createSeeded(7), recordGame);
+
+    expect(second).toEqual(first);
+    expect(other.actions[0].id).not.toBe(first.actions[0].id);
+  });
+
+  it('should replay a recorded game to exactly the same state', () => {
+    const { gameDoc, actions } = EngineContextUtils.run(EngineContextUtils.createSeeded(1), recordGame);
+
+    const first = GameStateDerivation.deriveState(gameDoc.initialState, actions);
+    const second = GameStateDerivation.deriveState(gameDoc.initialState, actions);
+
+    expect(JSON.stringify(second)).toBe(JSON.stringify(first));
+    expect(first.updatedAt).toBe(actions[actions.length - 1].timestamp);
+    expect(GameStateDerivation.deriveState(gameDoc.initialState, []).updatedAt).toBe(gameDoc.initialState.createdAt);
+  });
+
+  it('should use the injected clock for timestamps and IDs', () => {
+    EngineContextUtils.set(EngineContextUtils.createSeeded(3, { startTime: 1000, tickMs: 10 }));
+
+    const action = BuilderActionFactory.createPlaceLandAction(ALICE, 'b1', IdUtils.generateLandId(), 0, 0);
+
+    expect(action.landId).toMatch(/^land_1000_/);
+    expect(action.id).toMatch(/^action_1010_/);
+    expect(action.timestamp).toBe(1020);
+    expect(IdUtils.generateJoinCode()).toMatch(/^[A-Z0-9]{6}$/);
+  });
+
+  it('should restore the previous context after running', () => {
+    const seeded = EngineContextUtils.createSeeded(5);
+
+    expect(() => EngineContextUtils.run(seeded, () => {
+      throw new Error('boom');
+    })).toThrow('boom');
+    expect(EngineContextUtils.get()).toBe(SYSTEM_ENGINE_CONTEXT);
+  });
+});
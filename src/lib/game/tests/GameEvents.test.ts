@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { ActionRegistry } from '../engine/ActionRegistry';
+import { CoreActionHandlers } from '../engine/CoreActionHandlers';
+import { GameFactory, ActionFactory } from '../engine/GameFactory';
+import { GameStateDerivation } from '../engine/ModularGameStateDerivation';
+import { ActionUtils } from '../engine/BaseActions';
+import { BuilderPiece, BuilderActionFactory } from '../pieces/complex/Builder';
+import type { GameState } from '../engine/GameState';
+
+const ALICE = 'player_alice';
+const BOB = 'player_bob';
+
+function createBattleState(overrides: Partial<GameState> = {}): GameState {
+  const initialState = GameFactory.createInitialGameState(ALICE);
+  const players = [
+    { ...GameFactory.createPlayer('Alice', true, 0), id: ALICE },
+    { ...GameFactory.createPlayer('Bob', false, 1), id: BOB }
+  ];
+
+  return {
+    ...GameFactory.createGameState(initialState, players),
+    phase: 'battle',
+    currentPlayerId: ALICE,
+    lands: [
+      { id: 'l1', position: { x: 0, y: 0 }, ownerId: ALICE },
+      { id: 'l2', position: { x: 1, y: 0 }, ownerId: ALICE },
+      { id: 'l3', position: { x: 2, y: 0 }, ownerId: BOB }
+    ],
+    citadels: [
+      { id: 'c1', position: { x: 0, y: 0 }, ownerId: ALICE },
+      { id: 'c2', position: { x: 2, y: 0 }, ownerId: BOB }
+    ],
+    ...overrides
+  };
+}
+
+describe('Domain Events', () => {
+  beforeEach(() => {
+    ActionRegistry.clear();
+    CoreActionHandlers.registerAll();
+  });
+
+  it('should report events for each applied action', () => {
+    const gameDoc = GameFactory.createGameDocument(ALICE, { landsPerPlayer: 2 });
+    const land = ActionFactory.createPlaceLandAction(ALICE, 0, 0, 'pooled_land_1');
+    const actions = [
+      ActionFactory.createJoinGameAction(ALICE, 'Alice'),
+      ActionFactory.createJoinGameAction(BOB, 'Bob'),
+      ActionFactory.createStartGameAction(ALICE),
+      land
+    ];
+
+    const { state, events } = GameStateDerivation.deriveStateWithEvents(gameDoc.initialState, actions);
+
+    expect(state.lands).toHaveLength(1);
+    expect(events.map(e => e.actionId)).toEqual(actions.map(a => a.id));
+    expect(events[3]).toEqual({
+      actionId: land.id,
+      actionType: 'place-land',
+      events: [
+        { type: 'LandPlaced', landId: state.lands[0].id, position: { x: 0, y: 0 } },
+        // The phase controller passed the turn
+        { type: 'TurnEnded', playerId: ALICE, nextPlayerId: BOB }
+      ]
+    });
+  });
+
+  it('should report moves and captures', () => {
+    const state = createBattleState({
+      pieces: [
+        { id: 'p1', type: 'soldier', ownerId: ALICE, position: { x: 0, y: 0 } },
+        { id: 'p2', type: 'soldier', ownerId: BOB, position: { x: 2, y: 0 } }
+      ]
+    });
+
+    const move = GameStateDerivation.applyActionWithEvents(state, ActionUtils.createMoveAction(ALICE, 'p1', 0, 0, 1, 0));
+    expect(move.events).toEqual([{ type: 'PieceMoved', pieceId: 'p1', from: { x: 0, y: 0 }, to: { x: 1, y: 0 } }]);
+
+    const capture = GameStateDerivation.applyActionWithEvents(move.state, ActionUtils.createCaptureAction(ALICE, 'p1', 'p2', 2, 0));
+    // Soldiers capture by landing on their target
+    expect(capture.events).toEqual([
+      {
+        type: 'PieceCaptured',
+        pieceId: 'p2',
+        pieceType: 'soldier',
+        ownerId: BOB,
+        position: { x: 2, y: 0 },
+        capturedBy: 'p1'
+      },
+      { type: 'PieceMoved', pieceId: 'p1', from: { x: 1, y: 0 }, to: { x: 2, y: 0 } }
+    ]);
+  });
+
+  it('should report destroyed citadels and the end of the game', () => {
+    const state = createBattleState({
+      pieces: [{ id: 'p1', type: 'soldier', ownerId: ALICE, position: { x: 1, y: 0 } }]
+    });
+
+    const { events } = GameStateDerivation.applyActionWithEvents(state, ActionUtils.createCaptureAction(ALICE, 'p1', 'c2', 2, 0));
+
+    expect(events).toEqual([
+      { type: 'CitadelDestroyed', citadelId: 'c2', ownerId: BOB, position: { x: 2, y: 0 } },
+      { type: 'PieceMoved', pieceId: 'p1', from: { x: 1, y: 0 }, to: { x: 2, y: 0 } },
+      { type: 'GameFinished', winnerId: ALICE }
+    ]);
+  });
+
+  it('should report turns ended by end-turn once', () => {
+    const { events } = GameStateDerivation.applyActionWithEvents(createBattleState(), ActionFactory.createEndTurnAction(ALICE));
+
+    expect(events).toEqual([{ type: 'TurnEnded', playerId: ALICE, nextPlayerId: BOB }]);
+  });
+
+  it('should report everything a builder removal did', () => {
+    BuilderPiece.registerActions();
+    const state = createBattleState({
+      lands: [
+        ...createBattleState().lands,
+        { id: 'l4', position: { x: 1, y: 1 }, ownerId: ALICE }
+      ],
+      pieces: [
+        { id: 'b1', type: 'builder', ownerId: ALICE, position: { x: 1, y: 0 } },
+        { id: 'p2', type: 'soldier', ownerId: BOB, position: { x: 1, y: 1 } }
+      ]
+    });
+
+    const { events } = GameStateDerivation.applyActionWithEvents(
+      state,
+      BuilderActionFactory.createRemoveLandAction(ALICE, 'b1', 'l4', 1, 1)
+    );
+
+    expect(events.map(e => e.type)).toEqual(['LandRemoved', 'PieceCaptured']);
+    expect(events[1]).toMatchObject({ pieceId: 'p2', capturedBy: 'b1' });
+  });
+
+  it('should not report events of rejected or failed actions', () => {
+    const reported: string[] = [];
+    ActionRegistry.registerAction({
+      type: 'broken-action',
+      handler: (state, action, context) => {
+        context.emit({ type: 'SomethingHappened' });
+        throw new Error('Handler exploded');
+      }
+    });
+
+    const state = GameStateDerivation.applyAction(
+      createBattleState(),
+      { id: 'broken_1', timestamp: Date.now(), playerId: ALICE, type: 'broken-action' },
+      { onEvents: entry => reported.push(...entry.events.map(e => e.type)) }
+    );
+
+    expect(state.phase).toBe('battle');
+    expect(reported).toEqual([]);
+  });
+});
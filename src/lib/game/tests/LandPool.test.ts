@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { ActionRegistry } from '../engine/ActionRegistry';
+import { CoreActionHandlers } from '../engine/CoreActionHandlers';
+import { GameFactory, ActionFactory } from '../engine/GameFactory';
+import { GameStateDerivation } from '../engine/ModularGameStateDerivation';
+import { LandPoolUtils, EMPTY_LAND_POOL_MESSAGE } from '../engine/LandPool';
+import { BuilderPiece, BuilderActionFactory } from '../pieces/complex/Builder';
+import type { BaseGameAction, PlaceLandAction } from '../engine/BaseActions';
+import type { GameConfig, GameState } from '../engine/GameState';
+
+const ALICE = 'player_alice';
+const BOB = 'player_bob';
+
+function createGame(config: Partial<GameConfig> = {}) {
+  const gameDoc = GameFactory.createGameDocument(ALICE, { landsPerPlayer: 2, ...config });
+  const actions: BaseGameAction[] = [
+    ActionFactory.createJoinGameAction(ALICE, 'Alice'),
+    ActionFactory.createJoinGameAction(BOB, 'Bob'),
+    ActionFactory.createStartGameAction(ALICE)
+  ];
+
+  return {
+    actions,
+    derive: (): GameState => GameStateDerivation.deriveState(gameDoc.initialState, actions)
+  };
+}
+
+describe('Land Pool', () => {
+  beforeEach(() => {
+    ActionRegistry.clear();
+    CoreActionHandlers.registerAll();
+  });
+
+  it('should hold landsPerPlayer tiles for every player when the game starts', () => {
+    const state = createGame().derive();
+
+    expect(state.landPool).toEqual([
+      { id: 'pooled_land_1', ownerId: null },
+      { id: 'pooled_land_2', ownerId: null },
+      { id: 'pooled_land_3', ownerId: null },
+      { id: 'pooled_land_4', ownerId: null }
+    ]);
+  });
+
+  it('should let game modes set the starting size', () => {
+    const state = createGame({ landPoolSize: 7 }).derive();
+
+    expect(state.landPool).toHaveLength(7);
+    expect(LandPoolUtils.getStartingSize(state.config, 3)).toBe(7);
+  });
+
+  it('should draw setup placements from the pool', () => {
+    const game = createGame();
+    game.actions.push(
+      ActionFactory.createPlaceLandAction(ALICE, 0, 0, 'pooled_land_1'),
+      ActionFactory.createPlaceLandAction(BOB, 1, 0, 'pooled_land_2'),
+      ActionFactory.createPlaceLandAction(ALICE, 2, 0, 'pooled_land_3')
+    );
+    const state = game.derive();
+
+    expect(state.lands).toHaveLength(3);
+    expect(state.landPool).toEqual([{ id: 'pooled_land_4', ownerId: null }]);
+  });
+
+  it('should give placed land the ID of the pooled tile it used', () => {
+    const game = createGame();
+    game.actions.push(
+      ActionFactory.createPlaceLandAction(ALICE, 0, 0, 'pooled_land_3'),
+      ActionFactory.createPlaceLandAction(BOB, 1, 0, 'pooled_land_1')
+    );
+    const state = game.derive();
+
+    expect(state.lands.map(l => l.id)).toEqual(['pooled_land_3', 'pooled_land_1']);
+    expect(state.landPool.map(l => l.id)).toEqual(['pooled_land_2', 'pooled_land_4']);
+  });
+
+  it('should only place land tiles that are in the pool', () => {
+    const game = createGame();
+    game.actions.push(ActionFactory.createPlaceLandAction(ALICE, 0, 0, 'pooled_land_3'));
+    const state = game.derive();
+
+    expect(GameStateDerivation.validateAction(state, ActionFactory.createPlaceLandAction(BOB, 1, 0, 'pooled_land_3')))
+      .toBe('Land tile is not in the community pool');
+    expect(GameStateDerivation.validateAction(state, ActionFactory.createPlaceLandAction(BOB, 1, 0, 'land_made_up')))
+      .toBe('Land tile is not in the community pool');
+
+    const generated = GameStateDerivation.getLegalActions(state, BOB)
+      .filter((a): a is PlaceLandAction => a.type === 'place-land');
+    expect(generated.length).toBeGreaterThan(0);
+    expect(generated.every(a => a.landId === 'pooled_land_1')).toBe(true);
+    expect(generated.every(a => GameStateDerivation.validateAction(state, a) === true)).toBe(true);
+  });
+
+  it('should reject setup placement once the pool is empty', () => {
+    const game = createGame({ landPoolSize: 1 });
+    game.actions.push(ActionFactory.createPlaceLandAction(ALICE, 0, 0, 'pooled_land_1'));
+    const state = { ...game.derive(), phase: 'land-placement' as const, currentPlayerId: BOB };
+
+    expect(state.landPool).toEqual([]);
+    expect(GameStateDerivation.validateAction(state, ActionFactory.createPlaceLandAction(BOB, 1, 0, 'pooled_land_2')))
+      .toBe(EMPTY_LAND_POOL_MESSAGE);
+    expect(GameStateDerivation.getLegalActions(state, BOB).some(a => a.type === 'place-land')).toBe(false);
+  });
+
+  it('should end land placement when the pool runs out', () => {
+    const game = createGame({ landPoolSize: 3 });
+    game.actions.push(
+      ActionFactory.createPlaceLandAction(ALICE, 0, 0, 'pooled_land_1'),
+      ActionFactory.createPlaceLandAction(BOB, 1, 0, 'pooled_land_2'),
+      ActionFactory.createPlaceLandAction(ALICE, 2, 0, 'pooled_land_3')
+    );
+
+    expect(game.derive().phase).toBe('citadel-placement');
+  });
+
+  it('should take removed tiles back for the Builder to place again', () => {
+    BuilderPiece.registerActions();
+    const initialState = GameFactory.createInitialGameState(ALICE, { landPoolSize: 0 });
+    const players = [
+      { ...GameFactory.createPlayer('Alice', true, 0), id: ALICE },
+      { ...GameFactory.createPlayer('Bob', false, 1), id: BOB }
+    ];
+    const state: GameState = {
+      ...GameFactory.createGameState(initialState, players),
+      phase: 'battle',
+      currentPlayerId: ALICE,
+      lands: [
+        { id: 'l1', position: { x: 0, y: 0 }, ownerId: ALICE },
+        { id: 'l2', position: { x: 1, y: 0 }, ownerId: BOB }
+      ],
+      pieces: [{ id: 'b1', type: 'builder', ownerId: ALICE, position: { x: 0, y: 0 } }]
+    };
+
+    expect(GameStateDerivation.validateAction(state, BuilderActionFactory.createPlaceLandAction(ALICE, 'b1', 'l2', 0, 1)))
+      .toBe(EMPTY_LAND_POOL_MESSAGE);
+
+    const removed = GameStateDerivation.applyAction(state, BuilderActionFactory.createRemoveLandAction(ALICE, 'b1', 'l2', 1, 0));
+    expect(removed.landPool).toEqual([{ id: 'l2', ownerId: BOB }]);
+
+    const placed = GameStateDerivation.applyAction(
+      { ...removed, currentPlayerId: ALICE },
+      BuilderActionFactory.createPlaceLandAction(ALICE, 'b1', 'l2', 0, 1)
+    );
+    expect(placed.landPool).toEqual([]);
+    expect(placed.lands.find(l => l.id === 'l2')?.position).toEqual({ x: 0, y: 1 });
+  });
+});
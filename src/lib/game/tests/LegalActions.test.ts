@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { ActionRegistry } from '../engine/ActionRegistry';
+import { CoreActionHandlers } from '../engine/CoreActionHandlers';
+import { GameFactory } from '../engine/GameFactory';
+import { GameStateDerivation } from '../engine/ModularGameStateDerivation';
+import { SoldierPiece } from '../pieces/basic/Soldier';
+import { BuilderPiece } from '../pieces/complex/Builder';
+import type { BaseGameAction, MovePieceAction, PlacePieceAction } from '../engine/BaseActions';
+import type { GameState } from '../engine/GameState';
+
+const ALICE = 'player_alice';
+const BOB = 'player_bob';
+
+function createBattleState(overrides: Partial<GameState> = {}): GameState {
+  const initialState = GameFactory.createInitialGameState(ALICE);
+  const players = [
+    { ...GameFactory.createPlayer('Alice', true, 0), id: ALICE },
+    { ...GameFactory.createPlayer('Bob', false, 1), id: BOB }
+  ];
+
+  return {
+    ...GameFactory.createGameState(initialState, players),
+    phase: 'battle',
+    currentPlayerId: ALICE,
+    ...overrides
+  };
+}
+
+function typesOf(actions: BaseGameAction[]): string[] {
+  return Array.from(new Set(actions.map(a => a.type))).sort();
+}
+
+describe('Legal Action Enumeration', () => {
+  beforeEach(() => {
+    ActionRegistry.clear();
+    CoreActionHandlers.registerAll();
+    SoldierPiece.registerActions();
+  });
+
+  it('should only return actions that pass validation', () => {
+    const state = createBattleState();
+
+    // Bob can't do anything on Alice's turn
+    expect(GameStateDerivation.getLegalActions(state, BOB)).toEqual([]);
+    expect(typesOf(GameStateDerivation.getLegalActions(state, ALICE))).toEqual(['end-turn']);
+  });
+
+  it('should enumerate place-piece actions next to the player\'s citadels', () => {
+    const state = createBattleState({
+      lands: [
+        { id: 'l1', position: { x: 0, y: 0 }, ownerId: ALICE },
+        { id: 'l2', position: { x: 1, y: 0 }, ownerId: ALICE },
+        { id: 'l3', position: { x: 0, y: 1 }, ownerId: ALICE }
+      ],
+      citadels: [{ id: 'c1', position: { x: 0, y: 0 }, ownerId: ALICE }],
+      players: createBattleState().players.map(p =>
+        p.id === ALICE ? { ...p, personalStash: [{ id: 's1', type: 'soldier', ownerId: ALICE, position: null }] } : p
+      )
+    });
+
+    const actions = GameStateDerivation.getLegalActions(state, ALICE, 's1');
+    const placements = actions.filter((a): a is PlacePieceAction => a.type === 'place-piece');
+
+    expect(placements).toHaveLength(actions.length);
+    expect(placements.map(a => a.position)).toEqual(expect.arrayContaining([{ x: 1, y: 0 }, { x: 0, y: 1 }]));
+    expect(placements).toHaveLength(2);
+  });
+
+  it('should enumerate move-piece actions for a single piece', () => {
+    const state = createBattleState({
+      lands: [
+        { id: 'l1', position: { x: 0, y: 0 }, ownerId: ALICE },
+        { id: 'l2', position: { x: 1, y: 0 }, ownerId: ALICE },
+        { id: 'l3', position: { x: 2, y: 0 }, ownerId: ALICE }
+      ],
+      pieces: [
+        { id: 'p1', type: 'soldier', ownerId: ALICE, position: { x: 1, y: 0 } },
+        { id: 'p2', type: 'soldier', ownerId: ALICE, position: { x: 2, y: 0 } }
+      ]
+    });
+
+    const moves = GameStateDerivation.getLegalActions(state, ALICE, 'p1')
+      .filter((a): a is MovePieceAction => a.type === 'move-piece');
+
+    expect(moves).toHaveLength(1);
+    expect(moves[0]).toMatchObject({ type: 'move-piece', pieceId: 'p1', toPosition: { x: 0, y: 0 } });
+  });
+
+  it('should enumerate setup actions', () => {
+    const state = createBattleState({ phase: 'land-placement' });
+    const actions = GameStateDerivation.getLegalActions(state, ALICE);
+
+    expect(typesOf(actions)).toEqual(['end-turn', 'place-land']);
+    expect(actions.find(a => a.type === 'place-land')).toMatchObject({ position: { x: 0, y: 0 } });
+  });
+
+  it('should include piece-defined actions', () => {
+    BuilderPiece.registerActions();
+
+    const state = createBattleState({
+      lands: [
+        { id: 'l1', position: { x: 0, y: 0 }, ownerId: ALICE },
+        { id: 'l2', position: { x: 1, y: 0 }, ownerId: ALICE }
+      ],
+      landPool: [{ id: 'l3', ownerId: null }],
+      pieces: [{ id: 'b1', type: 'builder', ownerId: ALICE, position: { x: 0, y: 0 } }]
+    });
+
+    const actions = GameStateDerivation.getLegalActions(state, ALICE, 'b1');
+
+    expect(typesOf(actions)).toEqual([
+      'builder-move-land',
+      'builder-place-land',
+      'builder-remove-land',
+      'move-piece'
+    ]);
+    expect(actions.filter(a => a.type === 'builder-move-land').length).toBeGreaterThan(0);
+  });
+
+  it('should skip piece-specific actions for other piece types', () => {
+    BuilderPiece.registerActions();
+
+    const state = createBattleState({
+      lands: [{ id: 'l1', position: { x: 0, y: 0 }, ownerId: ALICE }],
+      pieces: [{ id: 's1', type: 'soldier', ownerId: ALICE, position: { x: 0, y: 0 } }]
+    });
+
+    const actions = GameStateDerivation.getLegalActions(state, ALICE, 's1');
+
+    expect(actions.some(a => a.type.startsWith('builder-'))).toBe(false);
+  });
+});
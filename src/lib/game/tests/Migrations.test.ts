@@ -0,0 +1,244 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { ActionRegistry } from '../engine/ActionRegistry';
+import { CoreActionHandlers } from '../engine/CoreActionHandlers';
+import { GameFactory, ActionFactory, SerializationUtils } from '../engine/GameFactory';
+import { GameStateDerivation } from '../engine/ModularGameStateDerivation';
+import { DocumentMigrationUtils, GAME_DOCUMENT_VERSION } from '../engine/DocumentMigrations';
+import { SchemaUtils } from '../engine/ActionSchema';
+import { ActionUtils, type BaseGameAction } from '../engine/BaseActions';
+import { BomberPiece } from '../pieces/complex/Bomber';
+import type { GameState, Land } from '../engine/GameState';
+import { ALICE, BOB, createPiece, createBattleState } from './PieceTestUtils';
+
+interface RenamePlayerAction extends BaseGameAction {
+  type: 'rename-player';
+  newName: string;
+  reason: string;
+}
+
+/**
+ * 'rename-player' went from { name } (v1) to { newName } (v2) to { newName, reason } (v3)
+ */
+function registerRenamePlayer(registry: ActionRegistry = ActionRegistry.default) {
+  registry.registerAction({
+    type: 'rename-player',
+    version: 3,
+    schema: SchemaUtils.object({ newName: SchemaUtils.string(), reason: SchemaUtils.string() }),
+    migrations: [
+      {
+        fromVersion: 1,
+        migrate: ({ name, ...action }) => ({ ...action, newName: name })
+      },
+      {
+        fromVersion: 2,
+        migrate: action => ({ ...action, reason: 'unknown' })
+      }
+    ],
+    handler: (state: GameState, action: RenamePlayerAction) => ({
+      ...state,
+      players: state.players.map(p => (p.id === action.playerId ? { ...p, name: action.newName } : p))
+    })
+  });
+}
+
+function createRename(version: number | undefined, fields: Record<string, unknown>): BaseGameAction {
+  return { ...ActionUtils.createBase('rename-player', ALICE), version, ...fields };
+}
+
+describe('Action Migrations', () => {
+  beforeEach(() => {
+    ActionRegistry.clear();
+    CoreActionHandlers.registerAll();
+    registerRenamePlayer();
+  });
+
+  it('should upgrade old payloads through every version', () => {
+    const legacy = createRename(undefined, { name: 'Alicia' });
+    const migrated = ActionRegistry.migrateAction(legacy);
+
+    expect(migrated).toMatchObject({ id: legacy.id, version: 3, newName: 'Alicia', reason: 'unknown' });
+    expect(migrated).not.toHaveProperty('name');
+    expect(ActionRegistry.migrateAction(createRename(2, { newName: 'Al' }))).toMatchObject({ version: 3, reason: 'unknown' });
+  });
+
+  it('should leave current and unversioned action types alone', () => {
+    const current = createRename(3, { newName: 'Al', reason: 'typo' });
+    const join = ActionFactory.createJoinGameAction(ALICE, 'Alice');
+
+    expect(ActionRegistry.migrateAction(current)).toBe(current);
+    expect(ActionRegistry.migrateAction(join)).toBe(join);
+  });
+
+  it('should refuse actions from a newer version or with a missing migration', () => {
+    expect(() => ActionRegistry.migrateAction(createRename(4, {}))).toThrow('only version 3 is supported');
+
+    const registry = new ActionRegistry();
+    registry.registerAction({ type: 'rename-player', version: 2, handler: state => state });
+    expect(() => registry.migrateAction(createRename(1, {}))).toThrow('No migration for rename-player from version 1');
+  });
+
+  it('should stamp new actions with the current version of their type', () => {
+    const rename = { ...ActionUtils.createBase('rename-player', ALICE), newName: 'Al', reason: 'typo' };
+    const initialState = GameFactory.createInitialGameState(ALICE);
+    const joined = GameStateDerivation.deriveState(initialState, [ActionFactory.createJoinGameAction(ALICE, 'Alice')]);
+
+    expect(rename.version).toBe(3);
+    expect(ActionRegistry.checkPayload(rename)).toBe(true);
+    expect(GameStateDerivation.validateAction(joined, rename)).toBe(true);
+    expect(GameStateDerivation.applyAction(joined, rename).players.map(p => p.name)).toEqual(['Al']);
+  });
+
+    it('should reject outdated payloads that were not migrated', () => {
+    expect(ActionRegistry.checkPayload(createRename(2, { newName: 'Al', reason: 'typo' })))
+      .toBe('Invalid rename-player action: version expected 3 (migrate older actions first)');
+  });
+
+  describe('Game documents', () => {
+    const createLegacyDocument = () => {
+      const gameDoc = GameFactory.createGameDocument(ALICE);
+      const data = SerializationUtils.serializeGameDocument(gameDoc);
+      data.actions = [ActionFactory.createJoinGameAction(ALICE, 'Alice'), createRename(undefined, { name: 'Alicia' })];
+      delete data.schemaVersion;
+      return data;
+    };
+
+    it('should stamp new documents with the current format version', () => {
+      expect(GameFactory.createGameDocument(ALICE).schemaVersion).toBe(GAME_DOCUMENT_VERSION);
+      expect(DocumentMigrationUtils.getVersion(createLegacyDocument())).toBe(1);
+    });
+
+    it('should migrate archived games on load so they replay under the current rules', () => {
+      const gameDoc = SerializationUtils.deserializeGameDocument(createLegacyDocument());
+      const state = GameStateDerivation.deriveState(gameDoc.initialState, gameDoc.actions);
+
+      expect(gameDoc.schemaVersion).toBe(GAME_DOCUMENT_VERSION);
+      expect(gameDoc.actions[1]).toMatchObject({ version: 3, newName: 'Alicia' });
+      expect(state.players.map(p => p.name)).toEqual(['Alicia']);
+    });
+
+    it('should run document migrations before action migrations', () => {
+      const data = DocumentMigrationUtils.migrateDocument(
+        createLegacyDocument(),
+        ActionRegistry.default,
+        [{ fromVersion: 1, migrate: doc => ({ ...doc, actions: (doc.actions as BaseGameAction[]).slice(1) }) }],
+        2
+      );
+
+      expect(data.schemaVersion).toBe(2);
+      expect(data.actions).toEqual([expect.objectContaining({ type: 'rename-player', version: 3 })]);
+    });
+
+    it('should migrate and check the steps of compound actions', () => {
+      const data = createLegacyDocument();
+      const compound = ActionUtils.createCompoundAction(ALICE, [createRename(undefined, { name: 'Al' })]);
+      (data.actions as BaseGameAction[]).push(compound);
+
+      expect(ActionRegistry.checkPayload(compound)).toContain('actions[0].version expected 3 (migrate older actions first)');
+
+      const gameDoc = SerializationUtils.deserializeGameDocument(data);
+      expect(gameDoc.actions[2]).toMatchObject({ type: 'compound', actions: [{ version: 3, newName: 'Al', reason: 'unknown' }] });
+      expect(GameStateDerivation.deriveState(gameDoc.initialState, gameDoc.actions).players.map(p => p.name)).toEqual(['Al']);
+    });
+
+    it('should reject compound steps that do not match their schema', () => {
+      const data = createLegacyDocument();
+      (data.actions as BaseGameAction[]).push(ActionUtils.createCompoundAction(ALICE, [createRename(3, { newName: 7 })]));
+
+      expect(() => SerializationUtils.deserializeGameDocument(data)).toThrow(
+        'Invalid game document: actions[2]: Invalid compound action: actions[0].newName expected a string; actions[0].reason is required'
+      );
+    });
+
+    it('should check the document shape after migrating it', () => {
+      const { lastUpdated, ...data } = createLegacyDocument();
+      const renameUpdatedAt = [{
+        fromVersion: 1,
+        migrate: ({ updatedAt, ...doc }: Record<string, unknown>) => ({ ...doc, lastUpdated: updatedAt })
+      }];
+
+      const gameDoc = SerializationUtils.deserializeGameDocument(
+        { ...data, updatedAt: lastUpdated },
+        ActionRegistry.default,
+        renameUpdatedAt
+      );
+      expect(gameDoc.lastUpdated).toBe(lastUpdated);
+      expect(() => SerializationUtils.deserializeGameDocument(data, ActionRegistry.default, renameUpdatedAt))
+        .toThrow('Invalid game document: lastUpdated is required');
+    });
+
+    it('should report actions that cannot be migrated', () => {
+      const data = createLegacyDocument();
+      (data.actions as BaseGameAction[]).push(createRename(7, {}));
+
+      expect(() => SerializationUtils.deserializeGameDocument(data)).toThrow(
+        'Cannot migrate game document: actions[2]: Action'
+      );
+    });
+  });
+
+  describe('Legacy actions', () => {
+    /**
+     * A document saved by the legacy engine, with piece actions from the old GameAction union
+     */
+    const createLegacyDocument = (actions: Record<string, unknown>[]) => {
+      const data = SerializationUtils.serializeGameDocument(GameFactory.createGameDocument(ALICE));
+      const base = (type: string) => ({ id: `legacy_${type}`, type, playerId: ALICE, timestamp: 1 });
+      data.actions = actions.map(({ type, ...fields }) => ({ ...base(type as string), ...fields }));
+      delete data.schemaVersion;
+      return data;
+    };
+
+    /**
+     * Land everywhere from (0,0) to (2,2)
+     */
+    const LANDS: Land[] = Array.from({ length: 9 }, (_, i) => ({
+      id: `l${i}`,
+      position: { x: i % 3, y: Math.floor(i / 3) },
+      ownerId: ALICE
+    }));
+
+    beforeEach(() => {
+      BomberPiece.registerActions();
+    });
+
+    it('should rewrite legacy piece actions as their modular replacements', () => {
+      const gameDoc = SerializationUtils.deserializeGameDocument(createLegacyDocument([
+        { type: 'bomber-explode', bomberId: 'b1', position: { x: 1, y: 1 }, affectedPieceIds: ['e1'] },
+        { type: 'necromancer-resurrect', necromancerId: 'n1', resurrectedPieceId: 's1', position: { x: 0, y: 0 } },
+        { type: 'turtle-carry', turtleId: 't1', carriedPieceId: 's2', action: 'pickup' },
+        { type: 'end-turn' }
+      ]));
+
+      expect(gameDoc.actions).toEqual([
+        expect.objectContaining({ type: 'bomber-sacrifice', bomberId: 'b1', pieceId: 'b1' }),
+        expect.objectContaining({ type: 'necromancer-resurrect', necromancerId: 'n1', resurrectedPieceId: 's1', pieceId: 'n1' }),
+        expect.objectContaining({ type: 'turtle-board', turtleId: 't1', pieceId: 's2' }),
+        expect.objectContaining({ type: 'end-turn' })
+      ]);
+      expect(gameDoc.actions[0]).not.toHaveProperty('affectedPieceIds');
+      expect(gameDoc.actions[1]).not.toHaveProperty('position');
+      expect(gameDoc.actions[2]).not.toHaveProperty('carriedPieceId');
+    });
+
+    it('should replay a legacy explosion under the modular rules', () => {
+      const gameDoc = SerializationUtils.deserializeGameDocument(createLegacyDocument([
+        { type: 'bomber-explode', bomberId: 'b1', position: { x: 1, y: 1 }, affectedPieceIds: ['e1'] }
+      ]));
+      const state = createBattleState(LANDS, [createPiece('b1', ALICE, 1, 1, 'bomber'), createPiece('e1', BOB, 2, 2, 'soldier')]);
+
+      const next = GameStateDerivation.applyActions(state, gameDoc.actions);
+
+      expect(next.pieces).toEqual([]);
+      expect(next.graveyard.map(p => p.id).sort()).toEqual(['b1', 'e1']);
+    });
+
+    it('should refuse legacy turtle drops, which name no landing square', () => {
+      const data = createLegacyDocument([{ type: 'turtle-carry', turtleId: 't1', carriedPieceId: 's2', action: 'drop' }]);
+
+      expect(() => SerializationUtils.deserializeGameDocument(data)).toThrow(
+        'Cannot migrate game document: actions[0]: Legacy turtle-carry drops'
+      );
+    });
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 
-import { ActionRegistry } from '../engine/ActionRegistry';
-import { GameFactory } from '../engine/GameFactory';
+import { ActionRegistry, defineAction } from '../engine/ActionRegistry';
+import { GameFactory, ActionFactory } from '../engine/GameFactory';
 import { GameStateDerivation } from '../engine/ModularGameStateDerivation';
 import '../engine/CoreActionHandlers'; // Ensure core actions are registered
 import type { BaseGameAction } from '../engine/BaseActions';
@@ -14,6 +14,8 @@ interface TestPieceAction extends BaseGameAction {
 }
 
 import { CoreActionHandlers } from '../engine/CoreActionHandlers';
+import { PieceRegistry } from '../engine/PieceRegistry';
+import { BuilderPiece, BUILDER_PIECE } from '../pieces/complex/Builder';
 
 describe('Modular Action System', () => {
   beforeEach(() => {
@@ -176,3 +178,89 @@ describe('Modular Action System', () => {
     }).not.toThrow();
   });
 });
+
+describe('Action Registry Instances', () => {
+  const gameDoc = GameFactory.createGameDocument('player_host');
+  const joinActions = [
+    ActionFactory.createJoinGameAction('player_a', 'A'),
+    ActionFactory.createJoinGameAction('player_b', 'B'),
+    ActionFactory.createStartGameAction('player_a')
+  ];
+
+  function createVariantRegistry(): ActionRegistry {
+    const registry = new ActionRegistry();
+    CoreActionHandlers.registerAll(registry);
+
+    // Variant where starting the game goes straight to battle
+    return registry.extend(variant => {
+      variant.registerAction({
+        type: 'start-game',
+        handler: (state: GameState) => ({ ...state, phase: 'battle' })
+      });
+    });
+  }
+
+  beforeEach(() => {
+    ActionRegistry.clear();
+    CoreActionHandlers.registerAll();
+  });
+
+  it('should derive different games against different registries', () => {
+    const variant = createVariantRegistry();
+
+    const standardState = GameStateDerivation.deriveState(gameDoc.initialState, joinActions);
+    const variantState = GameStateDerivation.deriveState(gameDoc.initialState, joinActions, { registry: variant });
+
+    expect(standardState.phase).toBe('land-placement');
+    expect(variantState.phase).toBe('battle');
+    expect(variantState.players).toHaveLength(2);
+  });
+
+  it('should keep clones independent of the original', () => {
+    const original = new ActionRegistry();
+    CoreActionHandlers.registerAll(original);
+    const clone = original.clone();
+
+    clone.unregisterAction('concede');
+    clone.registerAction({ type: 'test-action', handler: (state: GameState) => state });
+
+    expect(original.isRegistered('concede')).toBe(true);
+    expect(original.isRegistered('test-action')).toBe(false);
+    expect(clone.isRegistered('concede')).toBe(false);
+    expect(clone.getValidator('join-game')).toBe(original.getValidator('join-game'));
+  });
+
+  it('should not touch the default registry', () => {
+    const registry = new ActionRegistry();
+    BuilderPiece.registerActions(registry);
+
+    expect(registry.getRegisteredTypes()).toEqual(['builder-place-land', 'builder-move-land', 'builder-remove-land']);
+    expect(ActionRegistry.isRegistered('builder-place-land')).toBe(false);
+    expect(ActionRegistry.default.isRegistered('join-game')).toBe(true);
+  });
+
+  it('should keep piece types registered on other registries out of the default one', () => {
+    const standardBuilder = PieceRegistry.default.get('builder');
+    const registry = new ActionRegistry();
+    BuilderPiece.registerActions(registry);
+    const variant = registry.extend(r => {
+      r.pieces.register({ type: 'frog', displayName: 'Frog', layer: 'piece', placement: ['water'] });
+    });
+
+    expect(registry.pieces).not.toBe(PieceRegistry.default);
+    expect(registry.pieces.get('builder')).toBe(BUILDER_PIECE);
+    expect(variant.pieces.has('frog')).toBe(true);
+    expect(registry.pieces.has('frog')).toBe(false);
+    expect(PieceRegistry.default.get('builder')).toBe(standardBuilder);
+    expect(PieceRegistry.default.has('frog')).toBe(false);
+    expect(ActionRegistry.default.pieces).toBe(PieceRegistry.default);
+  });
+
+  it('should register defined actions into the given registry', () => {
+    const registry = new ActionRegistry();
+    defineAction<TestPieceAction>('test-action', (state: GameState) => state, {}, registry);
+
+    expect(registry.isRegistered('test-action')).toBe(true);
+    expect(ActionRegistry.isRegistered('test-action')).toBe(false);
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { ActionRegistry } from '../engine/ActionRegistry';
+import { CoreActionHandlers } from '../engine/CoreActionHandlers';
+import { GameFactory } from '../engine/GameFactory';
+import { GameStateDerivation } from '../engine/ModularGameStateDerivation';
+import { ActionUtils, type CapturePieceAction, type MovePieceAction } from '../engine/BaseActions';
+import { MovementUtils, type MovementPattern } from '../board/MovementPatterns';
+import { Board } from '../board/Board';
+import { CoordinateUtils, type Coordinate } from '../board/Coordinate';
+import type { GameState, Land, Piece, Citadel } from '../engine/GameState';
+
+const ALICE = 'player_alice';
+const BOB = 'player_bob';
+
+/**
+ * Land on x = 0..5 of row 0 and x = 0..1 of row 1, with a gap (water) at (3,0)
+ */
+const LANDS: Land[] = [0, 1, 2, 4, 5].map(x => ({ id: `l${x}`, position: { x, y: 0 }, ownerId: ALICE }))
+  .concat([0, 1].map(x => ({ id: `l${x}_1`, position: { x, y: 1 }, ownerId: ALICE })));
+
+const piece = (id: string, ownerId: string, x: number, y: number, type = 'soldier'): Piece =>
+  ({ id, type, ownerId, position: { x, y } });
+
+const keys = (coords: Coordinate[]) => coords.map(CoordinateUtils.toKey).sort();
+
+function createBoard(pieces: Piece[], citadels: Citadel[] = []): Board {
+  return new Board(LANDS, pieces, citadels);
+}
+
+describe('Movement Patterns', () => {
+  describe('Geometry', () => {
+    it('should know which squares a pattern can reach', () => {
+      const from = { x: 0, y: 0 };
+
+      expect(MovementUtils.isWithinReach(MovementUtils.step('any', 1), from, { x: 1, y: 1 })).toBe(true);
+      expect(MovementUtils.isWithinReach(MovementUtils.step('orthogonal', 1), from, { x: 1, y: 1 })).toBe(false);
+      expect(MovementUtils.isWithinReach(MovementUtils.step('orthogonal', 2), from, { x: 0, y: -2 })).toBe(true);
+      expect(MovementUtils.isWithinReach(MovementUtils.step('any', 1), from, from)).toBe(false);
+      expect(MovementUtils.isWithinReach(MovementUtils.slide('diagonal'), from, { x: -7, y: 7 })).toBe(true);
+      expect(MovementUtils.isWithinReach(MovementUtils.slide('orthogonal'), from, { x: 2, y: 1 })).toBe(false);
+      expect(MovementUtils.isWithinReach(MovementUtils.jump(2), from, { x: 2, y: 0 })).toBe(true);
+      expect(MovementUtils.isWithinReach(MovementUtils.jump(2), from, { x: 1, y: 0 })).toBe(false);
+    });
+  });
+
+  describe('Targets', () => {
+    it('should step onto empty land around the piece', () => {
+      const mover = piece('p1', ALICE, 1, 0);
+      const board = createBoard([mover, piece('p2', ALICE, 0, 1)]);
+
+      expect(keys(MovementUtils.getMoveTargets([MovementUtils.step('any')], mover, board)))
+        .toEqual(['0,0', '1,1', '2,0']);
+    });
+
+    it('should stop slides at water, pieces and citadels', () => {
+      const mover = piece('p1', ALICE, 0, 0);
+      const enemy = piece('p2', BOB, 0, 1);
+      const board = createBoard([mover, enemy], [{ id: 'c1', position: { x: 5, y: 0 }, ownerId: BOB }]);
+      const slide = [MovementUtils.slide('orthogonal', ['pieces', 'water'])];
+
+      expect(keys(MovementUtils.getMoveTargets(slide, mover, board))).toEqual(['1,0', '2,0']);
+      expect(MovementUtils.getCaptureTargets(slide, mover, board)).toEqual([
+        { position: { x: 0, y: 1 }, targetId: 'p2' }
+      ]);
+    });
+
+    it('should let slides cross water when only pieces block them', () => {
+      const mover = piece('p1', ALICE, 0, 0);
+      const board = createBoard([mover], [{ id: 'c1', position: { x: 5, y: 0 }, ownerId: BOB }]);
+      const slide = [MovementUtils.slide('orthogonal')];
+
+      expect(keys(MovementUtils.getMoveTargets(slide, mover, board))).toEqual(['0,1', '1,0', '2,0', '4,0']);
+      expect(MovementUtils.getCaptureTargets(slide, mover, board)).toEqual([
+        { position: { x: 5, y: 0 }, targetId: 'c1' }
+      ]);
+    });
+
+    it('should jump over pieces, and over water only when allowed', () => {
+      const mover = piece('p1', ALICE, 2, 0);
+      const board = createBoard([mover, piece('p2', BOB, 1, 0), piece('p3', BOB, 4, 0)]);
+
+      expect(keys(MovementUtils.getMoveTargets([MovementUtils.jump(2)], mover, board))).toEqual(['0,0']);
+      expect(MovementUtils.getCaptureTargets([MovementUtils.jump(2)], mover, board)).toEqual([]);
+      expect(MovementUtils.getCaptureTargets([MovementUtils.jump(2, true)], mover, board)).toEqual([
+        { position: { x: 4, y: 0 }, targetId: 'p3' }
+      ]);
+    });
+
+    it('should keep move-only and capture-only patterns apart', () => {
+      const mover = piece('p1', ALICE, 1, 0);
+      const board = createBoard([mover, piece('p2', BOB, 2, 0)]);
+      const patterns: MovementPattern[] = [
+        MovementUtils.moveOnly(MovementUtils.step('orthogonal')),
+        MovementUtils.captureOnly(MovementUtils.jump(2, true))
+      ];
+
+      expect(keys(MovementUtils.getMoveTargets(patterns, mover, board))).toEqual(['0,0', '1,1']);
+      expect(MovementUtils.getCaptureTargets(patterns, mover, board)).toEqual([]);
+      expect(MovementUtils.validateMove(patterns, mover, { x: 3, y: 0 }, board)).toBe('Soldier cannot move to (3, 0)');
+    });
+  });
+
+  describe('Engine integration', () => {
+    let registry: ActionRegistry;
+
+    function createBattleState(pieces: Piece[]): GameState {
+      const initialState = GameFactory.createInitialGameState(ALICE);
+      const players = [
+        { ...GameFactory.createPlayer('Alice', true, 0), id: ALICE },
+        { ...GameFactory.createPlayer('Bob', false, 1), id: BOB }
+      ];
+
+      return {
+        ...GameFactory.createGameState(initialState, players),
+        phase: 'battle',
+        currentPlayerId: ALICE,
+        lands: LANDS,
+        pieces
+      };
+    }
+
+    beforeEach(() => {
+      ActionRegistry.clear();
+      CoreActionHandlers.registerAll();
+      registry = ActionRegistry.default.extend(r => {
+        r.pieces.register({
+          type: 'lancer',
+          displayName: 'Lancer',
+          layer: 'piece',
+          placement: ['land', 'turtle'],
+          movement: [MovementUtils.slide('orthogonal', ['pieces', 'water'])]
+        });
+      });
+    });
+
+    it('should generate moves and captures from the piece\'s patterns', () => {
+      const state = createBattleState([piece('p1', ALICE, 0, 0, 'lancer'), piece('p2', BOB, 2, 0)]);
+      const actions = GameStateDerivation.getLegalActions(state, ALICE, 'p1', registry);
+
+      const moves = actions.filter((a): a is MovePieceAction => a.type === 'move-piece');
+      const captures = actions.filter((a): a is CapturePieceAction => a.type === 'capture-piece');
+      expect(keys(moves.map(m => m.toPosition))).toEqual(['0,1', '1,0']);
+      expect(captures.map(c => c.capturedPieceId)).toEqual(['p2']);
+    });
+
+    it('should validate moves and captures against the patterns', () => {
+      const state = createBattleState([piece('p1', ALICE, 0, 0, 'lancer'), piece('p2', BOB, 4, 0)]);
+
+      expect(GameStateDerivation.validateAction(state, ActionUtils.createMoveAction(ALICE, 'p1', 0, 0, 2, 0), registry))
+        .toBe(true);
+      expect(GameStateDerivation.validateAction(state, ActionUtils.createMoveAction(ALICE, 'p1', 0, 0, 4, 0), registry))
+        .toBe('Lancer cannot move to (4, 0)');
+      expect(GameStateDerivation.validateAction(state, ActionUtils.createCaptureAction(ALICE, 'p1', 'p2', 4, 0), registry))
+        .toBe('Lancer cannot reach that target');
+    });
+
+    it('should not let pieces without patterns move or capture', () => {
+      const statues = registry.extend(r => {
+        r.pieces.register({ type: 'statue', displayName: 'Statue', layer: 'piece', placement: ['land'] });
+      });
+      const state = {
+        ...createBattleState([piece('p1', ALICE, 0, 0, 'statue'), piece('p2', BOB, 1, 0)]),
+        citadels: [{ id: 'c2', position: { x: 5, y: 0 }, ownerId: BOB }]
+      };
+      const actions = GameStateDerivation.getLegalActions(state, ALICE, 'p1', statues);
+
+      expect(actions.filter(a => a.type === 'capture-piece' || a.type === 'move-piece')).toEqual([]);
+      expect(GameStateDerivation.validateAction(state, ActionUtils.createCaptureAction(ALICE, 'p1', 'c2', 5, 0), statues))
+        .toBe('Statue cannot capture');
+      expect(GameStateDerivation.validateAction(state, ActionUtils.createCaptureAction(ALICE, 'p1', 'p2', 1, 0), statues))
+        .toBe('Statue cannot capture');
+      expect(GameStateDerivation.validateAction(state, ActionUtils.createMoveAction(ALICE, 'p1', 0, 0, 0, 1), statues))
+        .toBe('Statue cannot move');
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { ActionRegistry } from '../engine/ActionRegistry';
+import { CoreActionHandlers } from '../engine/CoreActionHandlers';
+import { GameFactory, ActionFactory } from '../engine/GameFactory';
+import { GameStateDerivation } from '../engine/ModularGameStateDerivation';
+import { PhaseController } from '../engine/PhaseController';
+import type { BaseGameAction, PlaceCitadelAction } from '../engine/BaseActions';
+import type { GameConfig, GameState } from '../engine/GameState';
+
+const ALICE = 'player_alice';
+const BOB = 'player_bob';
+
+function createGame(config: Partial<GameConfig> = {}) {
+  const gameDoc = GameFactory.createGameDocument(ALICE, {
+    landsPerPlayer: 2,
+    personalPiecesPerPlayer: 2,
+    communityPiecesPerPlayer: 1,
+    ...config
+  });
+  const actions: BaseGameAction[] = [
+    ActionFactory.createJoinGameAction(ALICE, 'Alice'),
+    ActionFactory.createJoinGameAction(BOB, 'Bob'),
+    ActionFactory.createStartGameAction(ALICE)
+  ];
+
+  return {
+    actions,
+    derive: (): GameState => GameStateDerivation.deriveState(gameDoc.initialState, actions)
+  };
+}
+
+describe('PhaseController', () => {
+  beforeEach(() => {
+    ActionRegistry.clear();
+    CoreActionHandlers.registerAll();
+  });
+
+  it('should start land placement with the first player', () => {
+    const game = createGame();
+    const state = game.derive();
+
+    expect(state.phase).toBe('land-placement');
+    expect(state.currentPlayerId).toBe(ALICE);
+  });
+
+  it('should alternate turns during land placement', () => {
+    const game = createGame();
+    game.actions.push(ActionFactory.createPlaceLandAction(ALICE, 0, 0, 'pooled_land_1'));
+
+    expect(game.derive().currentPlayerId).toBe(BOB);
+
+    game.actions.push(ActionFactory.createPlaceLandAction(BOB, 1, 0, 'pooled_land_2'));
+
+    expect(game.derive().currentPlayerId).toBe(ALICE);
+  });
+
+  it('should not pass the turn when the action had no effect', () => {
+    const game = createGame();
+    game.actions.push(
+      ActionFactory.createPlaceLandAction(ALICE, 0, 0, 'pooled_land_1'),
+      // Bob tries to place on an occupied tile
+      ActionFactory.createPlaceLandAction(BOB, 0, 0, 'pooled_land_2')
+    );
+
+    expect(game.derive().currentPlayerId).toBe(BOB);
+  });
+
+  it('should move to citadel placement once every player has placed their lands', () => {
+    const game = createGame();
+    game.actions.push(
+      ActionFactory.createPlaceLandAction(ALICE, 0, 0, 'pooled_land_1'),
+      ActionFactory.createPlaceLandAction(BOB, 1, 0, 'pooled_land_2'),
+      ActionFactory.createPlaceLandAction(ALICE, 2, 0, 'pooled_land_3'),
+      ActionFactory.createPlaceLandAction(BOB, 3, 0, 'pooled_land_4')
+    );
+
+    const state = game.derive();
+    expect(state.phase).toBe('citadel-placement');
+    expect(state.currentPlayerId).toBe(ALICE);
+  });
+
+  it('should skip phases with nothing to do', () => {
+    const game = createGame({ landsPerPlayer: 0 });
+
+    expect(game.derive().phase).toBe('citadel-placement');
+  });
+
+  it('should play a full game from setup to battle', () => {
+    const game = createGame();
+    game.actions.push(
+      ActionFactory.createPlaceLandAction(ALICE, 0, 0, 'pooled_land_1'),
+      ActionFactory.createPlaceLandAction(BOB, 1, 0, 'pooled_land_2'),
+      ActionFactory.createPlaceLandAction(ALICE, 2, 0, 'pooled_land_3'),
+      ActionFactory.createPlaceLandAction(BOB, 3, 0, 'pooled_land_4'),
+      ActionFactory.createPlaceCitadelAction(ALICE, 0, 0),
+      ActionFactory.createPlaceCitadelAction(BOB, 3, 0)
+    );
+
+    let state = game.derive();
+    expect(state.phase).toBe('piece-selection');
+    expect(state.currentPlayerId).toBe(ALICE);
+
+    game.actions.push(
+      ActionFactory.createSelectPieceAction(ALICE, 'soldier'),
+      ActionFactory.createSelectPieceAction(BOB, 'bird'),
+      ActionFactory.createSelectPieceAction(ALICE, 'rabbit'),
+      ActionFactory.createSelectPieceAction(BOB, 'soldier'),
+      ActionFactory.createSelectPieceAction(ALICE, 'builder', 'community')
+    );
+
+    state = game.derive();
+    expect(state.phase).toBe('piece-selection');
+    expect(state.currentPlayerId).toBe(BOB);
+
+    game.actions.push(ActionFactory.createSelectPieceAction(BOB, 'turtle', 'community'));
+
+    state = game.derive();
+    expect(state.phase).toBe('battle');
+    expect(state.currentPlayerId).toBe(ALICE);
+    expect(state.communityPool).toHaveLength(2);
+    expect(state.players.every(p => p.personalStash.length === 2)).toBe(true);
+
+    game.actions.push(ActionFactory.createEndTurnAction(ALICE));
+
+    expect(game.derive().currentPlayerId).toBe(BOB);
+  });
+
+  it('should skip players who have finished the phase', () => {
+    const game = createGame({ landsPerPlayer: 0 });
+    const derived = game.derive();
+    const state: GameState = {
+      ...derived,
+      phase: 'piece-selection',
+      players: derived.players.map(p =>
+        p.id === ALICE
+          ? { ...p, personalStash: [
+              { id: 'p1', type: 'soldier', ownerId: ALICE, position: null },
+              { id: 'p2', type: 'bird', ownerId: ALICE, position: null }
+            ] }
+          : p
+      ),
+      communityPool: [
+        { id: 'c1', type: 'soldier', ownerId: 'community', position: null },
+        { id: 'c2', type: 'bird', ownerId: 'community', position: null }
+      ]
+    };
+
+    expect(PhaseController.hasPlayerRemainingWork(state, ALICE)).toBe(false);
+    expect(PhaseController.getNextPlayerWithWork(state, BOB)).toBe(BOB);
+  });
+
+  it('should reject land placed beyond the quota or away from existing land', () => {
+    const game = createGame();
+    game.actions.push(ActionFactory.createPlaceLandAction(ALICE, 0, 0, 'pooled_land_1'));
+    const state = game.derive();
+
+    expect(GameStateDerivation.validateAction(state, ActionFactory.createPlaceLandAction(ALICE, 1, 0, 'pooled_land_2')))
+      .toBe('Not your turn');
+    expect(GameStateDerivation.validateAction(state, ActionFactory.createPlaceLandAction(BOB, 2, 0, 'pooled_land_2')))
+      .toBe('Land must be placed orthogonally next to existing land');
+    expect(GameStateDerivation.validateAction(state, ActionFactory.createPlaceLandAction(BOB, 1, 1, 'pooled_land_2')))
+      .toBe('Land must be placed orthogonally next to existing land');
+    expect(GameStateDerivation.validateAction(state, ActionFactory.createPlaceLandAction(BOB, 0, 1, 'pooled_land_2'))).toBe(true);
+
+    const doneState: GameState = {
+      ...state,
+      lands: [...state.lands, { id: 'l2', position: { x: 1, y: 0 }, ownerId: ALICE }],
+      currentPlayerId: ALICE
+    };
+    expect(GameStateDerivation.validateAction(doneState, ActionFactory.createPlaceLandAction(ALICE, 2, 0, 'pooled_land_2')))
+      .toBe('You have placed all your land tiles');
+  });
+
+  it('should let each player place exactly one citadel, in turn', () => {
+    const game = createGame();
+    game.actions.push(
+      ActionFactory.createPlaceLandAction(ALICE, 0, 0, 'pooled_land_1'),
+      ActionFactory.createPlaceLandAction(BOB, 1, 0, 'pooled_land_2'),
+      ActionFactory.createPlaceLandAction(ALICE, 2, 0, 'pooled_land_3'),
+      ActionFactory.createPlaceLandAction(BOB, 3, 0, 'pooled_land_4')
+    );
+
+    expect(GameStateDerivation.validateAction(game.derive(), ActionFactory.createPlaceCitadelAction(BOB, 3, 0)))
+      .toBe('Not your turn');
+
+    game.actions.push(ActionFactory.createPlaceCitadelAction(ALICE, 0, 0));
+    const state: GameState = { ...game.derive(), currentPlayerId: ALICE };
+
+    expect(state.citadels).toHaveLength(1);
+    expect(GameStateDerivation.validateAction(state, ActionFactory.createPlaceCitadelAction(ALICE, 2, 0)))
+      .toBe('You have placed all your citadels');
+  });
+
+  it('should reject citadels that cannot be connected to the others through land', () => {
+    const game = createGame({ landsPerPlayer: 0 });
+    const state: GameState = {
+      ...game.derive(),
+      phase: 'citadel-placement',
+      currentPlayerId: BOB,
+      lands: [
+        { id: 'l1', position: { x: 0, y: 0 }, ownerId: ALICE },
+        { id: 'l2', position: { x: 1, y: 0 }, ownerId: BOB },
+        { id: 'l3', position: { x: 3, y: 0 }, ownerId: BOB }
+      ],
+      citadels: [{ id: 'c1', position: { x: 0, y: 0 }, ownerId: ALICE }]
+    };
+
+    expect(GameStateDerivation.validateAction(state, ActionFactory.createPlaceCitadelAction(BOB, 3, 0)))
+      .toBe('Citadel must be connected to the other citadels through land');
+    const citadels = GameStateDerivation.getLegalActions(state, BOB)
+      .filter((a): a is PlaceCitadelAction => a.type === 'place-citadel');
+    expect(citadels.map(a => a.position)).toEqual([{ x: 1, y: 0 }]);
+  });
+
+  it('should reject piece selection out of turn or beyond the quota', () => {
+    const game = createGame({ landsPerPlayer: 0 });
+    const state: GameState = { ...game.derive(), phase: 'piece-selection', currentPlayerId: ALICE };
+
+    expect(GameStateDerivation.validateAction(state, ActionFactory.createSelectPieceAction(BOB, 'soldier')))
+      .toBe('Not your turn');
+
+    const fullState: GameState = {
+      ...state,
+      communityPool: [
+        { id: 'c1', type: 'soldier', ownerId: 'community', position: null },
+        { id: 'c2', type: 'bird', ownerId: 'community', position: null }
+      ]
+    };
+
+    expect(GameStateDerivation.validateAction(fullState, ActionFactory.createSelectPieceAction(ALICE, 'soldier', 'community')))
+      .toBe('Community pool is full');
+  });
+});
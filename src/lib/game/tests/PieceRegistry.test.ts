@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { ActionRegistry } from '../engine/ActionRegistry';
+import { CoreActionHandlers } from '../engine/CoreActionHandlers';
+import { PieceRegistry } from '../engine/PieceRegistry';
+import { STANDARD_PIECES } from '../engine/StandardPieces';
+import { GameFactory, ActionFactory } from '../engine/GameFactory';
+import { GameStateDerivation } from '../engine/ModularGameStateDerivation';
+import { Board } from '../board/Board';
+import { BUILDER_PIECE } from '../pieces/complex/Builder';
+import { StandardPieceModules } from '../pieces/StandardPieceModules';
+import { ActionUtils, type MovePieceAction, type PlacePieceAction } from '../engine/BaseActions';
+import type { GameState, Piece } from '../engine/GameState';
+
+const ALICE = 'player_alice';
+const BOB = 'player_bob';
+
+function createState(overrides: Partial<GameState> = {}): GameState {
+  const initialState = GameFactory.createInitialGameState(ALICE, { personalPiecesPerPlayer: 3 });
+  const players = [
+    { ...GameFactory.createPlayer('Alice', true, 0), id: ALICE },
+    { ...GameFactory.createPlayer('Bob', false, 1), id: BOB }
+  ];
+
+  return {
+    ...GameFactory.createGameState(initialState, players),
+    phase: 'piece-selection',
+    currentPlayerId: ALICE,
+    ...overrides
+  };
+}
+
+/**
+ * Battle state with land at (0,0) and (1,0), water around it,
+ * a turtle at (0,1) and the given pieces in Alice's stash
+ */
+function createBattleState(stash: Piece[]): GameState {
+  const state = createState({
+    phase: 'battle',
+    lands: [
+      { id: 'l1', position: { x: 0, y: 0 }, ownerId: ALICE },
+      { id: 'l2', position: { x: 1, y: 0 }, ownerId: ALICE }
+    ],
+    citadels: [{ id: 'c1', position: { x: 0, y: 0 }, ownerId: ALICE }],
+    pieces: [{ id: 't1', type: 'turtle', ownerId: ALICE, position: { x: 0, y: 1 }, state: {} }]
+  });
+
+  return {
+    ...state,
+    players: state.players.map(p => (p.id === ALICE ? { ...p, personalStash: stash } : p))
+  };
+}
+
+const stashPiece = (id: string, type: string): Piece => ({ id, type, ownerId: ALICE, position: null });
+
+describe('Piece Registry', () => {
+  beforeEach(() => {
+    ActionRegistry.clear();
+    CoreActionHandlers.registerAll();
+  });
+
+  it('should know the standard pieces and their layers', () => {
+    const pieces = PieceRegistry.default;
+
+    expect(pieces.getTypes()).toEqual(expect.arrayContaining(['soldier', 'bird', 'rabbit', 'turtle']));
+    expect(pieces.isFoundation('turtle')).toBe(true);
+    expect(pieces.isFoundation('soldier')).toBe(false);
+    expect(pieces.canBePlacedOn('turtle', 'water')).toBe(true);
+    expect(pieces.canBePlacedOn('soldier', 'water')).toBe(false);
+    expect(pieces.getDisplayName('rabbit')).toBe('Rabbit');
+    expect(pieces.get('builder')).toBe(BUILDER_PIECE);
+    // Builders can be selected even when the Builder module hasn't been loaded
+    expect(STANDARD_PIECES.map(p => p.type)).toContain('builder');
+  });
+
+  it('should register the movement and actions of every standard piece in one place', () => {
+    const registry = new ActionRegistry([], [], [], new PieceRegistry(STANDARD_PIECES));
+    CoreActionHandlers.registerAll(registry);
+    StandardPieceModules.registerAll(registry);
+
+    expect(STANDARD_PIECES.filter(p => !registry.pieces.getMovement(p.type)).map(p => p.type)).toEqual([]);
+    expect(['turtle-board', 'builder-place-land', 'bomber-sacrifice', 'necromancer-resurrect', 'assassin-move']
+      .filter(type => !registry.isRegistered(type))).toEqual([]);
+
+    const state = createState({
+      phase: 'battle',
+      lands: [{ id: 'l1', position: { x: 0, y: 0 }, ownerId: ALICE }, { id: 'l2', position: { x: 1, y: 0 }, ownerId: ALICE }],
+      pieces: [{ id: 's1', type: 'soldier', ownerId: ALICE, position: { x: 0, y: 0 } }]
+    });
+    const moves = GameStateDerivation.getLegalActions(state, ALICE, 's1', registry)
+      .filter((a): a is MovePieceAction => a.type === 'move-piece');
+
+    expect(moves.map(a => a.toPosition)).toEqual([{ x: 1, y: 0 }]);
+    expect(GameStateDerivation.validateAction(state, moves[0], registry)).toBe(true);
+    expect(GameStateDerivation.validateAction(state, ActionUtils.createMoveAction(ALICE, 's1', 0, 0, 1, 0))).toBe(true);
+  });
+
+  it('should let piece modules add piece types without touching the board', () => {
+    const pieces = PieceRegistry.default.clone();
+    pieces.register({ type: 'raft', displayName: 'Raft', layer: 'foundation', placement: ['water'] });
+
+    const raft = { id: 'r1', type: 'raft', ownerId: ALICE, position: { x: 3, y: 3 } };
+    expect(new Board([], [raft], [], pieces).getTileInfo({ x: 3, y: 3 }).hasTurtle).toBe(true);
+    expect(new Board([], [raft], []).getTileInfo({ x: 3, y: 3 }).isOccupied).toBe(true);
+    expect(PieceRegistry.default.has('raft')).toBe(false);
+  });
+
+  describe('Selection', () => {
+    it('should reject unknown piece types', () => {
+      const action = ActionFactory.createSelectPieceAction(ALICE, 'dragon');
+      expect(GameStateDerivation.validateAction(createState(), action)).toBe('Unknown piece type: dragon');
+    });
+
+    it('should accept piece types registered for the ruleset', () => {
+      const registry = ActionRegistry.default.extend(r => {
+        r.pieces.register({ type: 'dragon', displayName: 'Dragon', layer: 'piece', placement: ['land'] });
+      });
+      const action = ActionFactory.createSelectPieceAction(ALICE, 'dragon');
+
+      expect(GameStateDerivation.validateAction(createState(), action, registry)).toBe(true);
+      expect(ActionRegistry.default.pieces.has('dragon')).toBe(false);
+    });
+
+    it('should give new pieces their default state', () => {
+      const turtle = ActionFactory.createSelectPieceAction(ALICE, 'turtle');
+      const soldier = ActionFactory.createSelectPieceAction(ALICE, 'soldier');
+
+      const state = GameStateDerivation.applyActions(createState(), [turtle]);
+      const stash = state.players.find(p => p.id === ALICE)!.personalStash;
+      expect(stash[0]).toMatchObject({ id: turtle.pieceId, type: 'turtle', state: {} });
+
+      const next = GameStateDerivation.applyAction({ ...state, currentPlayerId: ALICE }, soldier);
+      expect(next.players.find(p => p.id === ALICE)!.personalStash[1].state).toBeUndefined();
+    });
+  });
+
+  describe('Placement', () => {
+    it('should keep pieces off foundations they cannot stand on', () => {
+      const state = createBattleState([stashPiece('s1', 'soldier'), stashPiece('t2', 'turtle')]);
+
+      expect(GameStateDerivation.validateAction(state, ActionFactory.createPlacePieceAction(ALICE, 's1', 1, 0))).toBe(true);
+      expect(GameStateDerivation.validateAction(state, ActionFactory.createPlacePieceAction(ALICE, 's1', 0, 1))).toBe(true);
+      expect(GameStateDerivation.validateAction(state, ActionFactory.createPlacePieceAction(ALICE, 's1', 1, 1)))
+        .toBe('Soldier cannot be placed on water');
+
+      expect(GameStateDerivation.validateAction(state, ActionFactory.createPlacePieceAction(ALICE, 't2', -1, 0))).toBe(true);
+      expect(GameStateDerivation.validateAction(state, ActionFactory.createPlacePieceAction(ALICE, 't2', 1, 0)))
+        .toBe('Turtle cannot be placed on land');
+    });
+
+    it('should only place pieces next to the player\'s own citadels', () => {
+      const state = createBattleState([stashPiece('s1', 'soldier'), stashPiece('t2', 'turtle')]);
+      const farAway = {
+        ...state,
+        lands: [...state.lands, { id: 'l3', position: { x: 2, y: 0 }, ownerId: ALICE }],
+        citadels: [...state.citadels, { id: 'c2', position: { x: 3, y: 0 }, ownerId: BOB }]
+      };
+
+      expect(GameStateDerivation.validateAction(farAway, ActionFactory.createPlacePieceAction(ALICE, 's1', 2, 0)))
+        .toBe('Soldier must be placed next to your citadel');
+      expect(GameStateDerivation.validateAction(farAway, ActionFactory.createPlacePieceAction(ALICE, 't2', 4, 0)))
+        .toBe('Turtle must be placed next to your citadel');
+    });
+
+    it('should never capture on placement', () => {
+      const state = createBattleState([stashPiece('s1', 'soldier')]);
+      const blocked = {
+        ...state,
+        pieces: [...state.pieces, { id: 'e1', type: 'soldier', ownerId: BOB, position: { x: 0, y: 1 } }],
+        lands: [...state.lands, { id: 'l3', position: { x: 0, y: -1 }, ownerId: BOB }],
+        citadels: [...state.citadels, { id: 'c2', position: { x: 1, y: 0 }, ownerId: BOB }]
+      };
+
+      expect(GameStateDerivation.validateAction(blocked, ActionFactory.createPlacePieceAction(ALICE, 's1', 0, 1)))
+        .toBe('Position already occupied');
+      expect(GameStateDerivation.validateAction(blocked, ActionFactory.createPlacePieceAction(ALICE, 's1', 1, 0)))
+        .toBe('Position already occupied');
+      expect(GameStateDerivation.getLegalActions(blocked, ALICE, 's1')
+        .filter((a): a is PlacePieceAction => a.type === 'place-piece')
+        .map(a => a.position)).toEqual([{ x: 0, y: -1 }]);
+    });
+
+    it('should take the piece from the named source', () => {
+      const state = createBattleState([stashPiece('s1', 'soldier')]);
+      const withPool = { ...state, communityPool: [{ id: 'c1s', type: 'soldier', ownerId: 'community', position: null }] };
+
+      expect(GameStateDerivation.validateAction(withPool, ActionFactory.createPlacePieceAction(ALICE, 'c1s', 1, 0)))
+        .toBe('Piece is not in your personal stash');
+      expect(GameStateDerivation.validateAction(withPool, ActionFactory.createPlacePieceAction(ALICE, 's1', 1, 0, 'community')))
+        .toBe('Piece is not in the community pool');
+      expect(GameStateDerivation.validateAction(withPool, ActionFactory.createPlacePieceAction(ALICE, 'c1s', 1, 0, 'community')))
+        .toBe(true);
+    });
+
+    it('should offer land, turtle backs and water by piece type', () => {
+      const registry = ActionRegistry.default.extend(r => {
+        r.pieces.register({ type: 'frog', displayName: 'Frog', layer: 'piece', placement: ['water'] });
+      });
+      const state = createBattleState([stashPiece('s1', 'soldier'), stashPiece('t2', 'turtle'), stashPiece('f1', 'frog')]);
+      const positionsOf = (pieceId: string) => GameStateDerivation.getLegalActions(state, ALICE, pieceId, registry)
+        .filter((a): a is PlacePieceAction => a.type === 'place-piece')
+        .map(a => a.position);
+
+      expect(positionsOf('s1')).toEqual(expect.arrayContaining([{ x: 1, y: 0 }, { x: 0, y: 1 }]));
+      expect(positionsOf('s1')).toHaveLength(2);
+      expect(positionsOf('t2')).toEqual(expect.arrayContaining([{ x: -1, y: 0 }, { x: 0, y: -1 }]));
+      expect(positionsOf('t2')).toHaveLength(2);
+      expect(positionsOf('f1')).toEqual(expect.arrayContaining([{ x: -1, y: 0 }, { x: 0, y: -1 }]));
+      expect(positionsOf('f1')).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { GameFactory } from '../engine/GameFactory';
+import { GameStateDerivation } from '../engine/ModularGameStateDerivation';
+import type { CapturePieceAction, MovePieceAction } from '../engine/BaseActions';
+import { CoordinateUtils } from '../board/Coordinate';
+import type { GameState, Land, Piece, Citadel } from '../engine/GameState';
+
+/**
+ * Shared test fixtures for battles between Alice and Bob
+ */
+
+export const ALICE = 'player_alice';
+export const BOB = 'player_bob';
+
+/**
+ * Create a piece on the board
+ */
+export function createPiece(id: string, ownerId: string, x: number, y: number, type: string): Piece {
+  return { id, type, ownerId, position: { x, y } };
+}
+
+/**
+ * Create a battle between Alice and Bob on the given lands, with Alice to move
+ */
+export function createBattleState(lands: Land[], pieces: Piece[], citadels: Citadel[] = []): GameState {
+  const initialState = GameFactory.createInitialGameState(ALICE);
+  const players = [
+    { ...GameFactory.createPlayer('Alice', true, 0), id: ALICE },
+    { ...GameFactory.createPlayer('Bob', false, 1), id: BOB }
+  ];
+
+  return {
+    ...GameFactory.createGameState(initialState, players),
+    phase: 'battle',
+    currentPlayerId: ALICE,
+    lands,
+    pieces,
+    citadels
+  };
+}
+
+/**
+ * Squares Alice's piece can move to, as sorted coordinate keys
+ */
+export function getMoveTargets(state: GameState, pieceId: string): string[] {
+  return GameStateDerivation.getLegalActions(state, ALICE, pieceId)
+    .filter((a): a is MovePieceAction => a.type === 'move-piece')
+    .map(a => CoordinateUtils.toKey(a.toPosition))
+    .sort();
+}
+
+/**
+ * Pieces Alice's piece can capture, as sorted piece IDs
+ */
+export function getCaptureTargets(state: GameState, pieceId: string): string[] {
+  return GameStateDerivation.getLegalActions(state, ALICE, pieceId)
+    .filter((a): a is CapturePieceAction => a.type === 'capture-piece')
+    .map(a => a.capturedPieceId)
+    .sort();
+}
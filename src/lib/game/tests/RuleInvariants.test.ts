@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { ActionRegistry } from '../engine/ActionRegistry';
+import { CoreActionHandlers } from '../engine/CoreActionHandlers';
+import { GameFactory } from '../engine/GameFactory';
+import { GameStateDerivation } from '../engine/ModularGameStateDerivation';
+import { RuleInvariants } from '../engine/RuleInvariants';
+import { BuilderPiece, BuilderActionFactory, type BuilderRemoveLandAction } from '../pieces/complex/Builder';
+import type { GameState } from '../engine/GameState';
+
+const ALICE = 'player_alice';
+const BOB = 'player_bob';
+
+/**
+ * Citadels at (0,0) and (2,0), joined by the land at (1,0).
+ * Alice's builder stands on (1,1) next to a spare tile at (0,1).
+ */
+function createBattleState(overrides: Partial<GameState> = {}): GameState {
+  const initialState = GameFactory.createInitialGameState(ALICE);
+  const players = [
+    { ...GameFactory.createPlayer('Alice', true, 0), id: ALICE },
+    { ...GameFactory.createPlayer('Bob', false, 1), id: BOB }
+  ];
+
+  return {
+    ...GameFactory.createGameState(initialState, players),
+    phase: 'battle',
+    currentPlayerId: ALICE,
+    lands: [
+      { id: 'l1', position: { x: 0, y: 0 }, ownerId: ALICE },
+      { id: 'l2', position: { x: 1, y: 0 }, ownerId: ALICE },
+      { id: 'l3', position: { x: 2, y: 0 }, ownerId: BOB },
+      { id: 'l4', position: { x: 1, y: 1 }, ownerId: ALICE },
+      { id: 'l5', position: { x: 0, y: 1 }, ownerId: ALICE }
+    ],
+    citadels: [
+      { id: 'c1', position: { x: 0, y: 0 }, ownerId: ALICE },
+      { id: 'c2', position: { x: 2, y: 0 }, ownerId: BOB }
+    ],
+    pieces: [
+      { id: 'builder1', type: 'builder', ownerId: ALICE, position: { x: 1, y: 1 } }
+    ],
+    ...overrides
+  };
+}
+
+const removeBridge = () => BuilderActionFactory.createRemoveLandAction(ALICE, 'builder1', 'l2', 1, 0);
+const removeSpare = () => BuilderActionFactory.createRemoveLandAction(ALICE, 'builder1', 'l5', 0, 1);
+
+describe('Rule Invariants', () => {
+  beforeEach(() => {
+    ActionRegistry.clear();
+    CoreActionHandlers.registerAll();
+    BuilderPiece.registerActions();
+  });
+
+  it('should check citadel connectivity through land and turtles', () => {
+    const state = createBattleState();
+    expect(RuleInvariants.areCitadelsConnected(state)).toBe(true);
+
+    const withoutBridge = { ...state, lands: state.lands.filter(l => l.id !== 'l2') };
+    expect(RuleInvariants.areCitadelsConnected(withoutBridge)).toBe(false);
+
+    const turtleBridge = {
+      ...withoutBridge,
+      pieces: [...state.pieces, { id: 't1', type: 'turtle' as const, ownerId: BOB, position: { x: 1, y: 0 } }]
+    };
+    expect(RuleInvariants.areCitadelsConnected(turtleBridge)).toBe(true);
+  });
+
+  it('should read foundations from the ruleset\'s pieces', () => {
+    const ruleset = ActionRegistry.default.extend(registry => {
+      registry.pieces.register({ type: 'raft', displayName: 'Raft', layer: 'foundation', placement: ['water'] });
+    });
+    const withoutBridge = createBattleState({ lands: createBattleState().lands.filter(l => l.id !== 'l2') });
+    const raftBridge = {
+      ...withoutBridge,
+      pieces: [...withoutBridge.pieces, { id: 'r1', type: 'raft', ownerId: BOB, position: { x: 1, y: 0 } }]
+    };
+
+    expect(RuleInvariants.areCitadelsConnected(raftBridge)).toBe(false);
+    expect(RuleInvariants.areCitadelsConnected(raftBridge, ruleset.pieces)).toBe(true);
+    expect(RuleInvariants.citadelsConnected.check(withoutBridge, raftBridge, removeSpare(), ruleset.createContext()))
+      .toBe('Action would disconnect the citadels');
+  });
+
+  it('should veto an action that disconnects the citadels', () => {
+    const state = createBattleState();
+
+    expect(GameStateDerivation.validateAction(state, removeBridge())).toBe('Action would disconnect the citadels');
+    expect(GameStateDerivation.validateAction(state, removeSpare())).toBe(true);
+
+    const result = GameStateDerivation.tryApplyAction(state, removeBridge());
+    expect(result).toEqual({ valid: false, reason: 'Action would disconnect the citadels' });
+  });
+
+  it('should leave vetoed actions out of the legal actions', () => {
+    const state = createBattleState();
+    const removals = GameStateDerivation.getLegalActions(state, ALICE, 'builder1')
+      .filter((action): action is BuilderRemoveLandAction => action.type === 'builder-remove-land')
+      .map(action => action.landId);
+
+    expect(removals).toContain('l5');
+    expect(removals).not.toContain('l2');
+  });
+
+  it('should not block actions while the citadels are not yet connected', () => {
+    const state = createBattleState({
+      lands: createBattleState().lands.filter(l => l.id !== 'l2')
+    });
+
+    expect(GameStateDerivation.validateAction(state, removeSpare())).toBe(true);
+  });
+
+  it('should let game modes remove and add invariants', () => {
+    const state = createBattleState();
+
+    const relaxed = ActionRegistry.default.extend(registry => {
+      registry.unregisterInvariant(RuleInvariants.citadelsConnected.id);
+    });
+    expect(GameStateDerivation.validateAction(state, removeBridge(), relaxed)).toBe(true);
+
+    const strict = ActionRegistry.default.extend(registry => {
+      registry.registerInvariant({
+        id: 'keep-spare-land',
+        gameModes: ['conquest'],
+        check: next => next.lands.length >= 5 || 'Land tiles cannot be removed'
+      });
+    });
+    expect(GameStateDerivation.validateAction(state, removeSpare(), strict)).toBe(true);
+
+    const conquest = { ...state, config: { ...state.config, gameMode: 'conquest' as const } };
+    expect(GameStateDerivation.validateAction(conquest, removeSpare(), strict)).toBe('Land tiles cannot be removed');
+  });
+});
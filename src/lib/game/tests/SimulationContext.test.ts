@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { ActionRegistry, type ValidationContext } from '../engine/ActionRegistry';
+import { CoreActionHandlers } from '../engine/CoreActionHandlers';
+import { GameFactory, ActionFactory } from '../engine/GameFactory';
+import { GameStateDerivation, DerivationUtils } from '../engine/ModularGameStateDerivation';
+import { SimulationContextUtils, DEFAULT_MAX_SIMULATION_DEPTH } from '../engine/SimulationContext';
+import type { BaseGameAction } from '../engine/BaseActions';
+import type { GameState } from '../engine/GameState';
+
+const ALICE = 'player_alice';
+
+function createAction(type: string): BaseGameAction {
+  return { id: `${type}_1`, timestamp: 1, playerId: ALICE, type };
+}
+
+describe('Simulation Context', () => {
+  const gameDoc = GameFactory.createGameDocument(ALICE);
+  let state: GameState;
+
+  beforeEach(() => {
+    ActionRegistry.clear();
+    CoreActionHandlers.registerAll();
+    state = GameStateDerivation.deriveState(gameDoc.initialState, [ActionFactory.createJoinGameAction(ALICE, 'Alice')]);
+  });
+
+  it('should stop validators that simulate themselves at the depth limit', () => {
+    const depths: number[] = [];
+
+    // A validator that checks its action by simulating it - which runs this validator again
+    ActionRegistry.registerAction({
+      type: 'self-check',
+      handler: (current: GameState) => current,
+      validator: (current: GameState, action: BaseGameAction, context: ValidationContext) => {
+        depths.push(context.simulation.depth);
+        const result = DerivationUtils.simulateAction(current, action, {
+          registry: context.registry,
+          simulation: context.simulation
+        });
+        // At the depth limit the nested simulation is refused, so accept the action there
+        return result.valid || !SimulationContextUtils.canNest(context.simulation) || result.error!;
+      }
+    });
+
+    const result = DerivationUtils.simulateAction(state, createAction('self-check'));
+
+    expect(depths).toEqual([1, 2, 3]);
+    expect(DEFAULT_MAX_SIMULATION_DEPTH).toBe(3);
+    expect(result.valid).toBe(true);
+  });
+
+  it('should refuse to simulate beyond a configured limit', () => {
+    const simulation = SimulationContextUtils.create(1);
+    const nested = SimulationContextUtils.enter(simulation)!;
+
+    expect(nested).toEqual({ depth: 1, maxDepth: 1, isSimulating: true });
+    expect(SimulationContextUtils.enter(nested)).toBeNull();
+    expect(DerivationUtils.simulateAction(state, ActionFactory.createJoinGameAction('player_bob', 'Bob'), { simulation: nested }))
+      .toEqual({ newState: state, valid: false, error: 'Simulation depth limit of 1 reached' });
+  });
+
+  it('should tell validators whether they run inside a simulation', () => {
+    const seen: boolean[] = [];
+    ActionRegistry.registerAction({
+      type: 'expensive-check',
+      handler: (current: GameState) => current,
+      validator: (_current: GameState, _action: BaseGameAction, context: ValidationContext) => {
+        seen.push(context.simulation.isSimulating);
+        return true;
+      }
+    });
+
+    GameStateDerivation.validateAction(state, createAction('expensive-check'));
+    DerivationUtils.simulateAction(state, createAction('expensive-check'));
+
+    expect(seen).toEqual([false, true]);
+  });
+
+  it('should pass the simulation context to handlers', () => {
+    ActionRegistry.registerAction({
+      type: 'mark',
+      handler: (current: GameState, _action: BaseGameAction, context: ValidationContext) => ({
+        ...current,
+        gameSpecificState: { depth: context.simulation.depth }
+      })
+    });
+
+    const simulated = DerivationUtils.simulateAction(state, createAction('mark'));
+    const real = GameStateDerivation.applyAction(state, createAction('mark'));
+
+    expect(simulated.newState.gameSpecificState).toEqual({ depth: 1 });
+    expect(real.gameSpecificState).toEqual({ depth: 0 });
+    expect(state.gameSpecificState).toBeUndefined();
+  });
+});
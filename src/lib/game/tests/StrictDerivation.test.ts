@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { ActionRegistry } from '../engine/ActionRegistry';
+import { CoreActionHandlers } from '../engine/CoreActionHandlers';
+import { GameFactory, ActionFactory } from '../engine/GameFactory';
+import { GameStateDerivation, DerivationUtils } from '../engine/ModularGameStateDerivation';
+import type { BaseGameAction } from '../engine/BaseActions';
+
+const ALICE = 'player_alice';
+const BOB = 'player_bob';
+
+describe('Strict State Derivation', () => {
+  const gameDoc = GameFactory.createGameDocument(ALICE);
+
+  beforeEach(() => {
+    ActionRegistry.clear();
+    CoreActionHandlers.registerAll();
+  });
+
+  it('should apply a valid log like deriveState', () => {
+    const actions = [
+      ActionFactory.createJoinGameAction(ALICE, 'Alice'),
+      ActionFactory.createJoinGameAction(BOB, 'Bob'),
+      ActionFactory.createStartGameAction(ALICE),
+      ActionFactory.createPlaceLandAction(ALICE, 0, 0, 'pooled_land_1')
+    ];
+
+    const result = GameStateDerivation.deriveStateStrict(gameDoc.initialState, actions);
+
+    expect(result.valid).toBe(true);
+    expect(result.rejections).toEqual([]);
+    expect(result.appliedCount).toBe(4);
+    expect(result.state).toEqual(GameStateDerivation.deriveState(gameDoc.initialState, actions));
+  });
+
+  it('should stop at the first invalid action and report the last good state', () => {
+    const outOfTurn = ActionFactory.createPlaceLandAction(BOB, 1, 0, 'pooled_land_1');
+    const actions = [
+      ActionFactory.createJoinGameAction(ALICE, 'Alice'),
+      ActionFactory.createJoinGameAction(BOB, 'Bob'),
+      ActionFactory.createStartGameAction(ALICE),
+      outOfTurn,
+      ActionFactory.createPlaceLandAction(ALICE, 0, 0, 'pooled_land_2')
+    ];
+
+    const result = GameStateDerivation.deriveStateStrict(gameDoc.initialState, actions);
+
+    expect(result.valid).toBe(false);
+    expect(result.appliedCount).toBe(3);
+    expect(result.rejections).toHaveLength(1);
+    expect(result.rejections[0]).toMatchObject({
+      index: 3,
+      actionId: outOfTurn.id,
+      actionType: 'place-land',
+      reason: 'Not your turn'
+    });
+    expect(result.rejections[0].lastValidState.lands).toEqual([]);
+    expect(result.state).toBe(result.rejections[0].lastValidState);
+  });
+
+  it('should skip invalid actions and keep going when asked to', () => {
+    const actions = [
+      ActionFactory.createJoinGameAction(ALICE, 'Alice'),
+      ActionFactory.createStartGameAction(ALICE), // Not enough players
+      ActionFactory.createJoinGameAction(BOB, 'Bob'),
+      ActionFactory.createStartGameAction(ALICE)
+    ];
+
+    const result = GameStateDerivation.deriveStateStrict(gameDoc.initialState, actions, { onInvalid: 'skip' });
+
+    expect(result.valid).toBe(false);
+    expect(result.appliedCount).toBe(3);
+    expect(result.rejections.map(r => r.index)).toEqual([1]);
+    expect(result.rejections[0].reason).toBe('Need at least 2 players to start');
+    expect(result.state.phase).toBe('land-placement');
+  });
+
+  it('should reject unknown action types instead of ignoring them', () => {
+    const unknownAction: BaseGameAction = {
+      id: 'unknown_1',
+      timestamp: Date.now(),
+      playerId: ALICE,
+      type: 'unknown-action-type'
+    };
+
+    const result = GameStateDerivation.deriveStateStrict(gameDoc.initialState, [unknownAction]);
+
+    expect(result.valid).toBe(false);
+    expect(result.rejections[0].reason).toMatch(/No handler registered/);
+  });
+
+  it('should reject actions whose handler throws', () => {
+    ActionRegistry.registerAction({
+      type: 'broken-action',
+      handler: () => {
+        throw new Error('Handler exploded');
+      }
+    });
+
+    const brokenAction: BaseGameAction = {
+      id: 'broken_1',
+      timestamp: Date.now(),
+      playerId: ALICE,
+      type: 'broken-action'
+    };
+
+    const result = GameStateDerivation.deriveStateStrict(gameDoc.initialState, [brokenAction]);
+
+    expect(result.rejections[0]).toMatchObject({ actionId: 'broken_1', reason: 'Handler exploded' });
+  });
+
+  it('should report sequence errors through DerivationUtils', () => {
+    const actions = [
+      ActionFactory.createJoinGameAction(ALICE, 'Alice'),
+      ActionFactory.createJoinGameAction(ALICE, 'Alice again')
+    ];
+
+    expect(DerivationUtils.validateActionSequence(gameDoc.initialState, actions)).toEqual({
+      valid: false,
+      errors: ['Action 1 (join-game): Player already in game']
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { ActionRegistry } from '../engine/ActionRegistry';
+import { CoreActionHandlers } from '../engine/CoreActionHandlers';
+import { GameFactory, ActionFactory } from '../engine/GameFactory';
+import { GameStateDerivation } from '../engine/ModularGameStateDerivation';
+import { DerivationCache } from '../engine/DerivationCache';
+import { GameHistory } from '../engine/GameHistory';
+import { ActionUtils } from '../engine/BaseActions';
+import type { BaseGameAction } from '../engine/BaseActions';
+import type { GameConfig } from '../engine/GameState';
+
+const ALICE = 'player_alice';
+const BOB = 'player_bob';
+
+function createGame(config: Partial<GameConfig> = {}) {
+  const gameDoc = GameFactory.createGameDocument(ALICE, { landsPerPlayer: 3, ...config });
+  const actions: BaseGameAction[] = [
+    ActionFactory.createJoinGameAction(ALICE, 'Alice'),
+    ActionFactory.createJoinGameAction(BOB, 'Bob'),
+    ActionFactory.createStartGameAction(ALICE)
+  ];
+
+  return {
+    gameDoc,
+    actions,
+    derive: () => GameStateDerivation.deriveState(gameDoc.initialState, actions),
+    deriveStrict: () => GameStateDerivation.deriveStateStrict(gameDoc.initialState, actions)
+  };
+}
+
+describe('Takebacks', () => {
+  beforeEach(() => {
+    ActionRegistry.clear();
+    CoreActionHandlers.registerAll();
+  });
+
+  it('should wait for consent before taking an action back', () => {
+    const game = createGame();
+    const aliceLand = ActionFactory.createPlaceLandAction(ALICE, 0, 0, 'pooled_land_1');
+    const request = ActionUtils.createRequestTakebackAction(ALICE, aliceLand.id);
+    game.actions.push(aliceLand, request);
+
+    let state = game.derive();
+    expect(state.pendingTakeback).toEqual({ requestId: request.id, requestedBy: ALICE, targetActionId: aliceLand.id });
+    expect(state.lands).toHaveLength(1);
+
+    game.actions.push(ActionUtils.createTakebackAnswerAction(BOB, request.id, true));
+
+    state = game.derive();
+    expect(state.pendingTakeback).toBeNull();
+    expect(state.lands).toEqual([]);
+    expect(state.currentPlayerId).toBe(ALICE);
+    expect(game.deriveStrict().valid).toBe(true);
+  });
+
+  it('should keep the game unchanged when a takeback is declined', () => {
+    const game = createGame();
+    const aliceLand = ActionFactory.createPlaceLandAction(ALICE, 0, 0, 'pooled_land_1');
+    const request = ActionUtils.createRequestTakebackAction(ALICE, aliceLand.id);
+    game.actions.push(aliceLand, request, ActionUtils.createTakebackAnswerAction(BOB, request.id, false));
+
+    const state = game.derive();
+    expect(state.pendingTakeback).toBeNull();
+    expect(state.lands).toHaveLength(1);
+    expect(state.currentPlayerId).toBe(BOB);
+  });
+
+  it('should rewind over actions made after the target', () => {
+    const game = createGame();
+    const aliceLand = ActionFactory.createPlaceLandAction(ALICE, 0, 0, 'pooled_land_1');
+    game.actions.push(aliceLand);
+
+    const request = ActionUtils.createRequestTakebackAction(ALICE, aliceLand.id);
+    game.actions.push(
+      request,
+      ActionFactory.createPlaceLandAction(BOB, 1, 0, 'pooled_land_2'),
+      ActionUtils.createTakebackAnswerAction(BOB, request.id, true)
+    );
+
+    const state = game.derive();
+    expect(state.lands).toEqual([]);
+    expect(state.currentPlayerId).toBe(ALICE);
+  });
+
+  it('should only allow taking back your own last turn', () => {
+    const game = createGame();
+    const firstLand = ActionFactory.createPlaceLandAction(ALICE, 0, 0, 'pooled_land_1');
+    const bobLand = ActionFactory.createPlaceLandAction(BOB, 1, 0, 'pooled_land_2');
+    game.actions.push(firstLand, bobLand, ActionFactory.createPlaceLandAction(ALICE, 2, 0, 'pooled_land_3'));
+    const state = game.derive();
+
+    expect(GameStateDerivation.validateAction(state, ActionUtils.createRequestTakebackAction(ALICE, bobLand.id)))
+      .toBe('Can only take back your own actions');
+    expect(GameStateDerivation.validateAction(state, ActionUtils.createRequestTakebackAction(ALICE, firstLand.id)))
+      .toBe('Can only take back your last turn');
+    expect(GameStateDerivation.validateAction(state, ActionUtils.createRequestTakebackAction(BOB, bobLand.id)))
+      .toBe(true);
+
+    const ownActionsState = { ...state, config: { ...state.config, takebackRules: { scope: 'own-actions' as const, requireConsent: true } } };
+    expect(GameStateDerivation.validateAction(ownActionsState, ActionUtils.createRequestTakebackAction(ALICE, firstLand.id)))
+      .toBe(true);
+  });
+
+  it('should not let players answer their own request', () => {
+    const game = createGame();
+    const aliceLand = ActionFactory.createPlaceLandAction(ALICE, 0, 0, 'pooled_land_1');
+    const request = ActionUtils.createRequestTakebackAction(ALICE, aliceLand.id);
+    game.actions.push(aliceLand, request);
+    const state = game.derive();
+
+    expect(GameStateDerivation.validateAction(state, ActionUtils.createTakebackAnswerAction(ALICE, request.id, true)))
+      .toBe('Cannot answer your own takeback request');
+    expect(GameStateDerivation.validateAction(state, ActionUtils.createTakebackAnswerAction(BOB, 'other', true)))
+      .toBe('No matching takeback request');
+    expect(GameStateDerivation.validateAction(state, ActionUtils.createRequestTakebackAction(ALICE, aliceLand.id)))
+      .toBe('A takeback request is already pending');
+  });
+
+  it('should take back immediately when no consent is required', () => {
+    const game = createGame({ takebackRules: { scope: 'last-own-turn', requireConsent: false } });
+    const aliceLand = ActionFactory.createPlaceLandAction(ALICE, 0, 0, 'pooled_land_1');
+    game.actions.push(aliceLand, ActionUtils.createRequestTakebackAction(ALICE, aliceLand.id));
+
+    const state = game.derive();
+    expect(state.lands).toEqual([]);
+    expect(state.pendingTakeback).toBeNull();
+  });
+
+  it('should rewind through the derivation cache', () => {
+    const game = createGame();
+    const cache = new DerivationCache({ checkpointInterval: 2 });
+    const aliceLand = ActionFactory.createPlaceLandAction(ALICE, 0, 0, 'pooled_land_1');
+    const request = ActionUtils.createRequestTakebackAction(ALICE, aliceLand.id);
+    game.actions.push(aliceLand, request, ActionFactory.createPlaceLandAction(BOB, 1, 0, 'pooled_land_2'));
+    cache.getState(game.gameDoc.initialState, game.actions);
+
+    game.actions.push(ActionUtils.createTakebackAnswerAction(BOB, request.id, true));
+
+    expect(cache.getState(game.gameDoc.initialState, game.actions)).toEqual(game.derive());
+  });
+});
+
+describe('GameHistory', () => {
+  beforeEach(() => {
+    ActionRegistry.clear();
+    CoreActionHandlers.registerAll();
+  });
+
+  it('should undo and redo actions without changing earlier documents', () => {
+    const original = GameFactory.createGameDocument(ALICE);
+    const history = new GameHistory(original);
+
+    history.push(ActionFactory.createJoinGameAction(ALICE, 'Alice'));
+    const afterBob = history.push(ActionFactory.createJoinGameAction(BOB, 'Bob'));
+
+    expect(history.getState().players).toHaveLength(2);
+    expect(history.undo()?.actions).toHaveLength(1);
+    expect(history.getState().players).toHaveLength(1);
+    expect(history.canRedo()).toBe(true);
+
+    expect(history.redo()?.actions).toEqual(afterBob.actions);
+    expect(history.current.version).toBe(original.version + 4);
+    expect(original.actions).toEqual([]);
+  });
+
+  it('should clear the redo stack when a new action is pushed', () => {
+    const history = new GameHistory(GameFactory.createGameDocument(ALICE));
+
+    expect(history.canUndo()).toBe(false);
+    expect(history.undo()).toBeNull();
+
+    history.push(ActionFactory.createJoinGameAction(ALICE, 'Alice'));
+    history.undo();
+    history.push(ActionFactory.createJoinGameAction(BOB, 'Bob'));
+
+    expect(history.canRedo()).toBe(false);
+    expect(history.redo()).toBeNull();
+  });
+});
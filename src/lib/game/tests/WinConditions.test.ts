@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { ActionRegistry } from '../engine/ActionRegistry';
+import { CoreActionHandlers } from '../engine/CoreActionHandlers';
+import { GameFactory, ActionFactory } from '../engine/GameFactory';
+import { GameStateDerivation } from '../engine/ModularGameStateDerivation';
+import { WinConditions } from '../engine/WinConditions';
+import { ActionUtils } from '../engine/BaseActions';
+import type { BaseGameAction } from '../engine/BaseActions';
+import type { GameState } from '../engine/GameState';
+
+const ALICE = 'player_alice';
+const BOB = 'player_bob';
+
+/**
+ * Play through setup: Alice's citadel at (0,0) and Bob's at (1,0),
+ * Alice has a soldier in her stash
+ */
+function createBattleGame() {
+  const gameDoc = GameFactory.createGameDocument(ALICE, {
+    landsPerPlayer: 2,
+    personalPiecesPerPlayer: 1,
+    communityPiecesPerPlayer: 0
+  });
+  const soldier = ActionFactory.createSelectPieceAction(ALICE, 'soldier');
+  const actions: BaseGameAction[] = [
+    ActionFactory.createJoinGameAction(ALICE, 'Alice'),
+    ActionFactory.createJoinGameAction(BOB, 'Bob'),
+    ActionFactory.createStartGameAction(ALICE),
+    ActionFactory.createPlaceLandAction(ALICE, 0, 0, 'pooled_land_1'),
+    ActionFactory.createPlaceLandAction(BOB, 1, 0, 'pooled_land_2'),
+    ActionFactory.createPlaceLandAction(ALICE, 0, 1, 'pooled_land_3'),
+    ActionFactory.createPlaceLandAction(BOB, 2, 0, 'pooled_land_4'),
+    ActionFactory.createPlaceCitadelAction(ALICE, 0, 0),
+    ActionFactory.createPlaceCitadelAction(BOB, 1, 0),
+    soldier,
+    ActionFactory.createSelectPieceAction(BOB, 'soldier')
+  ];
+
+  return {
+    gameDoc,
+    actions,
+    soldierId: soldier.pieceId,
+    derive: (): GameState => GameStateDerivation.deriveState(gameDoc.initialState, actions)
+  };
+}
+
+describe('Win Conditions', () => {
+  beforeEach(() => {
+    ActionRegistry.clear();
+    CoreActionHandlers.registerAll();
+  });
+
+  it('should not declare a winner during setup', () => {
+    const game = createBattleGame();
+    game.actions.splice(8);
+
+    const state = game.derive();
+    expect(state.phase).toBe('citadel-placement');
+    expect(state.winnerId).toBeNull();
+  });
+
+  it('should finish the game when the last enemy citadel is captured', () => {
+    const game = createBattleGame();
+    let state = game.derive();
+    expect(state.phase).toBe('battle');
+
+    const bobCitadel = state.citadels.find(c => c.ownerId === BOB)!;
+    game.actions.push(
+      ActionFactory.createPlacePieceAction(ALICE, game.soldierId, 0, 1),
+      ActionUtils.createCaptureAction(ALICE, game.soldierId, bobCitadel.id, 1, 0)
+    );
+
+    state = game.derive();
+    expect(state.citadels.map(c => c.ownerId)).toEqual([ALICE]);
+    expect(state.phase).toBe('finished');
+    expect(state.winnerId).toBe(ALICE);
+    expect(state.currentPlayerId).toBeNull();
+  });
+
+  it('should reject capturing your own citadel', () => {
+    const game = createBattleGame();
+    game.actions.push(ActionFactory.createPlacePieceAction(ALICE, game.soldierId, 0, 1));
+    const state = game.derive();
+    const aliceCitadel = state.citadels.find(c => c.ownerId === ALICE)!;
+
+    expect(GameStateDerivation.validateAction(
+      state,
+      ActionUtils.createCaptureAction(ALICE, game.soldierId, aliceCitadel.id, 0, 0)
+    )).toBe('Cannot capture your own piece');
+  });
+
+  it('should only use conditions for the game mode', () => {
+    const state: GameState = {
+      ...createBattleGame().derive(),
+      citadels: [{ id: 'c1', position: { x: 0, y: 0 }, ownerId: ALICE }]
+    };
+
+    expect(WinConditions.lastCitadelStanding.check(state)).toBe(ALICE);
+    expect(ActionRegistry.checkWinConditions(state)).toBe(ALICE);
+    expect(ActionRegistry.checkWinConditions({ ...state, config: { ...state.config, gameMode: 'conquest' } }))
+      .toBeNull();
+  });
+
+  it('should let game modes supply their own conditions', () => {
+    const registry = new ActionRegistry();
+    CoreActionHandlers.registerAll(registry);
+    registry.unregisterWinCondition(WinConditions.lastCitadelStanding.id);
+    registry.registerWinCondition({
+      id: 'first-capture',
+      check: (state: GameState) => (state.graveyard.length > 0 ? state.currentPlayerId : null)
+    });
+
+    const game = createBattleGame();
+    let state = game.derive();
+    state = { ...state, pieces: [{ id: 'enemy', type: 'soldier', ownerId: BOB, position: { x: 1, y: 1 } }] };
+    state = GameStateDerivation.applyAction(state, ActionFactory.createPlacePieceAction(ALICE, game.soldierId, 0, 1), { registry });
+    state = GameStateDerivation.applyAction(state, ActionUtils.createCaptureAction(ALICE, game.soldierId, 'enemy', 1, 1), { registry });
+
+    expect(state.phase).toBe('finished');
+    expect(state.winnerId).toBe(ALICE);
+  });
+});
@@ -1,3 +1,5 @@
+import { EngineContextUtils } from '../engine/EngineContext';
+
 /**
  * Utility functions for generating unique identifiers
  */
@@ -6,35 +8,35 @@ export const IdUtils = {
    * Generate a unique game ID
    */
   generateGameId(): string {
-    return `game_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return EngineContextUtils.generateId('game');
   },
 
   /**
    * Generate a unique player ID
    */
   generatePlayerId(): string {
-    return `player_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return EngineContextUtils.generateId('player');
   },
 
   /**
    * Generate a unique piece ID
    */
   generatePieceId(): string {
-    return `piece_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return EngineContextUtils.generateId('piece');
   },
 
   /**
    * Generate a unique land ID
    */
   generateLandId(): string {
-    return `land_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return EngineContextUtils.generateId('land');
   },
 
   /**
    * Generate a unique citadel ID
    */
   generateCitadelId(): string {
-    return `citadel_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return EngineContextUtils.generateId('citadel');
   },
 
   /**
@@ -44,7 +46,7 @@ export const IdUtils = {
     const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
     let result = '';
     for (let i = 0; i < 6; i++) {
-      result += chars.charAt(Math.floor(Math.random() * chars.length));
+      result += chars.charAt(Math.floor(EngineContextUtils.random() * chars.length));
     }
     return result;
   }
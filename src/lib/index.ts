@@ -4,6 +4,7 @@ export * from './game/board/Board';
 export * from './game/board/PathfindingUtils';
 export * from './game/board/WaterAreaUtils';
 export * from './game/board/TurtleUtils';
+export * from './game/board/MovementPatterns';
 export * from './game/engine/GameState';
 
 // Modular action system
@@ -11,6 +12,20 @@ export * from './game/engine/BaseActions';
 export * from './game/engine/ActionRegistry';
 export * from './game/engine/CoreActionHandlers';
 export * from './game/engine/ModularGameStateDerivation';
+export * from './game/engine/PhaseController';
+export * from './game/engine/LandPool';
+export * from './game/engine/DerivationCache';
+export * from './game/engine/GameHistory';
+export * from './game/engine/WinConditions';
+export * from './game/engine/RuleInvariants';
+export * from './game/engine/ActionSchema';
+export * from './game/engine/DocumentMigrations';
+export * from './game/engine/PieceRegistry';
+export * from './game/engine/StandardPieces';
+export * from './game/engine/GameEvents';
+export * from './game/engine/EngineContext';
+export * from './game/engine/SimulationContext';
+export * from './game/pieces/StandardPieceModules';
 
 // Factories and utilities
 export * from './game/engine/GameFactory';